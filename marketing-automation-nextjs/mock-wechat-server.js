@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+const http = require('http');
+const { URL } = require('url');
+
+// Mock WeChat Official Account API for testing publishing locally.
+// Point WECHAT_API_BASE_URL (or "WeChat API Base URL" in settings) at this server.
+const PORT = parseInt(process.env.MOCK_WECHAT_PORT || '4010');
+const APP_ID = process.env.MOCK_WECHAT_APP_ID || 'mock-app-id';
+const APP_SECRET = process.env.MOCK_WECHAT_APP_SECRET || 'mock-app-secret';
+// Number of freepublish/get polls that report "publishing" before success
+const PUBLISH_DELAY_POLLS = parseInt(process.env.MOCK_WECHAT_PUBLISH_DELAY_POLLS || '1');
+
+const logger = {
+  info: (message, ...args) => {
+    console.log(`[INFO] ${new Date().toISOString()}: ${message}`, ...args);
+  },
+  warn: (message, ...args) => {
+    console.warn(`[WARN] ${new Date().toISOString()}: ${message}`, ...args);
+  }
+};
+
+const state = {
+  tokens: new Set(),
+  materials: new Map(),
+  drafts: new Map(),
+  publishes: new Map(),
+  nextId: 1
+};
+
+function nextId(prefix) {
+  return `${prefix}_${state.nextId++}`;
+}
+
+function sendJson(res, body) {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(buffer) {
+  try {
+    return JSON.parse(buffer.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+const handlers = {
+  'GET /cgi-bin/token': (url) => {
+    if (url.searchParams.get('appid') !== APP_ID || url.searchParams.get('secret') !== APP_SECRET) {
+      return { errcode: 40125, errmsg: 'invalid appsecret' };
+    }
+    const token = nextId('token');
+    state.tokens.add(token);
+    logger.info(`Issued access token ${token}`);
+    return { access_token: token, expires_in: 7200 };
+  },
+
+  'POST /cgi-bin/material/add_material': (url, body) => {
+    if (url.searchParams.get('type') !== 'image') {
+      return { errcode: 40004, errmsg: 'invalid media type' };
+    }
+    if (body.length === 0) {
+      return { errcode: 41005, errmsg: 'media data missing' };
+    }
+    const mediaId = nextId('material');
+    state.materials.set(mediaId, body.length);
+    logger.info(`Stored image material ${mediaId} (${body.length} bytes)`);
+    return { media_id: mediaId, url: `http://localhost:${PORT}/material/${mediaId}.jpg` };
+  },
+
+  'POST /cgi-bin/draft/add': (url, body) => {
+    const data = parseJson(body);
+    const article = data?.articles?.[0];
+    if (!article?.title || !article?.content) {
+      return { errcode: 44003, errmsg: 'empty news data' };
+    }
+    if (!state.materials.has(article.thumb_media_id)) {
+      return { errcode: 40007, errmsg: 'invalid media_id' };
+    }
+    const mediaId = nextId('draft');
+    state.drafts.set(mediaId, data.articles);
+    logger.info(`Created draft ${mediaId}: ${article.title}`);
+    return { media_id: mediaId };
+  },
+
+  'POST /cgi-bin/freepublish/submit': (url, body) => {
+    const data = parseJson(body);
+    if (!state.drafts.has(data?.media_id)) {
+      return { errcode: 40007, errmsg: 'invalid media_id' };
+    }
+    const publishId = String(state.nextId++);
+    state.publishes.set(publishId, { mediaId: data.media_id, polls: 0 });
+    logger.info(`Submitted draft ${data.media_id} as publish ${publishId}`);
+    return { errcode: 0, errmsg: 'ok', publish_id: publishId };
+  },
+
+  'POST /cgi-bin/freepublish/get': (url, body) => {
+    const data = parseJson(body);
+    const publish = state.publishes.get(String(data?.publish_id));
+    if (!publish) {
+      return { errcode: 40007, errmsg: 'invalid publish_id' };
+    }
+    publish.polls++;
+    if (publish.polls <= PUBLISH_DELAY_POLLS) {
+      return { publish_id: data.publish_id, publish_status: 1 };
+    }
+    return {
+      publish_id: data.publish_id,
+      publish_status: 0,
+      article_id: `article_${data.publish_id}`,
+      article_detail: {
+        count: 1,
+        item: [{ idx: 1, article_url: `http://localhost:${PORT}/s/${data.publish_id}` }]
+      }
+    };
+  },
+
+  'POST /cgi-bin/freepublish/delete': (url, body) => {
+    const data = parseJson(body);
+    const publishId = String(data?.article_id || '').replace(/^article_/, '');
+    if (!state.publishes.has(publishId)) {
+      return { errcode: 40007, errmsg: 'invalid article_id' };
+    }
+    state.publishes.delete(publishId);
+    logger.info(`Deleted article ${data.article_id}`);
+    return { errcode: 0, errmsg: 'ok' };
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const handler = handlers[`${req.method} ${url.pathname}`];
+
+  if (!handler) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ errcode: 404, errmsg: `no mock for ${req.method} ${url.pathname}` }));
+    return;
+  }
+
+  const body = await readBody(req);
+
+  if (url.pathname !== '/cgi-bin/token' && !state.tokens.has(url.searchParams.get('access_token'))) {
+    logger.warn(`Rejected ${url.pathname}: invalid access token`);
+    sendJson(res, { errcode: 40001, errmsg: 'invalid credential, access_token is invalid or not latest' });
+    return;
+  }
+
+  sendJson(res, handler(url, body));
+});
+
+if (require.main === module) {
+  server.listen(PORT, () => {
+    logger.info(`Mock WeChat API listening on http://localhost:${PORT}`);
+    logger.info(`Use AppID "${APP_ID}" and AppSecret "${APP_SECRET}"`);
+  });
+}
+
+module.exports = { server };
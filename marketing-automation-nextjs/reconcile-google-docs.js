@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+// Lists Google Docs in the configured Drive folder that no content row links to.
+// Runs against a running app, signing in as an admin:
+//   APP_URL=http://localhost:3000 APP_USERNAME=admin APP_PASSWORD=... npm run reconcile:docs
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const { APP_USERNAME, APP_PASSWORD } = process.env;
+
+async function main() {
+  if (!APP_USERNAME || !APP_PASSWORD) {
+    console.error('Set APP_USERNAME and APP_PASSWORD to an admin account');
+    process.exit(1);
+  }
+
+  const login = await fetch(`${APP_URL}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: APP_USERNAME, password: APP_PASSWORD })
+  });
+  if (!login.ok) {
+    const data = await login.json().catch(() => ({}));
+    throw new Error(`Sign-in failed: ${data.error?.message || login.status}`);
+  }
+  const cookie = (login.headers.get('set-cookie') || '').split(';')[0];
+
+  const response = await fetch(`${APP_URL}/api/publish/googledocs/reconcile`, { headers: { cookie } });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Request failed with ${response.status}`);
+  }
+
+  console.log(data.message);
+  for (const document of data.orphaned) {
+    console.log(`${document.id}\t${document.createdTime}\t${document.name}\t${document.url}`);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
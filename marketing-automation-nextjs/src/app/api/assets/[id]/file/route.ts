@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { AssetService } from '@/services/assets.service';
+
+// The image itself; assets never change once stored, so it can be cached for good
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const assetId = parseInt(params.id);
+    
+    if (isNaN(assetId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid asset ID' } },
+        { status: 400 }
+      );
+    }
+
+    const assetService = new AssetService();
+    const file = await assetService.readAssetFile(assetId);
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': String(file.data.length),
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error reading asset file:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to read asset file',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { AssetService } from '@/services/assets.service';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const assetId = parseInt(params.id);
+    
+    if (isNaN(assetId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid asset ID' } },
+        { status: 400 }
+      );
+    }
+
+    const assetService = new AssetService();
+    const asset = await assetService.getAsset(assetId);
+
+    if (!asset) {
+      return NextResponse.json(
+        { error: { message: 'Asset not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      asset
+    });
+  } catch (error: any) {
+    console.error('Error fetching asset:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch asset',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { AssetService } from '@/services/assets.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+
+    const assetService = new AssetService();
+    const assets = await assetService.listAssets({ platform: searchParams.get('platform') || undefined, limit });
+
+    return NextResponse.json({
+      success: true,
+      assets
+    });
+  } catch (error: any) {
+    console.error('Error fetching assets:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch assets',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Upload an image to the library (multipart form with `file` and an optional `platform`)
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const platform = form.get('platform');
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: { message: 'An image file is required' } },
+        { status: 400 }
+      );
+    }
+
+    const assetService = new AssetService();
+    const asset = await assetService.createAsset(Buffer.from(await file.arrayBuffer()), {
+      source: 'upload',
+      platform: typeof platform === 'string' && platform ? platform : null,
+      originalName: file instanceof File ? file.name : null,
+      createdBy: getRequestUser(request)?.id
+    });
+
+    return NextResponse.json({
+      success: true,
+      asset,
+      message: 'Image uploaded successfully'
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error uploading asset:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to upload image',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { UserService } from '@/services/users.service';
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/auth/session';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password } = await request.json();
+
+    const userService = new UserService();
+    const user = await userService.authenticate(username, password);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: 'Invalid username or password' } },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user
+    });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    return response;
+  } catch (error: any) {
+    console.error('Error logging in:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.statusCode ? error.message : 'Failed to log in',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
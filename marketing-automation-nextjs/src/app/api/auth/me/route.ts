@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth/session';
+import { getPermissions } from '@/lib/auth/permissions';
+
+export async function GET(request: Request) {
+  const user = getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: { message: 'Authentication required' } },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({
+    user,
+    permissions: getPermissions(user.role)
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserService } from '@/services/users.service';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+
+// Called by the middleware, which runs on the Edge runtime and can't reach the database:
+// the session's user if the token is valid and the account hasn't been changed since
+export async function GET(request: NextRequest) {
+  try {
+    const claims = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    const user = claims && await new UserService().getSessionUser(claims);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: 'Session is invalid or has been revoked' } },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ user });
+  } catch (error: any) {
+    console.error('Error checking session:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to check session',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { UserService } from '@/services/users.service';
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/auth/session';
+
+// First-run setup: creates the initial admin while no accounts exist
+export async function GET() {
+  try {
+    const userService = new UserService();
+    return NextResponse.json({ needsSetup: (await userService.countUsers()) === 0 });
+  } catch (error: any) {
+    console.error('Error checking setup status:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to check setup status',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userService = new UserService();
+    if ((await userService.countUsers()) > 0) {
+      return NextResponse.json(
+        { error: { message: 'Setup has already been completed' } },
+        { status: 403 }
+      );
+    }
+
+    // Another setup request can still get in first; createFirstAdmin then fails with a 409
+    const { username, password } = await request.json();
+    const user = await userService.createFirstAdmin(username, password);
+
+    const response = NextResponse.json({
+      success: true,
+      user,
+      message: 'Admin account created'
+    });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    return response;
+  } catch (error: any) {
+    console.error('Error creating admin account:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to create admin account',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { BrandProfileService } from '@/services/brandProfiles.service';
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const profileId = parseInt(params.id);
+    
+    if (isNaN(profileId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid brand profile ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { name, tone, language, bannedPhrases, disclaimer, cta } = await request.json();
+
+    const brandService = new BrandProfileService();
+    const profile = await brandService.updateProfile(profileId, { name, tone, language, bannedPhrases, disclaimer, cta });
+
+    return NextResponse.json({
+      success: true,
+      profile,
+      message: 'Brand profile updated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error updating brand profile:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update brand profile',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const profileId = parseInt(params.id);
+    
+    if (isNaN(profileId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid brand profile ID' } },
+        { status: 400 }
+      );
+    }
+
+    const brandService = new BrandProfileService();
+    await brandService.deleteProfile(profileId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Brand profile deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting brand profile:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to delete brand profile',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
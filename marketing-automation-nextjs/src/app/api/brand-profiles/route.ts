@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { BrandProfileService } from '@/services/brandProfiles.service';
+
+export async function GET() {
+  try {
+    const brandService = new BrandProfileService();
+    const profiles = await brandService.listProfiles();
+
+    return NextResponse.json({
+      success: true,
+      profiles
+    });
+  } catch (error: any) {
+    console.error('Error fetching brand profiles:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch brand profiles',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { name, tone, language, bannedPhrases, disclaimer, cta } = await request.json();
+
+    const brandService = new BrandProfileService();
+    const profile = await brandService.createProfile({ name, tone, language, bannedPhrases, disclaimer, cta });
+
+    return NextResponse.json({
+      success: true,
+      profile,
+      message: 'Brand profile created successfully'
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating brand profile:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to create brand profile',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
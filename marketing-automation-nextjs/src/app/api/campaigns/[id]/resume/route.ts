@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { CampaignScheduler } from '@/services/campaignScheduler.service';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const campaignId = parseInt(params.id);
+    
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid campaign ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scheduler = new CampaignScheduler();
+    const campaign = await scheduler.resumeCampaign(campaignId);
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      message: 'Campaign resumed successfully'
+    });
+  } catch (error: any) {
+    console.error('Error resuming campaign:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to resume campaign',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
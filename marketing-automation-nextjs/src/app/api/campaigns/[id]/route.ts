@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { CampaignScheduler } from '@/services/campaignScheduler.service';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const campaignId = parseInt(params.id);
+    
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid campaign ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scheduler = new CampaignScheduler();
+    const campaign = await scheduler.getCampaign(campaignId);
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: { message: 'Campaign not found' } },
+        { status: 404 }
+      );
+    }
+
+    const logs = await scheduler.getCampaignLogs(campaignId);
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      logs
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaign:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch campaign',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const campaignId = parseInt(params.id);
+    
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid campaign ID' } },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { name, schedule, mode, topic, platforms } = body;
+
+    const scheduler = new CampaignScheduler();
+    const campaign = await scheduler.updateCampaign(campaignId, { name, schedule, mode, topic, platforms });
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      message: 'Campaign updated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error updating campaign:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update campaign',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const campaignId = parseInt(params.id);
+    
+    if (isNaN(campaignId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid campaign ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scheduler = new CampaignScheduler();
+    await scheduler.deleteCampaign(campaignId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Campaign deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting campaign:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to delete campaign',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
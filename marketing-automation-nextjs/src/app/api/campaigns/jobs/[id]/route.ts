@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { CampaignJobQueue } from '@/services/campaignJobs.service';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const jobId = parseInt(params.id);
+    
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid job ID' } },
+        { status: 400 }
+      );
+    }
+
+    const jobQueue = new CampaignJobQueue();
+    const job = await jobQueue.getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: { message: 'Job not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Pick up any queued jobs left behind, e.g. after a server restart
+    if (job.status === 'queued') {
+      jobQueue.startWorker();
+    }
+
+    return NextResponse.json({
+      success: true,
+      job
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaign job:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch campaign job',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
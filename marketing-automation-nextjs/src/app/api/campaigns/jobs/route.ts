@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { CampaignJobQueue } from '@/services/campaignJobs.service';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100);
+
+    const jobQueue = new CampaignJobQueue();
+    const jobs = await jobQueue.listJobs(limit);
+
+    return NextResponse.json({
+      success: true,
+      jobs
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaign jobs:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch campaign jobs',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
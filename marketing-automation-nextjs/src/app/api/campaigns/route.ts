@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { CampaignScheduler } from '@/services/campaignScheduler.service';
+
+export async function GET() {
+  try {
+    const scheduler = new CampaignScheduler();
+    const campaigns = await scheduler.listCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      campaigns
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaigns:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch campaigns',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { name, schedule, mode = 'auto', topic, platforms } = body;
+
+    const scheduler = new CampaignScheduler();
+    const campaign = await scheduler.createCampaign({ name, schedule, mode, topic, platforms });
+
+    return NextResponse.json({
+      success: true,
+      campaign,
+      message: 'Scheduled campaign created'
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating campaign:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to create campaign',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
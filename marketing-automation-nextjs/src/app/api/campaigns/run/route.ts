@@ -1,24 +1,59 @@
 import { NextResponse } from 'next/server';
-import { CampaignRunner } from '@/services/campaign.service';
+import { CampaignJobQueue } from '@/services/campaignJobs.service';
+import { PublishingValidatorService } from '@/services/publishingValidator.service';
+import { BrandProfileService } from '@/services/brandProfiles.service';
 
 export async function POST(request: Request) {
   try {
     const body = await request.json().catch(() => ({}));
-    const { mode = 'auto', customTopic } = body;
+    const { mode = 'auto', customTopic, brandProfileId } = body;
     
-    const campaignRunner = new CampaignRunner();
+    if (mode !== 'auto' && mode !== 'custom') {
+      return NextResponse.json(
+        { error: { message: "Mode must be 'auto' or 'custom'" } },
+        { status: 400 }
+      );
+    }
     
-    // Run the campaign
-    const result = await campaignRunner.runCampaign(mode, customTopic);
+    if (customTopic !== undefined && customTopic !== null && typeof customTopic !== 'string') {
+      return NextResponse.json(
+        { error: { message: 'The custom topic must be a string' } },
+        { status: 400 }
+      );
+    }
+    
+    if (mode === 'custom' && !customTopic?.trim()) {
+      return NextResponse.json(
+        { error: { message: 'A custom topic is required in custom mode' } },
+        { status: 400 }
+      );
+    }
+    
+    if (brandProfileId && !(await new BrandProfileService().getProfile(Number(brandProfileId)))) {
+      return NextResponse.json(
+        { error: { message: 'Brand profile not found' } },
+        { status: 400 }
+      );
+    }
+    
+    // Fail fast on configuration problems instead of queueing a job that can't run
+    const validator = new PublishingValidatorService();
+    await validator.validateBeforeCampaign();
+    
+    // Queue the campaign; the worker runs it in the background
+    const jobQueue = new CampaignJobQueue();
+    const job = await jobQueue.enqueue(mode, customTopic?.trim(), {
+      brandProfileId: brandProfileId ? Number(brandProfileId) : undefined
+    });
     
     return NextResponse.json({
       success: true,
-      trendsFound: result.trendsFound,
-      processed: result.processed,
-      message: 'Campaign executed successfully'
-    });
+      jobId: job.id,
+      job,
+      message: 'Campaign queued'
+    }, { status: 202 });
   } catch (error: any) {
-    console.error('Campaign execution error:', error);
+    console.error('Campaign queueing error:', error);
     
     return NextResponse.json(
       { 
@@ -27,7 +62,7 @@ export async function POST(request: Request) {
           details: error.details || null
         }
       },
-      { status: 500 }
+      { status: error.statusCode || 500 }
     );
   }
-}
\ No newline at end of file
+}
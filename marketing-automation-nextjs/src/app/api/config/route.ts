@@ -1,35 +1,100 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { DEFAULT_GENERATE_IMAGES, LLM_PROVIDER_IDS, LLMProviderId, LLMProviderSettings, loadUserConfig, saveUserConfig } from '@/lib/utils/config';
+import { SECRET_KEYS, SecretKey, isSecretKey, maskSecret } from '@/lib/utils/secrets';
+import { Locale, isLocale } from '@/lib/utils/locales';
+import { getPublisher } from '@/services/publishers';
 
-const USER_CONFIG_PATH = path.join(process.cwd(), 'user-config.json');
+// Keep only known providers and fields; blank fields fall back to the provider defaults
+function sanitizeLLMProviders(input: any): Partial<Record<LLMProviderId, LLMProviderSettings>> {
+  const llmProviders: Partial<Record<LLMProviderId, LLMProviderSettings>> = {};
+
+  for (const id of LLM_PROVIDER_IDS) {
+    const settings = input?.[id];
+    if (!settings || typeof settings !== 'object') continue;
+
+    const sanitized: LLMProviderSettings = {};
+    if (typeof settings.model === 'string' && settings.model.trim()) sanitized.model = settings.model.trim();
+    if (typeof settings.baseUrl === 'string' && settings.baseUrl.trim()) sanitized.baseUrl = settings.baseUrl.trim();
+    const temperature = parseFloat(settings.temperature);
+    if (!isNaN(temperature)) sanitized.temperature = temperature;
+    const maxTokens = parseInt(settings.maxTokens);
+    if (maxTokens > 0) sanitized.maxTokens = maxTokens;
+
+    if (Object.keys(sanitized).length > 0) {
+      llmProviders[id] = sanitized;
+    }
+  }
+
+  return llmProviders;
+}
+
+// Keep only known platforms with a supported locale; missing platforms use the publisher default
+function sanitizePlatformLocales(input: any): Record<string, Locale> {
+  const platformLocales: Record<string, Locale> = {};
+
+  for (const [platform, locale] of Object.entries(input && typeof input === 'object' ? input : {})) {
+    if (getPublisher(platform) && isLocale(locale)) {
+      platformLocales[platform] = locale;
+    }
+  }
+
+  return platformLocales;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const config = await request.json();
-    
-    // Save user configuration to JSON file
+    const current = await loadUserConfig();
+    const aiProvider: LLMProviderId = LLM_PROVIDER_IDS.includes(config.aiProvider) ? config.aiProvider : 'openai';
+
+    // Save user configuration (secrets are encrypted separately)
     const userConfig = {
-      serpApiKey: config.serpApiKey || '',
-      openAiKey: config.openAiKey || '',
+      aiProvider,
+      aiFallbackProviders: (Array.isArray(config.aiFallbackProviders) ? config.aiFallbackProviders : [])
+        .filter((id: any) => LLM_PROVIDER_IDS.includes(id) && id !== aiProvider),
+      llmProviders: sanitizeLLMProviders(config.llmProviders),
       wechatAppId: config.wechatAppId || '',
-      wechatAppSecret: config.wechatAppSecret || '',
-      xhsCookie: config.xhsCookie || '',
-      googleDocsCredentials: config.googleDocsCredentials || '',
+      wechatApiBaseUrl: config.wechatApiBaseUrl || '',
+      wechatDefaultThumbMediaId: config.wechatDefaultThumbMediaId || '',
       googleDocsFolderId: config.googleDocsFolderId || '',
-      rssFeeds: config.rssFeeds || [
-        { url: 'https://techcrunch.com/feed/', name: 'TechCrunch' },
-        { url: 'https://www.theverge.com/rss/index.xml', name: 'The Verge' }
-      ],
+      brandInterests: (Array.isArray(config.brandInterests) ? config.brandInterests : [])
+        .filter((word: any) => typeof word === 'string' && word.trim())
+        .map((word: string) => word.trim()),
+      topicMaxAgeDays: Number(config.topicMaxAgeDays) || 7,
+      publishMinGapMinutes: Number(config.publishMinGapMinutes) || 240,
+      forbiddenWords: (Array.isArray(config.forbiddenWords) ? config.forbiddenWords : [])
+        .filter((word: any) => typeof word === 'string' && word.trim())
+        .map((word: string) => word.trim()),
+      blockApprovalOnHardViolations: config.blockApprovalOnHardViolations === true,
+      platformLocales: sanitizePlatformLocales(config.platformLocales),
+      translationLocales: (Array.isArray(config.translationLocales) ? config.translationLocales : []).filter(isLocale),
+      // Left out of the request, the saved setting (or the default) is kept
+      generateImages: typeof config.generateImages === 'boolean'
+        ? config.generateImages
+        : current?.generateImages ?? DEFAULT_GENERATE_IMAGES,
       updatedAt: new Date().toISOString()
     };
 
-    // Write to user-config.json file
-    await fs.writeFile(USER_CONFIG_PATH, JSON.stringify(userConfig, null, 2), 'utf8');
+    // Secrets are write-only: an empty value or the masked value returned by GET
+    // keeps the stored secret, and `clearSecrets` lists secrets to remove
+    const secrets: Partial<Record<SecretKey, string | null>> = {};
+    for (const key of SECRET_KEYS) {
+      const value = typeof config[key] === 'string' ? config[key].trim() : '';
+      if (value && value !== maskSecret(current?.[key])) {
+        secrets[key] = value;
+      }
+    }
+    for (const key of Array.isArray(config.clearSecrets) ? config.clearSecrets : []) {
+      if (isSecretKey(key) && secrets[key] === undefined) {
+        secrets[key] = null;
+      }
+    }
+
+    await saveUserConfig(userConfig, secrets);
 
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Configuration saved successfully' 
+    return NextResponse.json({
+      success: true,
+      message: 'Configuration saved successfully'
     });
   } catch (error) {
     console.error('Error saving configuration:', error);
@@ -42,29 +107,44 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   try {
-    // Try to read user configuration from file first
-    try {
-      const userConfigData = await fs.readFile(USER_CONFIG_PATH, 'utf8');
-      const userConfig = JSON.parse(userConfigData);
-      return NextResponse.json(userConfig);
-    } catch (fileError) {
-      // File doesn't exist, return default configuration
-      const defaultConfig = {
-        serpApiKey: '',
-        openAiKey: '',
-        wechatAppId: '',
-        wechatAppSecret: '',
-        xhsCookie: '',
-        googleDocsCredentials: '',
-        googleDocsFolderId: '',
-        rssFeeds: [
-          { url: 'https://techcrunch.com/feed/', name: 'TechCrunch' },
-          { url: 'https://www.theverge.com/rss/index.xml', name: 'The Verge' }
-        ]
-      };
-      
-      return NextResponse.json(defaultConfig);
+    const userConfig = await loadUserConfig();
+
+    if (userConfig) {
+      // Never send secrets back in clear; the UI shows the masked form
+      const maskedConfig: Record<string, any> = { ...userConfig };
+      for (const key of SECRET_KEYS) {
+        maskedConfig[key] = maskSecret(userConfig[key]);
+      }
+      return NextResponse.json(maskedConfig);
     }
+
+    // No configuration saved yet, return default configuration
+    const defaultConfig = {
+      serpApiKey: '',
+      aiProvider: 'openai',
+      openAiKey: '',
+      geminiApiKey: '',
+      anthropicApiKey: '',
+      openAiCompatibleApiKey: '',
+      llmProviders: {},
+      wechatAppId: '',
+      wechatAppSecret: '',
+      wechatApiBaseUrl: '',
+      wechatDefaultThumbMediaId: '',
+      xhsCookie: '',
+      googleDocsCredentials: '',
+      googleDocsFolderId: '',
+      brandInterests: [],
+      topicMaxAgeDays: 7,
+      publishMinGapMinutes: 240,
+      forbiddenWords: [],
+      blockApprovalOnHardViolations: false,
+      platformLocales: {},
+      translationLocales: [],
+      generateImages: DEFAULT_GENERATE_IMAGES
+    };
+
+    return NextResponse.json(defaultConfig);
   } catch (error) {
     console.error('Error loading configuration:', error);
     return NextResponse.json(
@@ -72,4 +152,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
+import { getRequestUser } from '@/lib/auth/session';
+import { ContentRulesService } from '@/services/contentRules.service';
+
+// Rejected posts can still be approved if the reviewer changes their mind
+const APPROVABLE_STATUSES = ['pending_approval', 'rejected'];
 
 export async function POST(request: Request, { params }: { params: { id: string } }) {
   try {
@@ -13,14 +18,44 @@ export async function POST(request: Request, { params }: { params: { id: string
     }
 
     const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      return NextResponse.json(
+        { error: { message: 'Content not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!APPROVABLE_STATUSES.includes(content.status)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: content.status === 'approved' ? 'Content is already approved' : `Content is ${content.status} and can't be approved`
+          }
+        },
+        { status: 409 }
+      );
+    }
+
+    await new ContentRulesService().assertApprovable(content);
     
-    // Update content status to approved
-    await (db as any).runAsync(
+    // Update content status to approved, recording who signed it off. The status check
+    // is repeated so a post that was edited or published in the meantime isn't approved.
+    const changes = await (db as any).updateAsync(
       `UPDATE content 
-       SET status = 'approved', approved_at = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      contentId
+       SET status = 'approved', approved_at = CURRENT_TIMESTAMP, approved_by = ? 
+       WHERE id = ? AND status IN (${APPROVABLE_STATUSES.map(() => '?').join(', ')})`,
+      getRequestUser(request)?.id || null,
+      contentId,
+      ...APPROVABLE_STATUSES
     );
+    if (changes !== 1) {
+      return NextResponse.json(
+        { error: { message: 'Content changed while it was being approved; reload and try again' } },
+        { status: 409 }
+      );
+    }
 
     // Get the updated content
     const updatedContent = await (db as any).getAsync(
@@ -39,11 +74,11 @@ export async function POST(request: Request, { params }: { params: { id: string
     return NextResponse.json(
       { 
         error: { 
-          message: 'Failed to approve content',
+          message: error.statusCode ? error.message : 'Failed to approve content',
           details: error.message
         }
       },
-      { status: 500 }
+      { status: error.statusCode || 500 }
     );
   }
 }
\ No newline at end of file
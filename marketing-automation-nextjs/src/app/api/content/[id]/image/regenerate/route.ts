@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { AssetService } from '@/services/assets.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+// Generate a new image for the post from its stored prompt or an edited `prompt`
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { prompt } = await request.json().catch(() => ({}));
+
+    const assetService = new AssetService();
+    const { content, asset } = await assetService.regenerateContentImage(contentId, prompt, getRequestUser(request)?.id);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      asset,
+      message: 'Image regenerated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error regenerating content image:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to regenerate image',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { AssetService } from '@/services/assets.service';
+
+// Use an image from the asset library for the post
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { assetId } = await request.json();
+    if (!Number.isInteger(assetId)) {
+      return NextResponse.json(
+        { error: { message: 'assetId is required' } },
+        { status: 400 }
+      );
+    }
+
+    const assetService = new AssetService();
+    const content = await assetService.setContentImage(contentId, assetId);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      message: 'Image updated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error updating content image:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update image',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// Remove the post's image (the asset stays in the library)
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const assetService = new AssetService();
+    const content = await assetService.setContentImage(contentId, null);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      message: 'Image removed successfully'
+    });
+  } catch (error: any) {
+    console.error('Error removing content image:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to remove image',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
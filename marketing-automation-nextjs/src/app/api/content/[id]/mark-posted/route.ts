@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { PublishingService } from '@/services/publishing.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+// Record a post published by hand, e.g. an XHS note, from its live URL
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { url } = await request.json();
+
+    const publishingService = new PublishingService();
+    const content = await publishingService.markPosted(contentId, url, getRequestUser(request)?.id);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      publishedUrl: content.published_url,
+      message: 'Content marked as posted'
+    });
+  } catch (error: any) {
+    console.error('Error marking content as posted:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to mark content as posted',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { ContentGenerationService } from '@/services/aiContent.service';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { feedback } = await request.json();
+
+    const contentService = new ContentGenerationService();
+    const content = await contentService.regenerateContent(contentId, feedback);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      message: 'Content regenerated and waiting for approval'
+    });
+  } catch (error: any) {
+    console.error('Error regenerating content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to regenerate content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
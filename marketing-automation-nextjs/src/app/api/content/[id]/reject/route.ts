@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
 
+// Approved posts can still be sent back before they go out; scheduled and published ones can't
+const REJECTABLE_STATUSES = ['pending_approval', 'approved'];
+
 export async function POST(request: Request, { params }: { params: { id: string } }) {
   try {
     const contentId = parseInt(params.id);
@@ -12,15 +15,52 @@ export async function POST(request: Request, { params }: { params: { id: string
       );
     }
 
+    // The reason is optional; it's fed into future prompts for this platform
+    const { reason } = await request.json().catch(() => ({}));
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return NextResponse.json(
+        { error: { message: 'Rejection reason must be a string' } },
+        { status: 400 }
+      );
+    }
+
     const db = await getDb();
+    const content = await (db as any).getAsync('SELECT status FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      return NextResponse.json(
+        { error: { message: 'Content not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!REJECTABLE_STATUSES.includes(content.status)) {
+      return NextResponse.json(
+        {
+          error: {
+            message: content.status === 'rejected' ? 'Content is already rejected' : `Content is ${content.status} and can't be rejected`
+          }
+        },
+        { status: 409 }
+      );
+    }
     
-    // Update content status to rejected
-    await (db as any).runAsync(
+    // Update content status to rejected. The status check is repeated so a post that was
+    // scheduled or published in the meantime isn't rejected.
+    const changes = await (db as any).updateAsync(
       `UPDATE content 
-       SET status = 'rejected' 
-       WHERE id = ?`,
-      contentId
+       SET status = 'rejected', rejection_reason = ? 
+       WHERE id = ? AND status IN (${REJECTABLE_STATUSES.map(() => '?').join(', ')})`,
+      reason?.trim() || null,
+      contentId,
+      ...REJECTABLE_STATUSES
     );
+    if (changes !== 1) {
+      return NextResponse.json(
+        { error: { message: 'Content changed while it was being rejected; reload and try again' } },
+        { status: 409 }
+      );
+    }
 
     // Get the updated content
     const updatedContent = await (db as any).getAsync(
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { ContentRevisionService } from '@/services/contentRevisions.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function POST(request: Request, { params }: { params: { id: string; revisionId: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    const revisionId = parseInt(params.revisionId);
+    
+    if (isNaN(contentId) || isNaN(revisionId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content or revision ID' } },
+        { status: 400 }
+      );
+    }
+
+    const revisionService = new ContentRevisionService();
+    const { content, revision } = await revisionService.revertToRevision(contentId, revisionId, getRequestUser(request)?.id);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      revision,
+      message: 'Content reverted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error reverting content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to revert content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
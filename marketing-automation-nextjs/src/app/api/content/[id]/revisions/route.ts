@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { ContentRevisionService } from '@/services/contentRevisions.service';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const revisionService = new ContentRevisionService();
+    const revisions = await revisionService.listRevisions(contentId);
+
+    return NextResponse.json({
+      success: true,
+      revisions
+    });
+  } catch (error: any) {
+    console.error('Error fetching content revisions:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch content revisions',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { ContentRevisionService } from '@/services/contentRevisions.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { title, body, hashtags } = await request.json();
+
+    const revisionService = new ContentRevisionService();
+    const { content, revision } = await revisionService.updateContent(contentId, { title, body, hashtags }, {
+      userId: getRequestUser(request)?.id
+    });
+
+    return NextResponse.json({
+      success: true,
+      content,
+      revision,
+      message: 'Content updated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error updating content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { PublishingService } from '@/services/publishing.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { scheduledFor } = await request.json();
+    if (!scheduledFor) {
+      return NextResponse.json(
+        { error: { message: 'scheduledFor is required' } },
+        { status: 400 }
+      );
+    }
+
+    const publishingService = new PublishingService();
+    const { content, conflicts } = await publishingService.scheduleContent(contentId, new Date(scheduledFor), getRequestUser(request)?.id);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      conflicts,
+      message: conflicts.length > 0
+        ? 'Content scheduled, but it is close to other posts on the same platform'
+        : 'Content scheduled successfully'
+    });
+  } catch (error: any) {
+    console.error('Error scheduling content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to schedule content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const publishingService = new PublishingService();
+    const content = await publishingService.unscheduleContent(contentId);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      message: 'Schedule cancelled'
+    });
+  } catch (error: any) {
+    console.error('Error cancelling schedule:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to cancel schedule',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { ContentTranslationService } from '@/services/contentTranslation.service';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { locale } = await request.json();
+
+    const translationService = new ContentTranslationService();
+    const content = await translationService.translateContent(contentId, locale);
+
+    return NextResponse.json({
+      success: true,
+      content,
+      message: 'Translation created and waiting for approval'
+    });
+  } catch (error: any) {
+    console.error('Error translating content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to translate content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { PublishingService } from '@/services/publishing.service';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    // keep: withdraw the post but leave it on the platform to be updated in place later
+    const { keep } = await request.json().catch(() => ({}));
+
+    const publishingService = new PublishingService();
+    const updatedContent = await publishingService.unpublishContent(contentId, { keep: keep === true });
+
+    return NextResponse.json({
+      success: true,
+      content: updatedContent,
+      message: 'Content unpublished successfully'
+    });
+  } catch (error: any) {
+    console.error('Error unpublishing content:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to unpublish content',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
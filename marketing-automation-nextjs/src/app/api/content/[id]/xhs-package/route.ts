@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { XhsPackageService } from '@/services/xhsPackage.service';
+
+// Download the zip an operator posts an XHS note from
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const contentId = parseInt(params.id);
+    
+    if (isNaN(contentId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid content ID' } },
+        { status: 400 }
+      );
+    }
+
+    // The QR code must point somewhere a phone can reach, which localhost isn't
+    const baseUrl = process.env.PUBLIC_BASE_URL || new URL(request.url).origin;
+
+    const packageService = new XhsPackageService();
+    const archive = await packageService.buildArchive(contentId, baseUrl);
+
+    return new NextResponse(new Uint8Array(archive.data), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(archive.data.length),
+        'Content-Disposition': `attachment; filename="${archive.filename}"`
+      }
+    });
+  } catch (error: any) {
+    console.error('Error building XHS publish package:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to build publish package',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { PublishingService } from '@/services/publishing.service';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date();
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to')!)
+      : new Date(from.getTime() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return NextResponse.json(
+        { error: { message: 'Invalid date range' } },
+        { status: 400 }
+      );
+    }
+
+    const publishingService = new PublishingService();
+    const calendar = await publishingService.getCalendar(from, to);
+
+    return NextResponse.json({
+      success: true,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...calendar
+    });
+  } catch (error: any) {
+    console.error('Error fetching posting calendar:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch posting calendar',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
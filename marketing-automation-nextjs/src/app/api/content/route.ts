@@ -1,5 +1,43 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
+import { ResearchService, TopicResearch } from '@/services/research.service';
+import { UserService } from '@/services/users.service';
+import { parseRuleViolations } from '@/services/contentRules.service';
+
+// Attach the research each post was written from (so reviewers can check its sources)
+// the platform rules it breaks, and the names of who approved, scheduled and published it
+async function withDetails(rows: any[]): Promise<any[]> {
+  const researchService = new ResearchService();
+  const userService = new UserService();
+  const researchById = new Map<number, TopicResearch | null>();
+  const usernames = new Map<number, string | null>();
+
+  const username = async (userId: number | null) => {
+    if (!userId) return null;
+    if (!usernames.has(userId)) {
+      usernames.set(userId, (await userService.getUser(userId))?.username || null);
+    }
+    return usernames.get(userId)!;
+  };
+
+  const detailed = [];
+  for (const row of rows) {
+    if (row.research_id && !researchById.has(row.research_id)) {
+      researchById.set(row.research_id, await researchService.getResearch(row.research_id));
+    }
+
+    detailed.push({
+      ...row,
+      research: researchById.get(row.research_id) || null,
+      rule_violations: parseRuleViolations(row.rule_violations),
+      approved_by_name: await username(row.approved_by),
+      scheduled_by_name: await username(row.scheduled_by),
+      published_by_name: await username(row.published_by)
+    });
+  }
+
+  return detailed;
+}
 
 export async function GET() {
   try {
@@ -19,6 +57,13 @@ export async function GET() {
        ORDER BY approved_at DESC, created_at DESC`
     );
 
+    // Get scheduled content and publishes the platform hasn't finished (both waiting for the publish dispatcher)
+    const scheduledContent = await (db as any).allAsync(
+      `SELECT * FROM content 
+       WHERE status IN ('scheduled', 'publishing') 
+       ORDER BY status = 'scheduled', scheduled_for ASC`
+    );
+
     // Get published content (actually published to platforms)
     const publishedContent = await (db as any).allAsync(
       `SELECT * FROM content 
@@ -28,9 +73,10 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
-      pending: pendingContent,
-      approved: approvedContent,
-      published: publishedContent
+      pending: await withDetails(pendingContent),
+      approved: await withDetails(approvedContent),
+      scheduled: await withDetails(scheduledContent),
+      published: await withDetails(publishedContent)
     });
   } catch (error: any) {
     console.error('Error fetching content:', error);
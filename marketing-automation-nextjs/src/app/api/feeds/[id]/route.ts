@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { FeedService } from '@/services/feeds.service';
+
+// Rename a feed, change its URL, or enable/disable it (`enabled`)
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const feedId = parseInt(params.id);
+    
+    if (isNaN(feedId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid feed ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { name, url, enabled } = await request.json();
+
+    const feedService = new FeedService();
+    const feed = await feedService.updateFeed(feedId, {
+      name,
+      url,
+      enabled: typeof enabled === 'boolean' ? enabled : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      feed,
+      message: 'Feed updated successfully'
+    });
+  } catch (error: any) {
+    console.error('Error updating feed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update feed',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const feedId = parseInt(params.id);
+    
+    if (isNaN(feedId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid feed ID' } },
+        { status: 400 }
+      );
+    }
+
+    const feedService = new FeedService();
+    await feedService.deleteFeed(feedId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Feed deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error deleting feed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to delete feed',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { FeedService } from '@/services/feeds.service';
+
+export async function GET() {
+  try {
+    const feedService = new FeedService();
+    const feeds = await feedService.listFeeds();
+
+    return NextResponse.json({
+      success: true,
+      feeds
+    });
+  } catch (error: any) {
+    console.error('Error fetching feeds:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch feeds',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { name, url, enabled } = await request.json();
+
+    const feedService = new FeedService();
+    const feed = await feedService.createFeed({ name, url, enabled });
+
+    return NextResponse.json({
+      success: true,
+      feed,
+      message: 'Feed added successfully'
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error adding feed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to add feed',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { FeedService } from '@/services/feeds.service';
+
+// Fetch and parse a feed URL and return its first items, without saving anything
+export async function POST(request: Request) {
+  try {
+    const { url } = await request.json();
+
+    const feedService = new FeedService();
+    const preview = await feedService.previewFeed(url);
+
+    return NextResponse.json({
+      success: true,
+      preview
+    });
+  } catch (error: any) {
+    console.error('Error testing feed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to test feed',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
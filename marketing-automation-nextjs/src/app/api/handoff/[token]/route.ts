@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { XhsPackageService } from '@/services/xhsPackage.service';
+
+// The page the publish package's QR code opens on the operator's phone. The signed
+// token stands in for a session, so this route is public.
+export async function GET(request: Request, { params }: { params: { token: string } }) {
+  try {
+    const packageService = new XhsPackageService();
+    const contentId = await packageService.verifyHandoffToken(params.token);
+
+    if (contentId === null) {
+      return new NextResponse('This handoff link is invalid or has expired. Download the publish package again.', {
+        status: 404,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    const html = await packageService.renderOnlineHandoffPage(contentId);
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error rendering handoff page:', error);
+    
+    return new NextResponse(error.message || 'Failed to render handoff page', {
+      status: error.statusCode || 500,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+    });
+  }
+}
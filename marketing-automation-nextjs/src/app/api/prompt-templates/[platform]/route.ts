@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { PromptTemplateService } from '@/services/promptTemplates.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function GET(request: Request, { params }: { params: { platform: string } }) {
+  try {
+    const templateService = new PromptTemplateService();
+    const template = await templateService.getTemplate(params.platform);
+    const versions = await templateService.listVersions(params.platform);
+
+    return NextResponse.json({
+      success: true,
+      template,
+      versions
+    });
+  } catch (error: any) {
+    console.error('Error fetching prompt template:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to fetch prompt template',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// Save a new version of the platform's template
+export async function PUT(request: Request, { params }: { params: { platform: string } }) {
+  try {
+    const { template } = await request.json();
+
+    const templateService = new PromptTemplateService();
+    const version = await templateService.saveTemplate(params.platform, template, { userId: getRequestUser(request)?.id });
+
+    return NextResponse.json({
+      success: true,
+      version,
+      message: 'Prompt template saved successfully'
+    });
+  } catch (error: any) {
+    console.error('Error saving prompt template:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to save prompt template',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { PromptTemplateService } from '@/services/promptTemplates.service';
+import { getRequestUser } from '@/lib/auth/session';
+
+export async function POST(request: Request, { params }: { params: { platform: string; version: string } }) {
+  try {
+    const versionNumber = parseInt(params.version);
+    
+    if (isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid template version' } },
+        { status: 400 }
+      );
+    }
+
+    const templateService = new PromptTemplateService();
+    const version = await templateService.revertToVersion(params.platform, versionNumber, getRequestUser(request)?.id);
+
+    return NextResponse.json({
+      success: true,
+      version,
+      message: 'Prompt template reverted successfully'
+    });
+  } catch (error: any) {
+    console.error('Error reverting prompt template:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to revert prompt template',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { PromptTemplateService, TEMPLATE_VARIABLES } from '@/services/promptTemplates.service';
+
+export async function GET() {
+  try {
+    const templateService = new PromptTemplateService();
+    const templates = await templateService.listTemplates();
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      variables: TEMPLATE_VARIABLES
+    });
+  } catch (error: any) {
+    console.error('Error fetching prompt templates:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch prompt templates',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { PublishingService } from '@/services/publishing.service';
+
+// List documents in the Google Docs folder that no content links to
+export async function GET() {
+  try {
+    const publishingService = new PublishingService();
+    const { orphaned, total } = await publishingService.reconcileGoogleDocs();
+
+    return NextResponse.json({
+      orphaned,
+      total,
+      message: orphaned.length > 0
+        ? `${orphaned.length} of ${total} documents are not linked to any content`
+        : `All ${total} documents are linked to content`
+    });
+  } catch (error: any) {
+    console.error('Error reconciling Google Docs:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to reconcile Google Docs',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { TopicService } from '@/services/topics.service';
+import { CampaignJobQueue } from '@/services/campaignJobs.service';
+import { PublishingValidatorService } from '@/services/publishingValidator.service';
+import { BrandProfileService } from '@/services/brandProfiles.service';
+
+// Queue a campaign for this topic now, optionally for a subset of platforms. A topic
+// that already has live content is only generated for again with force: true
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const topicId = parseInt(params.id);
+    
+    if (isNaN(topicId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid topic ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { platforms, brandProfileId, force } = await request.json().catch(() => ({}));
+
+    const topicService = new TopicService();
+    const topic = await topicService.getTopic(topicId);
+    if (!topic) {
+      return NextResponse.json(
+        { error: { message: 'Topic not found' } },
+        { status: 404 }
+      );
+    }
+
+    // The campaign runner checks this too; checking here reports it before queueing
+    const liveContentIds = await topicService.getLiveContentIds(topicId);
+    if (liveContentIds.length > 0 && force !== true) {
+      return NextResponse.json(
+        { error: { message: `This topic already has live content (${liveContentIds.join(', ')}); send force: true to generate again`, details: { liveContentIds } } },
+        { status: 409 }
+      );
+    }
+
+    if (brandProfileId && !(await new BrandProfileService().getProfile(Number(brandProfileId)))) {
+      return NextResponse.json(
+        { error: { message: 'Brand profile not found' } },
+        { status: 400 }
+      );
+    }
+
+    // Fail fast on configuration problems instead of queueing a job that can't run
+    const validator = new PublishingValidatorService();
+    await validator.validateBeforeCampaign();
+
+    const jobQueue = new CampaignJobQueue();
+    const job = await jobQueue.enqueue('auto', undefined, {
+      topicId,
+      topicTitle: topic.title,
+      force: force === true,
+      platforms: Array.isArray(platforms) && platforms.length > 0 ? platforms : undefined,
+      brandProfileId: brandProfileId ? Number(brandProfileId) : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job,
+      message: 'Campaign queued'
+    }, { status: 202 });
+  } catch (error: any) {
+    console.error('Error generating content for topic:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to queue campaign for topic',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { TopicService } from '@/services/topics.service';
+
+// Pin a topic so the next automatic campaign picks it; send { pinned: false } to unpin
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const topicId = parseInt(params.id);
+    
+    if (isNaN(topicId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid topic ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { pinned = true } = await request.json().catch(() => ({}));
+
+    const topicService = new TopicService();
+    const topic = await topicService.setPinned(topicId, pinned !== false);
+
+    return NextResponse.json({
+      success: true,
+      topic,
+      message: topic.pinned ? 'Topic pinned' : 'Topic unpinned'
+    });
+  } catch (error: any) {
+    console.error('Error pinning topic:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to pin topic',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { TopicService } from '@/services/topics.service';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const topicId = parseInt(params.id);
+    
+    if (isNaN(topicId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid topic ID' } },
+        { status: 400 }
+      );
+    }
+
+    const topicService = new TopicService();
+    const topic = await topicService.skipTopic(topicId);
+
+    return NextResponse.json({
+      success: true,
+      topic,
+      message: 'Topic skipped'
+    });
+  } catch (error: any) {
+    console.error('Error skipping topic:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to skip topic',
+          details: error.details || null
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { TopicService } from '@/services/topics.service';
+
+// Discovered topics, in the order automatic campaigns pick them. Filters: status,
+// source, q (title or description), pinned; paged with page and pageSize.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const pinned = searchParams.get('pinned');
+
+    const topicService = new TopicService();
+    const result = await topicService.listTopics({
+      status: searchParams.get('status') || undefined,
+      source: searchParams.get('source') || undefined,
+      search: searchParams.get('q')?.trim() || undefined,
+      pinned: pinned === null || pinned === '' ? undefined : pinned === 'true',
+      page: parseInt(searchParams.get('page') || '1') || 1,
+      pageSize: parseInt(searchParams.get('pageSize') || '20') || 20
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('Error fetching topics:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch topics',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
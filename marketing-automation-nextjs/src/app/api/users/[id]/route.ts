@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { UserService } from '@/services/users.service';
+import { SESSION_COOKIE, createSessionToken, getRequestUser, sessionCookieOptions } from '@/lib/auth/session';
+
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const userId = parseInt(params.id);
+    
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: { message: 'Invalid user ID' } },
+        { status: 400 }
+      );
+    }
+
+    const { role, password } = await request.json();
+
+    const userService = new UserService();
+    const user = await userService.updateUser(userId, { role, password });
+
+    const response = NextResponse.json({
+      success: true,
+      user,
+      message: 'User updated successfully'
+    });
+    // The change signs the user out everywhere; admins changing their own account stay signed in here
+    if (getRequestUser(request)?.id === user.id) {
+      response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    }
+    return response;
+  } catch (error: any) {
+    console.error('Error updating user:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to update user',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { UserService } from '@/services/users.service';
+
+export async function GET() {
+  try {
+    const userService = new UserService();
+    const users = await userService.listUsers();
+
+    return NextResponse.json({
+      success: true,
+      users
+    });
+  } catch (error: any) {
+    console.error('Error fetching users:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: 'Failed to fetch users',
+          details: error.message
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { username, password, role } = await request.json();
+
+    const userService = new UserService();
+    const user = await userService.createUser(username, password, role);
+
+    return NextResponse.json({
+      success: true,
+      user,
+      message: 'User created successfully'
+    }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating user:', error);
+    
+    return NextResponse.json(
+      { 
+        error: { 
+          message: error.message || 'Failed to create user',
+          details: error.message
+        }
+      },
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+export default function LoginPage() {
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // With no accounts yet, the form creates the first admin instead
+  useEffect(() => {
+    fetch('/api/auth/setup')
+      .then(response => response.json())
+      .then(data => setNeedsSetup(!!data.needsSetup))
+      .catch(error => console.error('Error checking setup status:', error));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(needsSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+
+      if (response.ok) {
+        const next = new URLSearchParams(window.location.search).get('next');
+        // Only follow same-site paths
+        window.location.href = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+      } else {
+        const data = await response.json();
+        setError(data.error?.message || 'Login failed');
+      }
+    } catch (error) {
+      setError('Unable to reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-4 sm:p-6 lg:p-8 mt-16">
+      <header className="text-center mb-8">
+        <h1 className="text-3xl font-extrabold text-gray-900">Automated Marketing Engine</h1>
+        <p className="mt-2 text-gray-500">
+          {needsSetup ? 'Create the first admin account' : 'Sign in to continue'}
+        </p>
+      </header>
+
+      <form onSubmit={handleSubmit} className="bg-white p-8 rounded-xl shadow-lg border border-gray-200 space-y-4">
+        <div>
+          <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+            Username
+          </label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+            Password
+          </label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={needsSetup ? 'new-password' : 'current-password'}
+            className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          {needsSetup && (
+            <p className="mt-1 text-xs text-gray-500">At least 8 characters.</p>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">
+            <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting || !username.trim() || !password}
+          className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {submitting ? 'Please wait...' : needsSetup ? 'Create Admin Account' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+}
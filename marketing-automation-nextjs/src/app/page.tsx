@@ -1,14 +1,65 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import ConfigSection from '@/components/ConfigSection';
 import MainApp from '@/components/MainApp';
+import UsersSection from '@/components/UsersSection';
+import BrandProfilesSection from '@/components/BrandProfilesSection';
+import PromptTemplatesSection from '@/components/PromptTemplatesSection';
+
+interface CurrentUser {
+  id: number;
+  username: string;
+  role: string;
+}
 
 export default function Home() {
   const [isConfigured, setIsConfigured] = useState(false);
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) {
+          window.location.href = '/login';
+          return;
+        }
+        setUser(data.user);
+        setPermissions(data.permissions || []);
+      })
+      .catch(error => console.error('Error loading current user:', error));
+  }, []);
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
+
+  // Only admins manage configuration; everyone else goes straight to the dashboard
+  const canManageConfig = permissions.includes('config:manage');
 
   return (
     <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+      {user && (
+        <div className="flex justify-end items-center text-sm text-gray-600 mb-4">
+          <i className="fa-solid fa-user mr-2"></i>
+          {user.username}
+          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+            {user.role}
+          </span>
+          {canManageConfig && isConfigured && (
+            <button onClick={() => setIsConfigured(false)} className="ml-4 text-blue-600 hover:text-blue-800">
+              Settings
+            </button>
+          )}
+          <button onClick={handleLogout} className="ml-4 text-blue-600 hover:text-blue-800">
+            Log out
+          </button>
+        </div>
+      )}
+
       <header className="text-center mb-10">
         <h1 className="text-4xl sm:text-5xl font-extrabold text-gray-900 leading-tight">
           Automated Marketing Engine
@@ -18,11 +69,16 @@ export default function Home() {
         </p>
       </header>
 
-      {!isConfigured ? (
-        <ConfigSection onConfigSaved={() => setIsConfigured(true)} />
+      {!user ? null : canManageConfig && !isConfigured ? (
+        <div className="space-y-8">
+          <ConfigSection onConfigSaved={() => setIsConfigured(true)} />
+          <BrandProfilesSection />
+          <PromptTemplatesSection />
+          <UsersSection />
+        </div>
       ) : (
-        <MainApp />
+        <MainApp permissions={permissions} />
       )}
     </div>
   );
-}
\ No newline at end of file
+}
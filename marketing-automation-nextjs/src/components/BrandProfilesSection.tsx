@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LOCALES, LOCALE_INFO } from '@/lib/utils/locales';
+
+interface BrandProfile {
+  id: number;
+  name: string;
+  tone: string | null;
+  language: string | null;
+  bannedPhrases: string[];
+  disclaimer: string | null;
+  cta: string | null;
+}
+
+const emptyForm = { name: '', tone: '', language: '', bannedPhrases: '', disclaimer: '', cta: '' };
+
+const inputClass = 'form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const BrandProfilesSection: React.FC = () => {
+  const [profiles, setProfiles] = useState<BrandProfile[]>([]);
+  // null while creating a new profile
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/brand-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setProfiles(data.profiles || []);
+      }
+    } catch (error) {
+      console.error('Error fetching brand profiles:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const startEdit = (profile: BrandProfile) => {
+    setEditingId(profile.id);
+    setForm({
+      name: profile.name,
+      tone: profile.tone || '',
+      language: profile.language || '',
+      bannedPhrases: profile.bannedPhrases.join('\n'),
+      disclaimer: profile.disclaimer || '',
+      cta: profile.cta || ''
+    });
+    setMessage(null);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    try {
+      const response = await fetch(editingId ? `/api/brand-profiles/${editingId}` : '/api/brand-profiles', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Brand profile ${data.profile.name} saved`, type: 'success' });
+        resetForm();
+        fetchProfiles();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to save brand profile', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error saving brand profile', type: 'error' });
+    }
+  };
+
+  const handleDelete = async (profile: BrandProfile) => {
+    if (!confirm(`Delete the brand profile "${profile.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/brand-profiles/${profile.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Brand profile ${profile.name} deleted`, type: 'success' });
+        if (editingId === profile.id) resetForm();
+        fetchProfiles();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to delete brand profile', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error deleting brand profile', type: 'error' });
+    }
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold flex items-center mb-6">
+        <i className="fa-solid fa-bullhorn h-6 w-6 mr-3 text-blue-500"></i>
+        Brand Profiles
+      </h2>
+
+      {profiles.length > 0 && (
+        <ul className="mb-6 divide-y divide-gray-100 text-sm">
+          {profiles.map(profile => (
+            <li key={profile.id} className="py-2 flex justify-between items-center">
+              <div>
+                <span className="font-medium text-gray-900">{profile.name}</span>
+                <span className="ml-2 text-gray-500">
+                  {[profile.tone, profile.language].filter(Boolean).join(' · ')}
+                </span>
+              </div>
+              <div className="space-x-3">
+                <button onClick={() => startEdit(profile)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                <button onClick={() => handleDelete(profile)} className="text-red-600 hover:text-red-800">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="brand-name" className="block text-sm font-medium text-gray-700">Name</label>
+          <input
+            type="text"
+            id="brand-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g. Skincare line"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="brand-language" className="block text-sm font-medium text-gray-700">Output language</label>
+          <select
+            id="brand-language"
+            value={form.language}
+            onChange={(e) => setForm({ ...form, language: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Platform default</option>
+            {LOCALES.map(locale => (
+              <option key={locale} value={locale}>{LOCALE_INFO[locale].name} ({locale})</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="brand-tone" className="block text-sm font-medium text-gray-700">Tone</label>
+          <input
+            type="text"
+            id="brand-tone"
+            value={form.tone}
+            onChange={(e) => setForm({ ...form, tone: e.target.value })}
+            placeholder="e.g. warm, expert, no hype"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="brand-banned" className="block text-sm font-medium text-gray-700">Banned phrases (one per line)</label>
+          <textarea
+            id="brand-banned"
+            rows={3}
+            value={form.bannedPhrases}
+            onChange={(e) => setForm({ ...form, bannedPhrases: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="brand-disclaimer" className="block text-sm font-medium text-gray-700">Mandatory disclaimer</label>
+          <textarea
+            id="brand-disclaimer"
+            rows={3}
+            value={form.disclaimer}
+            onChange={(e) => setForm({ ...form, disclaimer: e.target.value })}
+            placeholder="Added to the end of every post if the AI leaves it out"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="brand-cta" className="block text-sm font-medium text-gray-700">Call to action</label>
+          <input
+            type="text"
+            id="brand-cta"
+            value={form.cta}
+            onChange={(e) => setForm({ ...form, cta: e.target.value })}
+            placeholder="e.g. Follow us for weekly tips"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!form.name.trim()}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <i className="fa-solid fa-save mr-2"></i>
+          {editingId ? 'Save Profile' : 'Add Profile'}
+        </button>
+        {editingId && (
+          <button
+            onClick={resetForm}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default BrandProfilesSection;
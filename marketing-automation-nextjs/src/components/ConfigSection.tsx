@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { LOCALES, LOCALE_INFO, Locale } from '@/lib/utils/locales';
+import FeedManager from './FeedManager';
 
 interface ConfigSectionProps {
   onConfigSaved: () => void;
@@ -8,50 +10,110 @@ interface ConfigSectionProps {
 
 const CONFIG_STORAGE_KEY = 'marketing-automation-config';
 
+// Never kept in localStorage; the server only returns them masked
+const SECRET_FIELDS = [
+  'serpApiKey', 'openAiKey', 'geminiApiKey', 'anthropicApiKey', 'openAiCompatibleApiKey',
+  'wechatAppSecret', 'xhsCookie', 'googleDocsCredentials'
+];
+
+const AI_PROVIDERS = [
+  { id: 'openai', name: 'OpenAI (GPT-4/GPT-3.5)' },
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'anthropic', name: 'Anthropic (or compatible API)' },
+  { id: 'lmstudio', name: 'LM Studio (Local)' },
+  { id: 'ollama', name: 'Ollama (Local)' },
+  { id: 'openai-compatible', name: 'Other OpenAI-compatible API' }
+];
+
+// Shown as placeholders; the server uses these when a field is left blank
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4.1-mini',
+  gemini: 'gemini-2.0-flash',
+  lmstudio: 'local-model',
+  ollama: 'llama2',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': 'Model name'
+};
+
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  lmstudio: 'http://localhost:1234',
+  ollama: 'http://localhost:11434',
+  anthropic: 'https://api.anthropic.com',
+  'openai-compatible': 'https://your-server.example.com/v1'
+};
+
+// Platforms whose output language can be set; blank uses the platform's own default
+const LOCALE_PLATFORMS = [
+  { id: 'wechat', name: 'WeChat' },
+  { id: 'xhs', name: 'Xiaohongshu' },
+  { id: 'googledocs', name: 'Google Docs' }
+];
+
+type ProviderSettings = { model?: string; temperature?: string | number; maxTokens?: string | number; baseUrl?: string };
+
+const withoutSecrets = (config: Record<string, any>) =>
+  Object.fromEntries(Object.entries(config).filter(([key]) => !SECRET_FIELDS.includes(key)));
+
 const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
   const [config, setConfig] = useState({
     serpApiKey: '',
     aiProvider: 'openai',
     openAiKey: '',
     geminiApiKey: '',
-    lmStudioUrl: 'http://localhost:1234',
-    lmStudioModel: 'llama-3.2-3b-instruct',
+    anthropicApiKey: '',
+    openAiCompatibleApiKey: '',
+    llmProviders: {} as Record<string, ProviderSettings>,
+    aiFallbackProviders: [] as string[],
     wechatAppId: '',
     wechatAppSecret: '',
+    wechatApiBaseUrl: '',
+    wechatDefaultThumbMediaId: '',
     xhsCookie: '',
     googleDocsCredentials: '',
     googleDocsFolderId: '',
-    rssFeeds: [
-      { url: 'https://techcrunch.com/feed/', name: 'TechCrunch' },
-      { url: 'https://www.theverge.com/rss/index.xml', name: 'The Verge' }
-    ]
+    publishMinGapMinutes: 240,
+    forbiddenWords: [] as string[],
+    brandInterests: [] as string[],
+    topicMaxAgeDays: 7,
+    blockApprovalOnHardViolations: false,
+    platformLocales: {} as Record<string, string>,
+    translationLocales: [] as string[],
+    generateImages: true
   });
 
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [autoSaved, setAutoSaved] = useState(false);
+  // Masked values of secrets already stored on the server, e.g. "sk-...a1b2"
+  const [savedSecrets, setSavedSecrets] = useState<Record<string, string>>({});
+  const [clearedSecrets, setClearedSecrets] = useState<string[]>([]);
+
+  const saveDraft = (newConfig: typeof config) => {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(withoutSecrets(newConfig)));
+  };
 
-  // Load configuration from localStorage on component mount
+  // Load configuration from the server, then apply any unsaved local draft
   useEffect(() => {
     const loadConfig = async () => {
       try {
-        // First try to load from localStorage
+        let loaded: Record<string, any> = {};
+
+        const response = await fetch('/api/config');
+        if (response.ok) {
+          const serverConfig = await response.json();
+          setSavedSecrets(Object.fromEntries(SECRET_FIELDS.map(field => [field, serverConfig[field] || ''])));
+          loaded = { ...loaded, ...withoutSecrets(serverConfig) };
+        }
+
         const savedConfig = localStorage.getItem(CONFIG_STORAGE_KEY);
         if (savedConfig) {
-          const parsed = JSON.parse(savedConfig);
-          setConfig(parsed);
-        } else {
-          // If not in localStorage, try to load from server
-          const response = await fetch('/api/config');
-          if (response.ok) {
-            const serverConfig = await response.json();
-            if (serverConfig.serpApiKey || serverConfig.openAiKey) {
-              setConfig(serverConfig);
-              // Save to localStorage for next time
-              localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(serverConfig));
-            }
-          }
+          const draft = withoutSecrets(JSON.parse(savedConfig));
+          loaded = { ...loaded, ...draft };
+          // Drafts from older versions may still hold plaintext secrets
+          localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(draft));
         }
+
+        setConfig(prev => ({ ...prev, ...loaded }));
       } catch (error) {
         console.error('Error loading configuration:', error);
       } finally {
@@ -62,41 +124,60 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
     loadConfig();
   }, []);
 
-  const handleInputChange = (field: string, value: string) => {
+  const handleInputChange = (field: string, value: string | string[] | boolean | Record<string, string>) => {
     const newConfig = { ...config, [field]: value };
     setConfig(newConfig);
+    if (SECRET_FIELDS.includes(field)) return;
+
     // Save to localStorage as user types
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+    saveDraft(newConfig);
     
     // Show auto-saved indicator
     setAutoSaved(true);
     setTimeout(() => setAutoSaved(false), 2000);
   };
 
-  const handleRssFeedChange = (index: number, field: 'url' | 'name', value: string) => {
-    const newFeeds = [...config.rssFeeds];
-    newFeeds[index][field] = value;
-    const newConfig = { ...config, rssFeeds: newFeeds };
-    setConfig(newConfig);
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+  const handlePlatformLocaleChange = (platform: string, locale: string) => {
+    const platformLocales = { ...config.platformLocales };
+    if (locale) {
+      platformLocales[platform] = locale;
+    } else {
+      delete platformLocales[platform];
+    }
+    handleInputChange('platformLocales', platformLocales);
+  };
+
+  const toggleTranslationLocale = (locale: Locale) => {
+    handleInputChange('translationLocales', config.translationLocales.includes(locale)
+      ? config.translationLocales.filter(existing => existing !== locale)
+      : [...config.translationLocales, locale]);
   };
 
-  const addRssFeed = () => {
+  // Model, sampling and server settings for the selected AI provider
+  const providerSettings: ProviderSettings = config.llmProviders[config.aiProvider] || {};
+
+  const handleProviderSettingChange = (field: keyof ProviderSettings, value: string) => {
     const newConfig = {
       ...config,
-      rssFeeds: [...config.rssFeeds, { url: '', name: '' }]
+      llmProviders: { ...config.llmProviders, [config.aiProvider]: { ...providerSettings, [field]: value } }
     };
     setConfig(newConfig);
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+    saveDraft(newConfig);
   };
 
-  const removeRssFeed = (index: number) => {
-    const newConfig = {
-      ...config,
-      rssFeeds: config.rssFeeds.filter((_, i) => i !== index)
-    };
+  // Fallbacks are tried in the order they were ticked
+  const toggleFallbackProvider = (id: string) => {
+    const fallbacks = config.aiFallbackProviders.includes(id)
+      ? config.aiFallbackProviders.filter(fallback => fallback !== id)
+      : [...config.aiFallbackProviders, id];
+    const newConfig = { ...config, aiFallbackProviders: fallbacks };
     setConfig(newConfig);
-    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+    saveDraft(newConfig);
+  };
+
+  const removeSavedSecret = (field: string) => {
+    setSavedSecrets(prev => ({ ...prev, [field]: '' }));
+    setClearedSecrets(prev => [...prev, field]);
   };
 
   const handleSave = async () => {
@@ -105,12 +186,13 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
       const response = await fetch('/api/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config)
+        // Blank secret fields keep the stored value
+        body: JSON.stringify({ ...config, clearSecrets: clearedSecrets })
       });
       
       if (response.ok) {
         // Configuration saved to server successfully
-        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+        saveDraft(config);
         onConfigSaved();
       } else {
         alert('Failed to save configuration. Please check your inputs.');
@@ -130,23 +212,47 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
         aiProvider: 'openai',
         openAiKey: '',
         geminiApiKey: '',
-        lmStudioUrl: 'http://localhost:1234',
-        lmStudioModel: 'llama-3.2-3b-instruct',
+        anthropicApiKey: '',
+        openAiCompatibleApiKey: '',
+        llmProviders: {},
+        aiFallbackProviders: [],
         wechatAppId: '',
         wechatAppSecret: '',
+        wechatApiBaseUrl: '',
+        wechatDefaultThumbMediaId: '',
         xhsCookie: '',
         googleDocsCredentials: '',
         googleDocsFolderId: '',
-        rssFeeds: [
-          { url: 'https://techcrunch.com/feed/', name: 'TechCrunch' },
-          { url: 'https://www.theverge.com/rss/index.xml', name: 'The Verge' }
-        ]
+        publishMinGapMinutes: 240,
+        forbiddenWords: [],
+        brandInterests: [],
+        topicMaxAgeDays: 7,
+        blockApprovalOnHardViolations: false,
+        platformLocales: {},
+        translationLocales: [],
+        generateImages: true
       };
       setConfig(emptyConfig);
+      setClearedSecrets(SECRET_FIELDS);
+      setSavedSecrets({});
       localStorage.removeItem(CONFIG_STORAGE_KEY);
     }
   };
 
+  // Placeholder for a secret input, showing the stored value masked if there is one
+  const secretPlaceholder = (field: string, placeholder: string) =>
+    savedSecrets[field] ? `Saved (${savedSecrets[field]}). Enter a new value to replace it` : placeholder;
+
+  const renderSavedSecret = (field: string) => savedSecrets[field] && (
+    <button
+      onClick={() => removeSavedSecret(field)}
+      className="mt-1 text-xs text-red-600 hover:text-red-800"
+    >
+      <i className="fa-solid fa-times mr-1"></i>
+      Remove saved value
+    </button>
+  );
+
   if (loading) {
     return (
       <section className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
@@ -186,9 +292,10 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 id="serpapi-key"
                 value={config.serpApiKey}
                 onChange={(e) => handleInputChange('serpApiKey', e.target.value)}
-                placeholder="Enter your SerpAPI key"
+                placeholder={secretPlaceholder('serpApiKey', 'Enter your SerpAPI key')}
                 className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
+              {renderSavedSecret('serpApiKey')}
             </div>
             <div>
               <label htmlFor="ai-provider" className="block text-sm font-medium text-gray-700">
@@ -200,25 +307,26 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 onChange={(e) => handleInputChange('aiProvider', e.target.value)}
                 className="form-select mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               >
-                <option value="openai">OpenAI (GPT-4/GPT-3.5)</option>
-                <option value="gemini">Google Gemini</option>
-                <option value="lmstudio">LM Studio (Local)</option>
+                {AI_PROVIDERS.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
               </select>
             </div>
             
-            {config.aiProvider === 'openai' && (
+            {(config.aiProvider === 'openai' || config.generateImages) && (
               <div>
                 <label htmlFor="openai-key" className="block text-sm font-medium text-gray-700">
-                  OpenAI API Key
+                  OpenAI API Key{config.aiProvider !== 'openai' && ' (for images)'}
                 </label>
                 <input
                   type="password"
                   id="openai-key"
                   value={config.openAiKey}
                   onChange={(e) => handleInputChange('openAiKey', e.target.value)}
-                  placeholder="Enter your OpenAI API key"
+                  placeholder={secretPlaceholder('openAiKey', 'Enter your OpenAI API key')}
                   className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 />
+                {renderSavedSecret('openAiKey')}
               </div>
             )}
             
@@ -232,87 +340,206 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                   id="gemini-key"
                   value={config.geminiApiKey}
                   onChange={(e) => handleInputChange('geminiApiKey', e.target.value)}
-                  placeholder="Enter your Google Gemini API key"
+                  placeholder={secretPlaceholder('geminiApiKey', 'Enter your Google Gemini API key')}
                   className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 />
+                {renderSavedSecret('geminiApiKey')}
                 <p className="mt-1 text-xs text-gray-500">
                   Get your API key from <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">Google AI Studio</a>
                 </p>
               </div>
             )}
             
-            {config.aiProvider === 'lmstudio' && (
-              <div className="space-y-3">
-                <div>
-                  <label htmlFor="lmstudio-url" className="block text-sm font-medium text-gray-700">
-                    LM Studio Server URL
-                  </label>
-                  <input
-                    type="url"
-                    id="lmstudio-url"
-                    value={config.lmStudioUrl}
-                    onChange={(e) => handleInputChange('lmStudioUrl', e.target.value)}
-                    placeholder="http://localhost:1234"
-                    className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                  />
-                </div>
-                <div>
-                  <label htmlFor="lmstudio-model" className="block text-sm font-medium text-gray-700">
-                    Model Name
-                  </label>
-                  <input
-                    type="text"
-                    id="lmstudio-model"
-                    value={config.lmStudioModel}
-                    onChange={(e) => handleInputChange('lmStudioModel', e.target.value)}
-                    placeholder="llama-3.2-3b-instruct"
-                    className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                  />
-                </div>
-                <div className="bg-blue-50 border-l-4 border-blue-400 p-3 rounded-r-lg">
-                  <p className="text-sm text-blue-700">
-                    <span className="font-bold">LM Studio Setup:</span> Download and run LM Studio, start the local server, and ensure it's running on the specified URL.
-                  </p>
-                </div>
+            {config.aiProvider === 'anthropic' && (
+              <div>
+                <label htmlFor="anthropic-key" className="block text-sm font-medium text-gray-700">
+                  Anthropic API Key
+                </label>
+                <input
+                  type="password"
+                  id="anthropic-key"
+                  value={config.anthropicApiKey}
+                  onChange={(e) => handleInputChange('anthropicApiKey', e.target.value)}
+                  placeholder={secretPlaceholder('anthropicApiKey', 'Enter your Anthropic API key')}
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                {renderSavedSecret('anthropicApiKey')}
               </div>
             )}
-          </div>
 
-          <h3 className="text-lg font-semibold mt-8 mb-4 border-b pb-2">Trend Sources</h3>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              RSS Feeds
-            </label>
-            {config.rssFeeds.map((feed, index) => (
-              <div key={index} className="flex gap-2 mb-2">
+            {config.aiProvider === 'openai-compatible' && (
+              <div>
+                <label htmlFor="openai-compatible-key" className="block text-sm font-medium text-gray-700">
+                  API Key (Optional)
+                </label>
                 <input
-                  type="text"
-                  value={feed.name}
-                  onChange={(e) => handleRssFeedChange(index, 'name', e.target.value)}
-                  placeholder="Feed name"
-                  className="form-input flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  type="password"
+                  id="openai-compatible-key"
+                  value={config.openAiCompatibleApiKey}
+                  onChange={(e) => handleInputChange('openAiCompatibleApiKey', e.target.value)}
+                  placeholder={secretPlaceholder('openAiCompatibleApiKey', 'Enter the API key for your server')}
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 />
+                {renderSavedSecret('openAiCompatibleApiKey')}
+              </div>
+            )}
+
+            {DEFAULT_BASE_URLS[config.aiProvider] && (
+              <div>
+                <label htmlFor="llm-base-url" className="block text-sm font-medium text-gray-700">
+                  Server URL{config.aiProvider === 'anthropic' && ' (Optional)'}
+                </label>
                 <input
                   type="url"
-                  value={feed.url}
-                  onChange={(e) => handleRssFeedChange(index, 'url', e.target.value)}
-                  placeholder="Feed URL"
-                  className="form-input flex-2 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  id="llm-base-url"
+                  value={providerSettings.baseUrl || ''}
+                  onChange={(e) => handleProviderSettingChange('baseUrl', e.target.value)}
+                  placeholder={DEFAULT_BASE_URLS[config.aiProvider]}
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="llm-model" className="block text-sm font-medium text-gray-700">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  id="llm-model"
+                  value={providerSettings.model || ''}
+                  onChange={(e) => handleProviderSettingChange('model', e.target.value)}
+                  placeholder={DEFAULT_MODELS[config.aiProvider]}
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 />
-                <button
-                  onClick={() => removeRssFeed(index)}
-                  className="text-red-600 hover:text-red-800"
-                >
-                  <i className="fa-solid fa-times"></i>
-                </button>
               </div>
-            ))}
-            <button
-              onClick={addRssFeed}
-              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
-            >
-              <i className="fa-solid fa-plus mr-1"></i> Add RSS Feed
-            </button>
+              <div>
+                <label htmlFor="llm-temperature" className="block text-sm font-medium text-gray-700">
+                  Temperature
+                </label>
+                <input
+                  type="number"
+                  id="llm-temperature"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={providerSettings.temperature ?? ''}
+                  onChange={(e) => handleProviderSettingChange('temperature', e.target.value)}
+                  placeholder="Default"
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="llm-max-tokens" className="block text-sm font-medium text-gray-700">
+                  Max tokens
+                </label>
+                <input
+                  type="number"
+                  id="llm-max-tokens"
+                  min="1"
+                  value={providerSettings.maxTokens ?? ''}
+                  onChange={(e) => handleProviderSettingChange('maxTokens', e.target.value)}
+                  placeholder="Default"
+                  className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Leave blank to use the provider&apos;s defaults.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Fallback Providers
+              </label>
+              <div className="mt-1 flex flex-wrap gap-3">
+                {AI_PROVIDERS.filter(provider => provider.id !== config.aiProvider).map(provider => {
+                  const position = config.aiFallbackProviders.indexOf(provider.id);
+                  return (
+                    <label key={provider.id} className="flex items-center text-sm">
+                      <input
+                        type="checkbox"
+                        checked={position >= 0}
+                        onChange={() => toggleFallbackProvider(provider.id)}
+                        className="mr-1"
+                      />
+                      {position >= 0 && <span className="mr-1 text-xs text-gray-500">{position + 1}.</span>}
+                      {provider.name}
+                    </label>
+                  );
+                })}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Tried in the order ticked when the main provider is rate limited or down. Select a provider above to set its key and model.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={config.generateImages}
+                  onChange={(e) => handleInputChange('generateImages', e.target.checked)}
+                  className="mr-2"
+                />
+                Generate a cover image for every post
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                Images are made with DALL-E 3 using the OpenAI key, whichever provider writes the text, and kept in the asset library.
+              </p>
+            </div>
+
+            {(config.aiProvider === 'lmstudio' || config.aiProvider === 'ollama') && (
+              <div className="bg-blue-50 border-l-4 border-blue-400 p-3 rounded-r-lg">
+                <p className="text-sm text-blue-700">
+                  <span className="font-bold">Local model setup:</span> Start the {config.aiProvider === 'lmstudio' ? 'LM Studio local server' : 'Ollama server'} and make sure the model is downloaded and the server is reachable at the URL above.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <h3 className="text-lg font-semibold mt-8 mb-4 border-b pb-2">Trend Sources</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              RSS Feeds
+            </label>
+            <FeedManager />
+          </div>
+
+          <div className="mt-4">
+            <label htmlFor="brand-interests" className="block text-sm font-medium text-gray-700">
+              Brand interests (Optional)
+            </label>
+            <input
+              type="text"
+              id="brand-interests"
+              value={config.brandInterests.join(',')}
+              onChange={(e) => handleInputChange('brandInterests', e.target.value.split(','))}
+              placeholder="AI, developer tools, 人工智能"
+              className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Comma-separated. Automatic campaigns favour trending topics that mention these.
+            </p>
+          </div>
+
+          <div className="mt-4">
+            <label htmlFor="topic-max-age" className="block text-sm font-medium text-gray-700">
+              Expire topics after (days)
+            </label>
+            <input
+              type="number"
+              id="topic-max-age"
+              min="1"
+              value={config.topicMaxAgeDays}
+              onChange={(e) => handleInputChange('topicMaxAgeDays', e.target.value)}
+              placeholder="7"
+              className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Pending topics about older articles are expired and no longer picked by automatic campaigns.
+            </p>
           </div>
         </div>
 
@@ -341,9 +568,39 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 id="wechat-secret"
                 value={config.wechatAppSecret}
                 onChange={(e) => handleInputChange('wechatAppSecret', e.target.value)}
-                placeholder="Enter WeChat AppSecret"
+                placeholder={secretPlaceholder('wechatAppSecret', 'Enter WeChat AppSecret')}
                 className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
+              {renderSavedSecret('wechatAppSecret')}
+            </div>
+            <div>
+              <label htmlFor="wechat-thumb-media-id" className="block text-sm font-medium text-gray-700">
+                WeChat Default Cover media_id (Optional)
+              </label>
+              <input
+                type="text"
+                id="wechat-thumb-media-id"
+                value={config.wechatDefaultThumbMediaId}
+                onChange={(e) => handleInputChange('wechatDefaultThumbMediaId', e.target.value)}
+                placeholder="Used when a post has no generated image"
+                className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="wechat-api-base-url" className="block text-sm font-medium text-gray-700">
+                WeChat API Base URL (Optional)
+              </label>
+              <input
+                type="url"
+                id="wechat-api-base-url"
+                value={config.wechatApiBaseUrl}
+                onChange={(e) => handleInputChange('wechatApiBaseUrl', e.target.value)}
+                placeholder="https://api.weixin.qq.com"
+                className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Point this at a mock server (e.g. <code>node mock-wechat-server.js</code>) to test publishing locally.
+              </p>
             </div>
             
             <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mt-6 rounded-r-lg">
@@ -369,9 +626,10 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 id="xhs-cookie"
                 value={config.xhsCookie}
                 onChange={(e) => handleInputChange('xhsCookie', e.target.value)}
-                placeholder="Enter XHS cookie for advanced features"
+                placeholder={secretPlaceholder('xhsCookie', 'Enter XHS cookie for advanced features')}
                 className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
+              {renderSavedSecret('xhsCookie')}
             </div>
 
             <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mt-6 rounded-r-lg">
@@ -399,10 +657,11 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 id="google-docs-credentials"
                 value={config.googleDocsCredentials}
                 onChange={(e) => handleInputChange('googleDocsCredentials', e.target.value)}
-                placeholder="Service Account JSON credentials or file path"
+                placeholder={secretPlaceholder('googleDocsCredentials', 'Service Account JSON credentials or file path')}
                 rows={3}
                 className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-mono text-xs"
               />
+              {renderSavedSecret('googleDocsCredentials')}
               <p className="mt-1 text-xs text-gray-500">
                 Paste the complete Service Account JSON from Google Cloud Console, or provide a file path to the JSON file.
                 <br />
@@ -423,6 +682,100 @@ const ConfigSection: React.FC<ConfigSectionProps> = ({ onConfigSaved }) => {
                 className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
               />
             </div>
+
+            <div>
+              <label htmlFor="publish-min-gap" className="block text-sm font-medium text-gray-700">
+                Minimum gap between posts (minutes)
+              </label>
+              <input
+                type="number"
+                id="publish-min-gap"
+                min="0"
+                value={config.publishMinGapMinutes}
+                onChange={(e) => handleInputChange('publishMinGapMinutes', e.target.value)}
+                placeholder="240"
+                className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Scheduled posts on the same platform closer together than this are flagged on the posting calendar.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="forbidden-words" className="block text-sm font-medium text-gray-700">
+                Forbidden words (Optional)
+              </label>
+              <input
+                type="text"
+                id="forbidden-words"
+                value={config.forbiddenWords.join(',')}
+                onChange={(e) => handleInputChange('forbiddenWords', e.target.value.split(','))}
+                placeholder="guaranteed, best ever, 最便宜"
+                className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Comma-separated. Posts containing any of these are flagged for review.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={config.blockApprovalOnHardViolations}
+                  onChange={(e) => handleInputChange('blockApprovalOnHardViolations', e.target.checked)}
+                  className="mr-2"
+                />
+                Block approval of posts that break hard limits
+              </label>
+              <p className="mt-1 text-xs text-gray-500">
+                Length and hashtag guidance is always shown as a warning. When ticked, posts over a platform&apos;s hard limits or using a forbidden word can&apos;t be approved until they are edited.
+              </p>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Output language per platform</span>
+              <div className="mt-1 grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {LOCALE_PLATFORMS.map(platform => (
+                  <label key={platform.id} className="text-xs text-gray-600">
+                    {platform.name}
+                    <select
+                      value={config.platformLocales[platform.id] || ''}
+                      onChange={(e) => handlePlatformLocaleChange(platform.id, e.target.value)}
+                      className="form-input mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="">Platform default</option>
+                      {LOCALES.map(locale => (
+                        <option key={locale} value={locale}>{LOCALE_INFO[locale].name} ({locale})</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                WeChat and Xiaohongshu default to Simplified Chinese and Google Docs to English. A brand profile&apos;s language overrides these.
+              </p>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Also translate new posts into</span>
+              <div className="mt-1 flex flex-wrap gap-4">
+                {LOCALES.map(locale => (
+                  <label key={locale} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={config.translationLocales.includes(locale)}
+                      onChange={() => toggleTranslationLocale(locale)}
+                      className="mr-2"
+                    />
+                    {LOCALE_INFO[locale].name}
+                  </label>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Each campaign post gets a linked translation in these languages, queued for approval alongside the original.
+              </p>
+            </div>
           </div>
         </div>
       </div>
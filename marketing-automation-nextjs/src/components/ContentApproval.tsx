@@ -2,9 +2,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { LogEntry } from './MainApp';
+import ContentRevisions from './ContentRevisions';
+import ContentImage from './ContentImage';
+import { LOCALES, LOCALE_INFO, isLocale } from '@/lib/utils/locales';
 
 interface ContentApprovalProps {
   onLog: (message: string, type: LogEntry['type']) => void;
+  permissions: string[];
 }
 
 interface ContentItem {
@@ -14,16 +18,67 @@ interface ContentItem {
   title: string;
   body: string;
   hashtags: string | null;
+  image_url: string | null;
+  image_prompt: string | null;
   status: string;
   created_at: string;
   approved_at: string | null;
   published_at: string | null;
+  published_url: string | null;
+  // The post on its platform, kept after unpublishing where it can be updated in place
+  external_id: string | null;
+  scheduled_for: string | null;
+  publish_error: string | null;
+  research: ContentResearch | null;
+  approved_by_name: string | null;
+  scheduled_by_name: string | null;
+  published_by_name: string | null;
+  ai_provider: string | null;
+  ai_model: string | null;
+  rule_violations: RuleViolation[];
+  locale: string | null;
+  // The post this is a translation of
+  translated_from: number | null;
 }
 
-const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
+interface RuleViolation {
+  rule: string;
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+interface ContentResearch {
+  id: number;
+  summary: string;
+  sources: { title: string; link: string | null; date: string | null; source: string | null }[];
+  provider: string;
+  model: string | null;
+  createdAt: string;
+}
+
+interface ScheduleConflict {
+  platform: string;
+  contentIds: [number, number];
+  gapMinutes: number;
+}
+
+const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog, permissions }) => {
+  const canEdit = permissions.includes('content:edit');
+  const canApprove = permissions.includes('content:approve');
+
   const [pendingContent, setPendingContent] = useState<ContentItem[]>([]);
   const [approvedContent, setApprovedContent] = useState<ContentItem[]>([]);
+  const [scheduledContent, setScheduledContent] = useState<ContentItem[]>([]);
   const [publishedContent, setPublishedContent] = useState<ContentItem[]>([]);
+  const [scheduleTimes, setScheduleTimes] = useState<Record<number, string>>({});
+  const [postedUrls, setPostedUrls] = useState<Record<number, string>>({});
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState({ title: '', body: '', hashtags: '' });
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [feedbackId, setFeedbackId] = useState<number | null>(null);
+  const [feedbackText, setFeedbackText] = useState('');
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [translatingId, setTranslatingId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -41,6 +96,7 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
         const data = await response.json();
         setPendingContent(data.pending || []);
         setApprovedContent(data.approved || []);
+        setScheduledContent(data.scheduled || []);
         setPublishedContent(data.published || []);
       } else {
         onLog('Failed to fetch content', 'error');
@@ -70,7 +126,8 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
         onLog(`${platform.toUpperCase()} content approved`, 'success');
         fetchContent(true); // Refresh content
       } else {
-        onLog(`Failed to approve ${platform} content`, 'error');
+        const errorData = await response.json();
+        onLog(`Failed to approve ${platform} content: ${errorData.error?.message || 'Unknown error'}`, 'error');
       }
     } catch (error) {
       onLog(`Error approving ${platform} content`, 'error');
@@ -79,10 +136,14 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
 
   // Handle content rejection
   const handleReject = async (contentId: number, platform: string) => {
+    const reason = prompt('Why is this post being rejected? (optional, used to improve future posts)');
+    if (reason === null) return;
+
     try {
       const response = await fetch(`/api/content/${contentId}/reject`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
       });
 
       if (response.ok) {
@@ -96,6 +157,89 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
     }
   };
 
+  // Reject a post and have the AI rewrite it using the reviewer's feedback
+  const handleRegenerate = async (contentId: number, platform: string) => {
+    setRegeneratingId(contentId);
+    onLog(`Regenerating ${formatPlatform(platform)} content with feedback...`, 'info');
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedback: feedbackText })
+      });
+
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} content regenerated and waiting for approval`, 'success');
+        setFeedbackId(null);
+        setFeedbackText('');
+        fetchContent(true); // Refresh content
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to regenerate ${platform} content: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error regenerating ${platform} content`, 'error');
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  // Have the AI write a linked copy of a post in another language
+  const handleTranslate = async (contentId: number, platform: string, locale: string) => {
+    setTranslatingId(contentId);
+    onLog(`Translating ${formatPlatform(platform)} content into ${locale}...`, 'info');
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/translate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locale })
+      });
+
+      if (response.ok) {
+        onLog(`${formatPlatform(platform)} translation into ${locale} waiting for approval`, 'success');
+        fetchContent(true); // Refresh content
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to translate ${platform} content: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error translating ${platform} content`, 'error');
+    } finally {
+      setTranslatingId(null);
+    }
+  };
+
+  // Open the inline editor for a post
+  const startEditing = (content: ContentItem) => {
+    setEditingId(content.id);
+    setEditForm({ title: content.title || '', body: content.body, hashtags: content.hashtags || '' });
+  };
+
+  // Save an edit (recorded as a new revision)
+  const handleSaveEdit = async (contentId: number, platform: string) => {
+    try {
+      const response = await fetch(`/api/content/${contentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editForm)
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        onLog(`${platform.toUpperCase()} content updated${data.content?.status === 'pending_approval' ? ' and awaiting approval' : ''}`, 'success');
+        setEditingId(null);
+        fetchContent(true); // Refresh content
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to update ${platform} content: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error updating ${platform} content`, 'error');
+    }
+  };
+
   // Handle content publishing
   const handlePublish = async (contentId: number, platform: string, title: string) => {
     try {
@@ -106,8 +250,10 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
 
       if (response.ok) {
         const data = await response.json();
-        if (data.googleDocsUrl) {
-          onLog(`${platform.toUpperCase()} content published to Google Docs: ${data.googleDocsUrl}`, 'success');
+        if (data.content?.status === 'publishing') {
+          onLog(`${platform.toUpperCase()} content submitted for publishing; it moves to Published once ${formatPlatform(platform)} has finished`, 'info');
+        } else if (data.publishedUrl) {
+          onLog(`${platform.toUpperCase()} content published: ${data.publishedUrl}`, 'success');
         } else {
           onLog(`${platform.toUpperCase()} content published successfully`, 'success');
         }
@@ -121,6 +267,130 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
     }
   };
 
+  // Handle rewriting a published post in place (Google Docs), with an optional note on why
+  const handleRepublish = async (contentId: number, platform: string) => {
+    const note = prompt('Note for the document history (optional)');
+    if (note === null) return;
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} content republished: ${data.publishedUrl}`, 'success');
+        fetchContent(true); // Refresh content
+      } else {
+        onLog(`Failed to republish ${platform} content: ${data.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error republishing ${platform} content`, 'error');
+    }
+  };
+
+  // Handle recording a post published by hand from its publish package (XHS)
+  const handleMarkPosted = async (contentId: number, platform: string) => {
+    const url = postedUrls[contentId]?.trim();
+    if (!url) return;
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/mark-posted`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} content marked as posted: ${data.publishedUrl}`, 'success');
+        setPostedUrls(prev => ({ ...prev, [contentId]: '' }));
+        fetchContent(true); // Refresh content
+      } else {
+        onLog(`Failed to mark ${platform} content as posted: ${data.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error marking ${platform} content as posted`, 'error');
+    }
+  };
+
+  // Handle scheduling (the publish dispatcher publishes it when the time comes)
+  const handleSchedule = async (contentId: number, platform: string) => {
+    const scheduleTime = scheduleTimes[contentId];
+    if (!scheduleTime) return;
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/schedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scheduledFor: new Date(scheduleTime).toISOString() })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} content scheduled for ${formatDate(data.content.scheduled_for)}`, 'success');
+        data.conflicts?.forEach((conflict: ScheduleConflict) => {
+          const otherId = conflict.contentIds.find(id => id !== contentId);
+          onLog(`${formatPlatform(conflict.platform)} post #${otherId} is only ${conflict.gapMinutes} minutes away from this one`, 'warn');
+        });
+        setScheduleTimes(prev => ({ ...prev, [contentId]: '' }));
+        fetchContent(true); // Refresh content
+      } else {
+        onLog(`Failed to schedule ${platform} content: ${data.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error scheduling ${platform} content`, 'error');
+    }
+  };
+
+  // Handle cancelling a schedule (returns the content to approved)
+  const handleUnschedule = async (contentId: number, platform: string) => {
+    try {
+      const response = await fetch(`/api/content/${contentId}/schedule`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} schedule cancelled`, 'warn');
+        fetchContent(true); // Refresh content
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to cancel ${platform} schedule: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error cancelling ${platform} schedule`, 'error');
+    }
+  };
+
+  // Handle unpublishing (removes the post from the platform and returns it to approved)
+  // With keep, the post is only withdrawn (a Google Doc is unshared) so republishing updates it in place
+  const handleUnpublish = async (contentId: number, platform: string, keep: boolean = false) => {
+    const question = keep
+      ? `Unshare this ${formatPlatform(platform)} post? It is kept and updated in place when republished.`
+      : `Remove this ${formatPlatform(platform)} post from the platform?`;
+    if (!confirm(question)) return;
+
+    try {
+      const response = await fetch(`/api/content/${contentId}/unpublish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keep })
+      });
+
+      if (response.ok) {
+        onLog(`${platform.toUpperCase()} content ${keep ? 'unshared' : 'unpublished'}`, 'warn');
+        fetchContent(true); // Refresh content
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to unpublish ${platform} content: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error unpublishing ${platform} content`, 'error');
+    }
+  };
+
   // Format platform display name
   const formatPlatform = (platform: string) => {
     switch (platform.toLowerCase()) {
@@ -131,6 +401,179 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
     }
   };
 
+  // Title, body and hashtags of an editable card, or the inline editor when it's being edited
+  const renderEditableBody = (content: ContentItem) => {
+    if (editingId !== content.id) {
+      return (
+        <>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{content.title}</h3>
+          <div className="text-sm text-gray-700 mb-3 max-h-32 overflow-y-auto whitespace-pre-wrap">
+            {content.body}
+          </div>
+          {content.hashtags && (
+            <div className="text-sm text-blue-600 mb-3">
+              <i className="fa-solid fa-hashtag mr-1"></i>
+              {content.hashtags}
+            </div>
+          )}
+        </>
+      );
+    }
+
+    return (
+      <div className="space-y-2 mb-3">
+        <input
+          type="text"
+          value={editForm.title}
+          onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
+          placeholder="Title"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-semibold"
+        />
+        <textarea
+          value={editForm.body}
+          onChange={(e) => setEditForm({ ...editForm, body: e.target.value })}
+          rows={8}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+        <input
+          type="text"
+          value={editForm.hashtags}
+          onChange={(e) => setEditForm({ ...editForm, hashtags: e.target.value })}
+          placeholder="Hashtags"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleSaveEdit(content.id, content.platform)}
+            disabled={!editForm.body.trim()}
+            className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <i className="fa-solid fa-save mr-1"></i>
+            Save
+          </button>
+          <button
+            onClick={() => setEditingId(null)}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Language of the post, and which post it was translated from
+  const renderLocale = (content: ContentItem) => (
+    <>
+      {content.locale && (
+        <span
+          title={isLocale(content.locale) ? LOCALE_INFO[content.locale].name : undefined}
+          className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700"
+        >
+          {content.locale}
+        </span>
+      )}
+      {content.translated_from && (
+        <span className="ml-2 text-xs text-gray-500">Translation of #{content.translated_from}</span>
+      )}
+    </>
+  );
+
+  // Edit / history toggles shown under an editable card's actions
+  const renderEditActions = (content: ContentItem) => (
+    <>
+      {canEdit && (
+        <button
+          onClick={() => editingId === content.id ? setEditingId(null) : startEditing(content)}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          <i className="fa-solid fa-pen mr-1"></i>
+          Edit
+        </button>
+      )}
+      {canEdit && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && handleTranslate(content.id, content.platform, e.target.value)}
+          disabled={translatingId === content.id}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 bg-white disabled:opacity-50"
+        >
+          <option value="">{translatingId === content.id ? 'Translating...' : 'Translate to...'}</option>
+          {LOCALES.filter(locale => locale !== content.locale).map(locale => (
+            <option key={locale} value={locale}>{LOCALE_INFO[locale].name}</option>
+          ))}
+        </select>
+      )}
+      <button
+        onClick={() => setHistoryId(historyId === content.id ? null : content.id)}
+        className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+      >
+        <i className="fa-solid fa-clock-rotate-left mr-1"></i>
+        History
+      </button>
+    </>
+  );
+
+  // Platform limits and forbidden words the post breaks; errors are hard limits
+  const renderRuleViolations = (content: ContentItem) => content.rule_violations?.length > 0 && (
+    <ul className="mt-2 space-y-1 text-xs">
+      {content.rule_violations.map((violation, index) => (
+        <li
+          key={index}
+          className={violation.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}
+        >
+          <i className={`fa-solid ${violation.severity === 'error' ? 'fa-circle-exclamation' : 'fa-triangle-exclamation'} mr-1`}></i>
+          {violation.message}
+        </li>
+      ))}
+    </ul>
+  );
+
+  // Sources the post's research was based on, for fact-checking
+  const renderSources = (content: ContentItem) => content.research && (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-gray-600 hover:text-gray-900">
+        <i className="fa-solid fa-book-open mr-1"></i>
+        Sources ({content.research.sources.length})
+        <span className="ml-2 text-xs text-gray-400">
+          researched with {content.research.provider}{content.research.model ? ` / ${content.research.model}` : ''}
+          {content.ai_provider && `, written with ${content.ai_provider}${content.ai_model ? ` / ${content.ai_model}` : ''}`}
+        </span>
+      </summary>
+      <div className="mt-2 pl-4 space-y-2">
+        {content.research.sources.length === 0 ? (
+          <p className="text-xs text-gray-500">No search results were available; the research relied on the model&apos;s own knowledge.</p>
+        ) : (
+          <ol className="list-decimal list-inside space-y-1 text-xs">
+            {content.research.sources.map((source, index) => (
+              <li key={index}>
+                {source.link ? (
+                  <a href={source.link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                    {source.title}
+                  </a>
+                ) : source.title}
+                {(source.source || source.date) && (
+                  <span className="ml-1 text-gray-500">
+                    ({[source.source, source.date].filter(Boolean).join(', ')})
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="text-xs text-gray-600 whitespace-pre-wrap max-h-40 overflow-y-auto bg-gray-50 p-2 rounded">
+          {content.research.summary}
+        </div>
+      </div>
+    </details>
+  );
+
+  const renderHistory = (content: ContentItem) => historyId === content.id && (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <ContentRevisions contentId={content.id} onLog={onLog} onReverted={() => fetchContent(true)} canRevert={canEdit} />
+    </div>
+  );
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -181,38 +624,70 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                         {formatPlatform(content.platform)}
                       </span>
+                      {renderLocale(content)}
                       <span className="ml-2 text-sm text-gray-500">
                         {formatDate(content.created_at)}
                       </span>
                     </div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{content.title}</h3>
-                    <div className="text-sm text-gray-700 mb-3 max-h-32 overflow-y-auto">
-                      {content.body}
-                    </div>
-                    {content.hashtags && (
-                      <div className="text-sm text-blue-600 mb-3">
-                        <i className="fa-solid fa-hashtag mr-1"></i>
-                        {content.hashtags}
-                      </div>
+                    {renderEditableBody(content)}
+                    <ContentImage content={content} onLog={onLog} onChanged={() => fetchContent(true)} canEdit={canEdit} />
+                    {renderRuleViolations(content)}
+                    {renderSources(content)}
+                  </div>
+                  <div className="flex flex-col space-y-2 ml-4">
+                    {canApprove && (
+                      <>
+                        <button
+                          onClick={() => handleApprove(content.id, content.platform)}
+                          className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                        >
+                          <i className="fa-solid fa-check mr-1"></i>
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleReject(content.id, content.platform)}
+                          className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                        >
+                          <i className="fa-solid fa-times mr-1"></i>
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    {canEdit && (
+                      <button
+                        onClick={() => {
+                          setFeedbackId(feedbackId === content.id ? null : content.id);
+                          setFeedbackText('');
+                        }}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>
+                        Regenerate
+                      </button>
                     )}
+                    {renderEditActions(content)}
                   </div>
-                  <div className="flex space-x-2 ml-4">
-                    <button
-                      onClick={() => handleApprove(content.id, content.platform)}
-                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-                    >
-                      <i className="fa-solid fa-check mr-1"></i>
-                      Approve
-                    </button>
+                </div>
+                {feedbackId === content.id && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+                    <textarea
+                      value={feedbackText}
+                      onChange={(e) => setFeedbackText(e.target.value)}
+                      rows={2}
+                      placeholder="What should change? e.g. shorter, less emoji, mention pricing"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
                     <button
-                      onClick={() => handleReject(content.id, content.platform)}
-                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      onClick={() => handleRegenerate(content.id, content.platform)}
+                      disabled={!feedbackText.trim() || regeneratingId === content.id}
+                      className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400"
                     >
-                      <i className="fa-solid fa-times mr-1"></i>
-                      Reject
+                      <i className={`fa-solid ${regeneratingId === content.id ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'} mr-1`}></i>
+                      {regeneratingId === content.id ? 'Regenerating...' : 'Reject & Regenerate'}
                     </button>
                   </div>
-                </div>
+                )}
+                {renderHistory(content)}
               </div>
             ))}
           </div>
@@ -238,37 +713,134 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
                         {formatPlatform(content.platform)}
                       </span>
+                      {renderLocale(content)}
                       <span className="ml-2 text-sm text-gray-500">
                         Approved: {formatDate(content.approved_at || '')}
+                        {content.approved_by_name && ` by ${content.approved_by_name}`}
                       </span>
                     </div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{content.title}</h3>
-                    <div className="text-sm text-gray-700 mb-3 max-h-32 overflow-y-auto">
-                      {content.body}
-                    </div>
-                    {content.hashtags && (
-                      <div className="text-sm text-blue-600">
-                        <i className="fa-solid fa-hashtag mr-1"></i>
-                        {content.hashtags}
+                    {renderEditableBody(content)}
+                    <ContentImage content={content} onLog={onLog} onChanged={() => fetchContent(true)} canEdit={canEdit} />
+                    {renderRuleViolations(content)}
+                    {renderSources(content)}
+                    {content.publish_error && (
+                      <div className="mt-2 text-sm text-red-600">
+                        <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                        Last publish attempt failed: {content.publish_error}
                       </div>
                     )}
                   </div>
                   <div className="flex flex-col space-y-2 ml-4">
-                    <button
-                      onClick={() => handlePublish(content.id, content.platform, content.title)}
-                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                    >
-                      <i className="fa-solid fa-paper-plane mr-1"></i>
-                      Publish
-                    </button>
+                    {canApprove && content.platform === 'xhs' && (
+                      <>
+                        <a
+                          href={`/api/content/${content.id}/xhs-package`}
+                          download
+                          className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                          <i className="fa-solid fa-file-zipper mr-1"></i>
+                          Download Package
+                        </a>
+                        <input
+                          type="url"
+                          value={postedUrls[content.id] || ''}
+                          onChange={(e) => setPostedUrls(prev => ({ ...prev, [content.id]: e.target.value }))}
+                          placeholder="Live note URL"
+                          className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                          onClick={() => handleMarkPosted(content.id, content.platform)}
+                          disabled={!postedUrls[content.id]?.trim()}
+                          className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                        >
+                          <i className="fa-solid fa-check mr-1"></i>
+                          Mark as Posted
+                        </button>
+                      </>
+                    )}
+                    {canApprove && content.platform !== 'xhs' && (
+                      <>
+                        <button
+                          onClick={() => handlePublish(content.id, content.platform, content.title)}
+                          className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                          <i className="fa-solid fa-paper-plane mr-1"></i>
+                          {content.external_id ? 'Update & Publish' : 'Publish'}
+                        </button>
+                        <input
+                          type="datetime-local"
+                          value={scheduleTimes[content.id] || ''}
+                          onChange={(e) => setScheduleTimes(prev => ({ ...prev, [content.id]: e.target.value }))}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                          onClick={() => handleSchedule(content.id, content.platform)}
+                          disabled={!scheduleTimes[content.id]}
+                          className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                        >
+                          <i className="fa-solid fa-clock mr-1"></i>
+                          Schedule
+                        </button>
+                      </>
+                    )}
+                    {renderEditActions(content)}
                   </div>
                 </div>
+                {renderHistory(content)}
               </div>
             ))}
           </div>
         )}
       </div>
 
+      {/* Scheduled Content Section */}
+      {scheduledContent.length > 0 && (
+        <div>
+          <h2 className="text-xl font-bold mb-4 text-gray-800">Scheduled Content</h2>
+          <div className="space-y-4">
+            {scheduledContent.map((content) => (
+              <div key={content.id} className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+                <div className="flex justify-between items-start">
+                  <div className="flex-1">
+                    <div className="flex items-center mb-2">
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        {formatPlatform(content.platform)}
+                      </span>
+                      {renderLocale(content)}
+                      <span className="ml-2 text-sm text-gray-500">
+                        {content.status === 'publishing' ? (
+                          `Publishing: waiting for ${formatPlatform(content.platform)} to finish`
+                        ) : (
+                          <>
+                            Scheduled: {formatDate(content.scheduled_for || '')}
+                            {content.scheduled_by_name && ` by ${content.scheduled_by_name}`}
+                          </>
+                        )}
+                      </span>
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">{content.title}</h3>
+                    <div className="text-sm text-gray-700 max-h-32 overflow-y-auto">
+                      {content.body}
+                    </div>
+                  </div>
+                  <div className="flex flex-col space-y-2 ml-4">
+                    {canApprove && content.status === 'scheduled' && (
+                      <button
+                        onClick={() => handleUnschedule(content.id, content.platform)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        <i className="fa-solid fa-times mr-1"></i>
+                        Cancel Schedule
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Published Content Section */}
       <div>
         <h2 className="text-xl font-bold mb-4 text-gray-800">Published Content</h2>
@@ -288,8 +860,11 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                         {formatPlatform(content.platform)}
                       </span>
+                      {renderLocale(content)}
                       <span className="ml-2 text-sm text-gray-500">
                         Published: {formatDate(content.published_at || '')}
+                        {content.published_by_name && ` by ${content.published_by_name}`}
+                        {content.approved_by_name && ` · approved by ${content.approved_by_name}`}
                       </span>
                     </div>
                     <h3 className="text-lg font-semibold text-gray-900 mb-2">{content.title}</h3>
@@ -316,11 +891,38 @@ const ContentApproval: React.FC<ContentApprovalProps> = ({ onLog }) => {
                       </div>
                     )}
                   </div>
-                  <div className="ml-4">
+                  <div className="flex flex-col items-end space-y-2 ml-4">
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                       <i className="fa-solid fa-check mr-1"></i>
                       Published
                     </span>
+                    {canApprove && content.platform === 'googledocs' && (
+                      <>
+                        <button
+                          onClick={() => handleRepublish(content.id, content.platform)}
+                          className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                        >
+                          <i className="fa-solid fa-arrows-rotate mr-1"></i>
+                          Republish
+                        </button>
+                        <button
+                          onClick={() => handleUnpublish(content.id, content.platform, true)}
+                          className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                        >
+                          <i className="fa-solid fa-eye-slash mr-1"></i>
+                          Unshare
+                        </button>
+                      </>
+                    )}
+                    {canApprove && (
+                      <button
+                        onClick={() => handleUnpublish(content.id, content.platform)}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        <i className="fa-solid fa-rotate-left mr-1"></i>
+                        Unpublish
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
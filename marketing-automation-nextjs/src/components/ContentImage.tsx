@@ -0,0 +1,242 @@
+'use client';
+
+import React, { useState } from 'react';
+import { LogEntry } from './MainApp';
+
+interface ContentImageProps {
+  content: {
+    id: number;
+    platform: string;
+    status: string;
+    image_url: string | null;
+    image_prompt: string | null;
+  };
+  onLog: (message: string, type: LogEntry['type']) => void;
+  onChanged: () => void;
+  canEdit: boolean;
+}
+
+interface Asset {
+  id: number;
+  url: string;
+  width: number | null;
+  height: number | null;
+  source: 'generated' | 'upload';
+  prompt: string | null;
+  platform: string | null;
+  originalName: string | null;
+  createdAt: string;
+}
+
+type Panel = 'regenerate' | 'library' | null;
+
+// A post's cover image, with controls to regenerate, upload or pick one from the asset library
+const ContentImage: React.FC<ContentImageProps> = ({ content, onLog, onChanged, canEdit }) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [prompt, setPrompt] = useState(content.image_prompt || '');
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [busy, setBusy] = useState(false);
+  // Changing the image sends approved content back for approval
+  const approvalNote = content.status === 'approved' ? ' and awaiting approval' : '';
+
+  const fetchAssets = async () => {
+    try {
+      const response = await fetch('/api/assets');
+      if (response.ok) {
+        const data = await response.json();
+        setAssets(data.assets || []);
+      }
+    } catch (error) {
+      onLog('Error fetching the asset library', 'error');
+    }
+  };
+
+  const togglePanel = (next: Panel) => {
+    setPanel(panel === next ? null : next);
+    if (next === 'library' && panel !== 'library') fetchAssets();
+    if (next === 'regenerate') setPrompt(content.image_prompt || '');
+  };
+
+  const selectAsset = async (assetId: number) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/content/${content.id}/image`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetId })
+      });
+
+      if (response.ok) {
+        onLog(`Image of ${content.platform} content updated${approvalNote}`, 'success');
+        setPanel(null);
+        onChanged();
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to update image: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog('Error updating image', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      const response = await fetch(`/api/content/${content.id}/image`, { method: 'DELETE' });
+      if (response.ok) {
+        onLog(`Image removed from ${content.platform} content${approvalNote}`, 'success');
+        onChanged();
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to remove image: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog('Error removing image', 'error');
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    onLog(`Generating a new ${content.platform} image...`, 'info');
+
+    try {
+      const response = await fetch(`/api/content/${content.id}/image/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt })
+      });
+
+      if (response.ok) {
+        onLog(`New ${content.platform} image generated${approvalNote}`, 'success');
+        setPanel(null);
+        onChanged();
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to generate image: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog('Error generating image', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    setBusy(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('platform', content.platform);
+
+      const response = await fetch('/api/assets', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        onLog(`Failed to upload image: ${data.error?.message || 'Unknown error'}`, 'error');
+        return;
+      }
+      await selectAsset(data.asset.id);
+    } catch (error) {
+      onLog('Error uploading image', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!content.image_url && !canEdit) return null;
+
+  return (
+    <div className="mb-3">
+      {content.image_url ? (
+        <img
+          src={content.image_url}
+          alt={content.image_prompt || 'Post image'}
+          className="max-h-40 rounded-md border border-gray-200 object-contain"
+        />
+      ) : (
+        <p className="text-xs text-gray-500">
+          <i className="fa-solid fa-image mr-1"></i>
+          No image
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="mt-2 flex flex-wrap gap-2 text-xs">
+          <button onClick={() => togglePanel('regenerate')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>
+            {content.image_url ? 'Regenerate' : 'Generate'}
+          </button>
+          <label className={`text-blue-600 hover:text-blue-800 cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            <i className="fa-solid fa-upload mr-1"></i>
+            Upload
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleUpload(file);
+              }}
+            />
+          </label>
+          <button onClick={() => togglePanel('library')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            <i className="fa-solid fa-images mr-1"></i>
+            Library
+          </button>
+          {content.image_url && (
+            <button onClick={handleRemove} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+
+      {panel === 'regenerate' && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            rows={2}
+            placeholder="Describe the image"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <button
+            onClick={handleRegenerate}
+            disabled={!prompt.trim() || busy}
+            className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400"
+          >
+            <i className={`fa-solid ${busy ? 'fa-spinner fa-spin' : 'fa-wand-magic-sparkles'} mr-1`}></i>
+            {busy ? 'Generating...' : 'Generate Image'}
+          </button>
+        </div>
+      )}
+
+      {panel === 'library' && (
+        assets.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-500">The asset library is empty.</p>
+        ) : (
+          <div className="mt-2 grid grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+            {assets.map(asset => (
+              <button
+                key={asset.id}
+                onClick={() => selectAsset(asset.id)}
+                disabled={busy || asset.url === content.image_url}
+                title={[
+                  asset.prompt || asset.originalName,
+                  asset.width && asset.height ? `${asset.width}×${asset.height}` : null,
+                  asset.platform && `made for ${asset.platform}`
+                ].filter(Boolean).join(' · ')}
+                className={`rounded-md border overflow-hidden ${asset.url === content.image_url ? 'border-blue-500 ring-2 ring-blue-500' : 'border-gray-200 hover:border-blue-400'}`}
+              >
+                <img src={asset.url} alt={asset.prompt || asset.originalName || `Asset ${asset.id}`} className="h-20 w-full object-cover" />
+              </button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ContentImage;
@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LogEntry } from './MainApp';
+import { diffLines } from '@/lib/utils/diff';
+
+interface ContentRevisionsProps {
+  contentId: number;
+  onLog: (message: string, type: LogEntry['type']) => void;
+  onReverted: () => void;
+  canRevert: boolean;
+}
+
+interface Revision {
+  id: number;
+  title: string | null;
+  body: string;
+  hashtags: string | null;
+  source: 'ai' | 'human';
+  revertedFrom: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Title and hashtags are diffed along with the body
+const revisionText = (revision: Revision) => {
+  return [`Title: ${revision.title || ''}`, '', revision.body, '', `Hashtags: ${revision.hashtags || ''}`].join('\n');
+};
+
+const lineClasses = {
+  same: 'text-gray-700',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800',
+  empty: 'bg-gray-50'
+};
+
+const ContentRevisions: React.FC<ContentRevisionsProps> = ({ contentId, onLog, onReverted, canRevert }) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRevisions = async () => {
+    try {
+      const response = await fetch(`/api/content/${contentId}/revisions`);
+      if (response.ok) {
+        const data = await response.json();
+        setRevisions(data.revisions || []);
+        // Compare the latest revision with the one before it by default
+        setSelectedIndex(Math.max((data.revisions || []).length - 2, 0));
+      }
+    } catch (error) {
+      onLog('Error fetching revision history', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [contentId]);
+
+  const handleRevert = async (revision: Revision) => {
+    try {
+      const response = await fetch(`/api/content/${contentId}/revisions/${revision.id}/revert`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        onLog(`Content reverted to revision #${revision.id}`, 'success');
+        onReverted();
+        fetchRevisions();
+      } else {
+        const errorData = await response.json();
+        onLog(`Failed to revert content: ${errorData.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog('Error reverting content', 'error');
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">No revisions recorded yet.</p>;
+  }
+
+  const latest = revisions[revisions.length - 1];
+  const selected = revisions[selectedIndex];
+  const rows = diffLines(revisionText(selected), revisionText(latest));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {revisions.map((revision, index) => (
+          <button
+            key={revision.id}
+            onClick={() => setSelectedIndex(index)}
+            className={`px-2 py-1 rounded-md text-xs border ${index === selectedIndex ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+          >
+            #{revision.id} {revision.source === 'ai' ? 'AI' : `Edit${revision.createdByName ? ` by ${revision.createdByName}` : ''}`}
+            {revision.revertedFrom && ` (revert of #${revision.revertedFrom})`}
+            <span className="ml-1 text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs font-medium text-gray-500">
+        <div>Revision #{selected.id}</div>
+        <div>Current (#{latest.id})</div>
+      </div>
+      <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 text-xs font-mono">
+            <div className={`px-2 py-0.5 whitespace-pre-wrap border-r border-gray-200 ${lineClasses[row.left.type]}`}>{row.left.text}</div>
+            <div className={`px-2 py-0.5 whitespace-pre-wrap ${lineClasses[row.right.type]}`}>{row.right.text}</div>
+          </div>
+        ))}
+      </div>
+
+      {canRevert && selected.id !== latest.id && (
+        <button
+          onClick={() => handleRevert(selected)}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+        >
+          <i className="fa-solid fa-rotate-left mr-1"></i>
+          Revert to #{selected.id}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ContentRevisions;
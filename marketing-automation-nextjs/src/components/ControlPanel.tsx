@@ -13,10 +13,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onLog }) => {
   const [hasValidProviders, setHasValidProviders] = useState(false);
   const [campaignMode, setCampaignMode] = useState<'auto' | 'custom'>('auto');
   const [customTopic, setCustomTopic] = useState('');
+  const [brandProfiles, setBrandProfiles] = useState<{ id: number; name: string }[]>([]);
+  const [brandProfileId, setBrandProfileId] = useState('');
 
   // Check publishing providers on component mount and periodically
   useEffect(() => {
     checkPublishingProviders();
+    fetchBrandProfiles();
     
     // Poll for updates every 30 seconds (reduced frequency)
     const interval = setInterval(() => {
@@ -26,6 +29,32 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onLog }) => {
     return () => clearInterval(interval);
   }, []);
 
+  // Poll a queued campaign job until it finishes, logging each new step
+  const waitForJob = async (jobId: number) => {
+    let loggedSteps = 0;
+
+    while (true) {
+      const response = await fetch(`/api/campaigns/jobs/${jobId}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to fetch campaign status');
+      }
+
+      const { job } = await response.json();
+      for (const step of job.steps.slice(loggedSteps)) {
+        const type = step.status === 'failed' ? 'error' : step.status === 'saved' ? 'success' : 'info';
+        onLog(step.message, type);
+      }
+      loggedSteps = job.steps.length;
+
+      if (job.status === 'saved' || job.status === 'failed') {
+        return job;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+  };
+
   const checkPublishingProviders = async () => {
     try {
       const response = await fetch('/api/publish/providers');
@@ -37,6 +66,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onLog }) => {
     }
   };
 
+  const fetchBrandProfiles = async () => {
+    try {
+      const response = await fetch('/api/brand-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setBrandProfiles(data.profiles || []);
+      }
+    } catch (error) {
+      console.error('Error fetching brand profiles:', error);
+    }
+  };
+
   const startCampaign = async () => {
     if (campaignInProgress) return;
 
@@ -56,25 +97,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onLog }) => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           mode: campaignMode,
-          customTopic: campaignMode === 'custom' ? customTopic.trim() : undefined
+          customTopic: campaignMode === 'custom' ? customTopic.trim() : undefined,
+          brandProfileId: brandProfileId ? Number(brandProfileId) : undefined
         })
       });
 
       if (response.ok) {
-        const data = await response.json();
-        const { trendsFound, processed } = data;
-
-        onLog(`Campaign started successfully`, 'success');
-        onLog(`Found ${trendsFound} trends`, 'info');
-        
-        if (processed) {
-          onLog(`Processing topic: "${processed}"`, 'info');
-          onLog('Content generation in progress...', 'info');
-          
-          // Simulate content generation delay
-          setTimeout(() => {
-            onLog('Content generated successfully. Awaiting approval.', 'success');
-          }, 2000);
+        const { jobId } = await response.json();
+        onLog(`Campaign queued (job #${jobId})`, 'info');
+
+        const job = await waitForJob(jobId);
+        if (job.status === 'saved' && job.result) {
+          onLog(`Found ${job.result.trendsFound} trends`, 'info');
         }
       } else {
         const error = await response.json();
@@ -167,6 +201,25 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ onLog }) => {
         </div>
       )}
 
+      {brandProfiles.length > 0 && (
+        <div className="mb-4">
+          <label htmlFor="brandProfile" className="block text-sm font-medium text-gray-700 mb-2">
+            Brand Profile
+          </label>
+          <select
+            id="brandProfile"
+            value={brandProfileId}
+            onChange={(e) => setBrandProfileId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">No brand profile</option>
+            {brandProfiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <button
         onClick={startCampaign}
         disabled={campaignInProgress || !hasValidProviders || (campaignMode === 'custom' && !customTopic.trim())}
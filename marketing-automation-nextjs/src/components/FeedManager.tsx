@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface Feed {
+  id: number;
+  name: string;
+  url: string;
+  enabled: boolean;
+  lastFetchedAt: string | null;
+  lastStatus: number | null;
+  lastError: string | null;
+  lastItemCount: number | null;
+  consecutiveFailures: number;
+  disabledAt: string | null;
+}
+
+interface FeedPreview {
+  title: string | null;
+  status: number;
+  itemCount: number;
+  items: { title: string; link?: string; publishedAt?: string }[];
+}
+
+const inputClass = 'form-input px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+// Feeds are saved as soon as they're added or changed, separately from the rest of the configuration
+const FeedManager: React.FC = () => {
+  const [feeds, setFeeds] = useState<Feed[]>([]);
+  const [form, setForm] = useState({ name: '', url: '' });
+  // URL of the feed being tested, and the result of the last test
+  const [testingUrl, setTestingUrl] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ url: string; preview?: FeedPreview; error?: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const fetchFeeds = async () => {
+    try {
+      const response = await fetch('/api/feeds');
+      if (response.ok) {
+        const data = await response.json();
+        setFeeds(data.feeds || []);
+      }
+    } catch (error) {
+      console.error('Error fetching feeds:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchFeeds();
+  }, []);
+
+  const testFeed = async (url: string) => {
+    setTestingUrl(url);
+    try {
+      const response = await fetch('/api/feeds/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url })
+      });
+      const data = await response.json();
+      setPreview(response.ok
+        ? { url, preview: data.preview }
+        : { url, error: data.error?.message || 'Failed to test feed' });
+    } catch (error) {
+      setPreview({ url, error: 'Error testing feed' });
+    } finally {
+      setTestingUrl(null);
+    }
+  };
+
+  const addFeed = async () => {
+    try {
+      const response = await fetch('/api/feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Feed ${data.feed.name} added`, type: 'success' });
+        setForm({ name: '', url: '' });
+        fetchFeeds();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to add feed', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error adding feed', type: 'error' });
+    }
+  };
+
+  const setEnabled = async (feed: Feed, enabled: boolean) => {
+    try {
+      const response = await fetch(`/api/feeds/${feed.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Feed ${feed.name} ${enabled ? 'enabled' : 'disabled'}`, type: 'success' });
+        fetchFeeds();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to update feed', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error updating feed', type: 'error' });
+    }
+  };
+
+  const deleteFeed = async (feed: Feed) => {
+    if (!confirm(`Delete the feed "${feed.name}"? Topics already found in it are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/feeds/${feed.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Feed ${feed.name} deleted`, type: 'success' });
+        if (preview?.url === feed.url) setPreview(null);
+        fetchFeeds();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to delete feed', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error deleting feed', type: 'error' });
+    }
+  };
+
+  const renderHealth = (feed: Feed) => {
+    if (!feed.enabled) {
+      return feed.disabledAt
+        ? <span className="text-red-600">Disabled after {feed.consecutiveFailures} failed fetches</span>
+        : <span className="text-gray-500">Disabled</span>;
+    }
+    if (feed.consecutiveFailures > 0) {
+      return <span className="text-orange-600">Failing ({feed.consecutiveFailures} in a row)</span>;
+    }
+    if (!feed.lastFetchedAt) {
+      return <span className="text-gray-500">Not fetched yet</span>;
+    }
+    return <span className="text-green-600">OK</span>;
+  };
+
+  const renderPreview = () => preview && (
+    <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <span className="font-medium text-gray-700 truncate">{preview.url}</span>
+        <button onClick={() => setPreview(null)} className="text-gray-500 hover:text-gray-700">
+          <i className="fa-solid fa-times"></i>
+        </button>
+      </div>
+      {preview.error ? (
+        <p className="text-red-600">{preview.error}</p>
+      ) : preview.preview && (
+        <>
+          <p className="text-gray-600 mb-1">
+            {preview.preview.title || 'Untitled feed'}: {preview.preview.itemCount} item(s), HTTP {preview.preview.status}
+          </p>
+          <ul className="list-disc pl-4 space-y-1">
+            {preview.preview.items.map((item, index) => (
+              <li key={index}>
+                {item.link
+                  ? <a href={item.link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{item.title}</a>
+                  : item.title}
+                {item.publishedAt && (
+                  <span className="ml-1 text-gray-400">{new Date(item.publishedAt).toLocaleString()}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      {feeds.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 text-sm">
+          {feeds.map(feed => (
+            <li key={feed.id} className="py-2">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <span className={`font-medium ${feed.enabled ? 'text-gray-900' : 'text-gray-400'}`}>{feed.name}</span>
+                  <p className="text-xs text-gray-500 truncate">{feed.url}</p>
+                </div>
+                <div className="space-x-3 whitespace-nowrap">
+                  <button
+                    onClick={() => testFeed(feed.url)}
+                    disabled={testingUrl !== null}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    {testingUrl === feed.url ? 'Testing...' : 'Test'}
+                  </button>
+                  <button onClick={() => setEnabled(feed, !feed.enabled)} className="text-blue-600 hover:text-blue-800">
+                    {feed.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button onClick={() => deleteFeed(feed)} className="text-red-600 hover:text-red-800">Delete</button>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {renderHealth(feed)}
+                {feed.lastFetchedAt && (
+                  <>
+                    {' · '}Last fetched {new Date(feed.lastFetchedAt).toLocaleString()}
+                    {feed.lastStatus !== null && ` (HTTP ${feed.lastStatus})`}
+                  </>
+                )}
+                {feed.lastItemCount !== null && ` · ${feed.lastItemCount} item(s)`}
+              </p>
+              {feed.lastError && <p className="text-xs text-red-600">{feed.lastError}</p>}
+              {preview?.url === feed.url && renderPreview()}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Feed name"
+          className={`${inputClass} flex-1`}
+        />
+        <input
+          type="url"
+          value={form.url}
+          onChange={(e) => setForm({ ...form, url: e.target.value })}
+          placeholder="Feed URL"
+          className={`${inputClass} flex-2`}
+        />
+      </div>
+      <div className="mt-2 space-x-3 text-sm">
+        <button
+          onClick={() => testFeed(form.url.trim())}
+          disabled={!form.url.trim() || testingUrl !== null}
+          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          <i className="fa-solid fa-vial mr-1"></i> {testingUrl === form.url.trim() ? 'Testing...' : 'Test Feed'}
+        </button>
+        <button
+          onClick={addFeed}
+          disabled={!form.url.trim()}
+          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          <i className="fa-solid fa-plus mr-1"></i> Add RSS Feed
+        </button>
+      </div>
+      {preview && !feeds.some(feed => feed.url === preview.url) && renderPreview()}
+
+      {message && (
+        <p className={`mt-2 text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FeedManager;
@@ -4,6 +4,9 @@ import React, { useState } from 'react';
 import ControlPanel from './ControlPanel';
 import SystemConsole from './SystemConsole';
 import ContentApproval from './ContentApproval';
+import ScheduledCampaigns from './ScheduledCampaigns';
+import PostingCalendar from './PostingCalendar';
+import TopicInbox from './TopicInbox';
 
 export interface LogEntry {
   timestamp: Date;
@@ -11,7 +14,12 @@ export interface LogEntry {
   type: 'info' | 'warn' | 'error' | 'success';
 }
 
-const MainApp: React.FC = () => {
+interface MainAppProps {
+  // Permissions of the signed-in user, used to hide actions they can't take
+  permissions: string[];
+}
+
+const MainApp: React.FC<MainAppProps> = ({ permissions }) => {
   const [logs, setLogs] = useState<LogEntry[]>([
     {
       timestamp: new Date(),
@@ -20,6 +28,8 @@ const MainApp: React.FC = () => {
     }
   ]);
 
+  const [activeTab, setActiveTab] = useState<'content' | 'topics'>('content');
+
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
     setLogs(prev => [...prev, { timestamp: new Date(), message, type }]);
   };
@@ -28,11 +38,28 @@ const MainApp: React.FC = () => {
     <section className="grid grid-cols-1 lg:grid-cols-3 gap-8">
       <div className="lg:col-span-1 space-y-8">
         <ControlPanel onLog={addLog} />
+        <ScheduledCampaigns onLog={addLog} />
         <SystemConsole logs={logs} />
       </div>
 
       <div className="lg:col-span-2 space-y-8">
-        <ContentApproval onLog={addLog} />
+        <PostingCalendar />
+        <div>
+          <div className="flex space-x-2 mb-4 border-b border-gray-200">
+            {(['content', 'topics'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${activeTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+              >
+                {tab === 'content' ? 'Content' : 'Topics'}
+              </button>
+            ))}
+          </div>
+          {activeTab === 'content'
+            ? <ContentApproval onLog={addLog} permissions={permissions} />
+            : <TopicInbox onLog={addLog} permissions={permissions} />}
+        </div>
       </div>
     </section>
   );
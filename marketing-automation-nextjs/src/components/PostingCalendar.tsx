@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface CalendarItem {
+  id: number;
+  platform: string;
+  title: string;
+  status: string;
+  time: string;
+}
+
+interface CalendarConflict {
+  platform: string;
+  contentIds: [number, number];
+  gapMinutes: number;
+}
+
+const PLATFORMS = [
+  { platform: 'wechat', name: 'WeChat' },
+  { platform: 'xhs', name: 'XHS' },
+  { platform: 'googledocs', name: 'Google Docs' }
+];
+
+const DAYS_SHOWN = 7;
+
+const PostingCalendar: React.FC = () => {
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [conflicts, setConflicts] = useState<CalendarConflict[]>([]);
+  const [minGapMinutes, setMinGapMinutes] = useState<number | null>(null);
+
+  const startOfRange = () => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() + weekOffset * DAYS_SHOWN);
+    return start;
+  };
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, index) => {
+    const day = startOfRange();
+    day.setDate(day.getDate() + index);
+    return day;
+  });
+
+  const fetchCalendar = async () => {
+    const from = startOfRange();
+    const to = new Date(from);
+    to.setDate(to.getDate() + DAYS_SHOWN);
+
+    try {
+      const response = await fetch(`/api/content/calendar?from=${from.toISOString()}&to=${to.toISOString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items || []);
+        setConflicts(data.conflicts || []);
+        setMinGapMinutes(data.minGapMinutes);
+      }
+    } catch (error) {
+      console.error('Error fetching posting calendar:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendar();
+
+    // Scheduled posts move to published as the dispatcher runs
+    const interval = setInterval(fetchCalendar, 60000);
+    return () => clearInterval(interval);
+  }, [weekOffset]);
+
+  const conflictingIds = new Set(conflicts.flatMap(conflict => conflict.contentIds));
+
+  const itemsFor = (platform: string, day: Date) => {
+    return items.filter(item => {
+      const time = new Date(item.time);
+      return item.platform === platform && time.toDateString() === day.toDateString();
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">Posting Calendar</h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setWeekOffset(weekOffset - 1)}
+            title="Previous week"
+            className="px-2 py-1 text-gray-600 hover:text-gray-900"
+          >
+            <i className="fa-solid fa-chevron-left"></i>
+          </button>
+          <button
+            onClick={() => setWeekOffset(0)}
+            className="px-2 py-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setWeekOffset(weekOffset + 1)}
+            title="Next week"
+            className="px-2 py-1 text-gray-600 hover:text-gray-900"
+          >
+            <i className="fa-solid fa-chevron-right"></i>
+          </button>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mb-4 bg-yellow-50 border-l-4 border-yellow-400 p-3 rounded-r-lg">
+          <p className="text-sm text-yellow-700">
+            <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+            {conflicts.length} pair{conflicts.length === 1 ? '' : 's'} of posts are less than {minGapMinutes} minutes apart on the same platform.
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr>
+              <th className="p-2 text-left text-gray-500 font-medium"></th>
+              {days.map(day => (
+                <th key={day.toISOString()} className="p-2 text-center text-gray-500 font-medium">
+                  {day.toLocaleDateString(undefined, { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PLATFORMS.map(({ platform, name }) => (
+              <tr key={platform} className="border-t border-gray-100">
+                <td className="p-2 font-medium text-gray-700 whitespace-nowrap">{name}</td>
+                {days.map(day => (
+                  <td key={day.toISOString()} className="p-1 align-top">
+                    <div className="space-y-1">
+                      {itemsFor(platform, day).map(item => (
+                        <div
+                          key={item.id}
+                          title={item.title}
+                          className={`px-1.5 py-1 rounded truncate max-w-[8rem] ${
+                            conflictingIds.has(item.id)
+                              ? 'bg-red-100 text-red-800 border border-red-300'
+                              : item.status === 'published'
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-purple-100 text-purple-800'
+                          }`}
+                        >
+                          {new Date(item.time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {item.title}
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PostingCalendar;
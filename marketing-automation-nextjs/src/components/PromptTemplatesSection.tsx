@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface PromptTemplate {
+  platform: string;
+  name: string;
+  template: string;
+  version: number | null;
+  defaultTemplate: string;
+}
+
+interface PromptTemplateVersion {
+  id: number;
+  version: number;
+  template: string;
+  revertedFrom: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+const PromptTemplatesSection: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [platform, setPlatform] = useState('');
+  const [draft, setDraft] = useState('');
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const selected = templates.find(template => template.platform === platform);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/prompt-templates');
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates || []);
+        setVariables(data.variables || []);
+        setPlatform(current => current || data.templates?.[0]?.platform || '');
+      }
+    } catch (error) {
+      console.error('Error fetching prompt templates:', error);
+    }
+  };
+
+  const fetchVersions = async (forPlatform: string) => {
+    try {
+      const response = await fetch(`/api/prompt-templates/${forPlatform}`);
+      if (response.ok) {
+        const data = await response.json();
+        setVersions(data.versions || []);
+        setDraft(data.template.template);
+      }
+    } catch (error) {
+      console.error('Error fetching prompt template versions:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (platform) fetchVersions(platform);
+  }, [platform]);
+
+  const reload = () => {
+    fetchTemplates();
+    fetchVersions(platform);
+  };
+
+  const handleSave = async () => {
+    try {
+      const response = await fetch(`/api/prompt-templates/${platform}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template: draft })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Saved ${selected?.name} template as version ${data.version.version}`, type: 'success' });
+        reload();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to save template', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error saving template', type: 'error' });
+    }
+  };
+
+  const handleRevert = async (version: number) => {
+    try {
+      const response = await fetch(`/api/prompt-templates/${platform}/versions/${version}/revert`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `Restored version ${version} as version ${data.version.version}`, type: 'success' });
+        reload();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to revert template', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error reverting template', type: 'error' });
+    }
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold flex items-center mb-6">
+        <i className="fa-solid fa-file-pen h-6 w-6 mr-3 text-blue-500"></i>
+        Prompt Templates
+      </h2>
+
+      <div className="flex items-center gap-3 mb-4">
+        <select
+          value={platform}
+          onChange={(e) => {
+            setPlatform(e.target.value);
+            setMessage(null);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {templates.map(template => (
+            <option key={template.platform} value={template.platform}>{template.name}</option>
+          ))}
+        </select>
+        {selected && (
+          <span className="text-sm text-gray-500">
+            {selected.version ? `Version ${selected.version}` : 'Built-in default'}
+          </span>
+        )}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={10}
+        className="form-input block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      />
+      <p className="mt-1 text-xs text-gray-500">
+        Available variables: {variables.map(name => `{{${name}}}`).join(', ')}
+      </p>
+
+      <div className="mt-4 flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!platform || !draft.trim() || draft === selected?.template}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <i className="fa-solid fa-save mr-2"></i>
+          Save as New Version
+        </button>
+        {selected && (
+          <button
+            onClick={() => setDraft(selected.defaultTemplate)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Load Default
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {versions.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">History</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {versions.map(version => (
+              <li key={version.id} className="py-2 flex justify-between items-center">
+                <span className="text-gray-700">
+                  Version {version.version}
+                  {version.revertedFrom && <span className="text-gray-500"> (restored from version {version.revertedFrom})</span>}
+                  <span className="ml-2 text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}{version.createdByName && ` by ${version.createdByName}`}
+                  </span>
+                </span>
+                {version.version !== selected?.version && (
+                  <button onClick={() => handleRevert(version.version)} className="text-blue-600 hover:text-blue-800">
+                    Revert
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PromptTemplatesSection;
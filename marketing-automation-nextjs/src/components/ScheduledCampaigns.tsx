@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LogEntry } from './MainApp';
+
+interface ScheduledCampaignsProps {
+  onLog: (message: string, type: LogEntry['type']) => void;
+}
+
+interface ScheduledCampaign {
+  id: number;
+  name: string;
+  status: 'active' | 'paused';
+  schedule: string;
+  mode: 'auto' | 'custom';
+  topic: string | null;
+  platforms: string[];
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
+interface ProviderOption {
+  name: string;
+  platform: string;
+}
+
+const emptyForm = {
+  name: '',
+  schedule: '0 9 * * 1-5',
+  mode: 'auto' as 'auto' | 'custom',
+  topic: '',
+  platforms: [] as string[]
+};
+
+const ScheduledCampaigns: React.FC<ScheduledCampaignsProps> = ({ onLog }) => {
+  const [campaigns, setCampaigns] = useState<ScheduledCampaign[]>([]);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/campaigns');
+      if (response.ok) {
+        const data = await response.json();
+        setCampaigns(data.campaigns || []);
+      }
+    } catch (error) {
+      console.error('Error fetching scheduled campaigns:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+
+    fetch('/api/publish/providers')
+      .then(response => response.json())
+      .then(data => setProviders(data.availableProviders || []))
+      .catch(error => console.error('Error checking publishing providers:', error));
+
+    // Refresh run times every minute
+    const interval = setInterval(fetchCampaigns, 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const togglePlatform = (platform: string) => {
+    setForm(prev => ({
+      ...prev,
+      platforms: prev.platforms.includes(platform)
+        ? prev.platforms.filter(p => p !== platform)
+        : [...prev.platforms, platform]
+    }));
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          topic: form.mode === 'custom' ? form.topic.trim() : undefined
+        })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        onLog(`Scheduled campaign "${data.campaign.name}" created`, 'success');
+        setForm(emptyForm);
+        setShowForm(false);
+        fetchCampaigns();
+      } else {
+        onLog(`Failed to create campaign: ${data.error?.message || 'Unknown error'}`, 'error');
+      }
+    } catch (error) {
+      onLog('Error creating scheduled campaign', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (campaign: ScheduledCampaign) => {
+    const action = campaign.status === 'active' ? 'pause' : 'resume';
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}/${action}`, { method: 'POST' });
+      if (response.ok) {
+        onLog(`Campaign "${campaign.name}" ${action === 'pause' ? 'paused' : 'resumed'}`, action === 'pause' ? 'warn' : 'success');
+        fetchCampaigns();
+      } else {
+        onLog(`Failed to ${action} campaign "${campaign.name}"`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error trying to ${action} campaign "${campaign.name}"`, 'error');
+    }
+  };
+
+  const handleDelete = async (campaign: ScheduledCampaign) => {
+    if (!confirm(`Delete scheduled campaign "${campaign.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        onLog(`Campaign "${campaign.name}" deleted`, 'warn');
+        fetchCampaigns();
+      } else {
+        onLog(`Failed to delete campaign "${campaign.name}"`, 'error');
+      }
+    } catch (error) {
+      onLog(`Error deleting campaign "${campaign.name}"`, 'error');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleString() : '—';
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">Scheduled Campaigns</h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          <i className={`fa-solid ${showForm ? 'fa-times' : 'fa-plus'} mr-1`}></i>
+          {showForm ? 'Cancel' : 'New Schedule'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Campaign name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <div>
+            <input
+              type="text"
+              value={form.schedule}
+              onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+              placeholder="Cron schedule, e.g. 0 9 * * 1-5"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm font-mono"
+            />
+            <p className="mt-1 text-xs text-gray-500">minute hour day-of-month month day-of-week (server time)</p>
+          </div>
+          <div className="flex space-x-4">
+            <label className="flex items-center text-sm">
+              <input
+                type="radio"
+                checked={form.mode === 'auto'}
+                onChange={() => setForm({ ...form, mode: 'auto' })}
+                className="mr-2"
+              />
+              Auto-discover
+            </label>
+            <label className="flex items-center text-sm">
+              <input
+                type="radio"
+                checked={form.mode === 'custom'}
+                onChange={() => setForm({ ...form, mode: 'custom' })}
+                className="mr-2"
+              />
+              Custom topic
+            </label>
+          </div>
+          {form.mode === 'custom' && (
+            <input
+              type="text"
+              value={form.topic}
+              onChange={(e) => setForm({ ...form, topic: e.target.value })}
+              placeholder="Topic"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          )}
+          {providers.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Platforms (none selected = all configured)</p>
+              <div className="flex flex-wrap gap-3">
+                {providers.map(provider => (
+                  <label key={provider.platform} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.platforms.includes(provider.platform)}
+                      onChange={() => togglePlatform(provider.platform)}
+                      className="mr-1"
+                    />
+                    {provider.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={saving || !form.name.trim() || !form.schedule.trim() || (form.mode === 'custom' && !form.topic.trim())}
+            className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {saving ? 'Saving...' : 'Create Schedule'}
+          </button>
+        </div>
+      )}
+
+      {campaigns.length === 0 ? (
+        <p className="text-sm text-gray-500">No scheduled campaigns yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {campaigns.map(campaign => (
+            <li key={campaign.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center">
+                    <span className="font-semibold text-gray-900">{campaign.name}</span>
+                    <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${campaign.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                      {campaign.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1 font-mono">{campaign.schedule}</div>
+                  <div className="text-xs text-gray-500">
+                    {campaign.mode === 'custom' ? `Topic: ${campaign.topic}` : 'Auto-discover'}
+                    {campaign.platforms.length > 0 && ` · ${campaign.platforms.join(', ')}`}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Next: {formatDate(campaign.nextRunAt)} · Last: {formatDate(campaign.lastRunAt)}
+                  </div>
+                </div>
+                <div className="flex space-x-2 ml-2">
+                  <button
+                    onClick={() => handleToggleStatus(campaign)}
+                    title={campaign.status === 'active' ? 'Pause' : 'Resume'}
+                    className="text-gray-600 hover:text-gray-900"
+                  >
+                    <i className={`fa-solid ${campaign.status === 'active' ? 'fa-pause' : 'fa-play'}`}></i>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(campaign)}
+                    title="Delete"
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <i className="fa-solid fa-trash"></i>
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledCampaigns;
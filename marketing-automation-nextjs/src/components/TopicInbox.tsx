@@ -0,0 +1,362 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { LogEntry } from './MainApp';
+
+interface TopicInboxProps {
+  onLog: (message: string, type: LogEntry['type']) => void;
+  permissions: string[];
+}
+
+interface TopicItem {
+  id: number;
+  title: string;
+  source: string;
+  sourceUrl: string | null;
+  description: string | null;
+  status: string;
+  pinned: boolean;
+  score: number | null;
+  scoreBreakdown: {
+    recency: number;
+    frequency: number;
+    relevance: number;
+    similarity: number;
+    matchedInterests: string[];
+  } | null;
+  sources: { title: string; source: string; url: string | null; publishedAt: string | null }[];
+  discoveredAt: string;
+}
+
+interface ProviderOption {
+  name: string;
+  platform: string;
+}
+
+const STATUS_FILTERS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'selected', label: 'Generating' },
+  { value: 'generated', label: 'Generated' },
+  { value: 'published', label: 'Published' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'expired', label: 'Expired' },
+  { value: '', label: 'All' }
+];
+
+const PAGE_SIZE = 20;
+
+const TopicInbox: React.FC<TopicInboxProps> = ({ onLog, permissions }) => {
+  const canManage = permissions.includes('campaigns:manage');
+
+  const [topics, setTopics] = useState<TopicItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState('pending');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [platforms, setPlatforms] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  const fetchTopics = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (status) params.set('status', status);
+      if (search.trim()) params.set('q', search.trim());
+
+      const response = await fetch(`/api/topics?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setTopics(data.topics || []);
+        setTotal(data.total || 0);
+      } else {
+        onLog('Failed to fetch topics', 'error');
+      }
+    } catch (error) {
+      onLog('Error fetching topics', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTopics();
+    setSelected([]);
+  }, [page, status]);
+
+  useEffect(() => {
+    fetch('/api/publish/providers')
+      .then(response => response.json())
+      .then(data => setProviders(data.availableProviders || []))
+      .catch(error => console.error('Error checking publishing providers:', error));
+  }, []);
+
+  const toggleSelected = (topicId: number) => {
+    setSelected(prev => prev.includes(topicId) ? prev.filter(id => id !== topicId) : [...prev, topicId]);
+  };
+
+  const togglePlatform = (platform: string) => {
+    setPlatforms(prev => prev.includes(platform) ? prev.filter(p => p !== platform) : [...prev, platform]);
+  };
+
+  // POST an action for each topic, logging failures; returns how many succeeded
+  const runAction = async (topicIds: number[], action: 'skip' | 'pin' | 'generate', body?: object) => {
+    let succeeded = 0;
+    for (const topicId of topicIds) {
+      try {
+        const post = (payload?: object) => fetch(`/api/topics/${topicId}/${action}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: payload ? JSON.stringify(payload) : undefined
+        });
+        let response = await post(body);
+        // Topics with posts still in review or published are only generated for again on request
+        if (response.status === 409 && action === 'generate') {
+          const { error } = await response.json();
+          if (!confirm(`${error?.message || 'This topic already has content'}.\n\nGenerate new posts anyway?`)) continue;
+          response = await post({ ...body, force: true });
+        }
+        if (response.ok) {
+          succeeded++;
+        } else {
+          const errorData = await response.json();
+          onLog(`Failed to ${action} topic ${topicId}: ${errorData.error?.message || 'Unknown error'}`, 'error');
+        }
+      } catch (error) {
+        onLog(`Error trying to ${action} topic ${topicId}`, 'error');
+      }
+    }
+    return succeeded;
+  };
+
+  const handleSkip = async (topicIds: number[]) => {
+    setWorking(true);
+    const skipped = await runAction(topicIds, 'skip');
+    if (skipped > 0) onLog(`Skipped ${skipped} topic(s)`, 'warn');
+    setSelected([]);
+    setWorking(false);
+    fetchTopics();
+  };
+
+  const handlePin = async (topic: TopicItem) => {
+    if (await runAction([topic.id], 'pin', { pinned: !topic.pinned })) {
+      onLog(`Topic "${topic.title}" ${topic.pinned ? 'unpinned' : 'pinned'}`, 'info');
+      fetchTopics();
+    }
+  };
+
+  const handleGenerate = async (topicIds: number[]) => {
+    setWorking(true);
+    const queued = await runAction(topicIds, 'generate', { platforms });
+    if (queued > 0) {
+      onLog(`Queued ${queued} campaign(s)${platforms.length > 0 ? ` for ${platforms.join(', ')}` : ''}. New posts will appear under Content.`, 'success');
+    }
+    setSelected([]);
+    setWorking(false);
+    fetchTopics();
+  };
+
+  const formatBreakdown = (topic: TopicItem) => {
+    const breakdown = topic.scoreBreakdown;
+    if (!breakdown) return 'Not scored yet';
+    const lines = [
+      `Recency ${breakdown.recency}`,
+      `Frequency ${breakdown.frequency}`,
+      `Relevance ${breakdown.relevance}${breakdown.matchedInterests.length > 0 ? ` (${breakdown.matchedInterests.join(', ')})` : ''}`,
+      `Similarity to recent posts ${breakdown.similarity}`
+    ];
+    return lines.join('\n');
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-gray-800">Topics</h2>
+        <button
+          onClick={fetchTopics}
+          disabled={loading}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <i className={`fa-solid fa-refresh mr-2 ${loading ? 'fa-spin' : ''}`}></i>
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          {STATUS_FILTERS.map(filter => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { setPage(1); fetchTopics(); } }}
+          placeholder="Search titles and descriptions"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+
+      {canManage && selected.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+          <div className="text-sm font-medium text-gray-700">{selected.length} selected</div>
+          {providers.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Platforms (none selected = all configured)</p>
+              <div className="flex flex-wrap gap-3">
+                {providers.map(provider => (
+                  <label key={provider.platform} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      checked={platforms.includes(provider.platform)}
+                      onChange={() => togglePlatform(provider.platform)}
+                      className="mr-1"
+                    />
+                    {provider.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleGenerate(selected)}
+              disabled={working}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <i className="fa-solid fa-bolt mr-2"></i>
+              Generate Now
+            </button>
+            {status === 'pending' && (
+              <button
+                onClick={() => handleSkip(selected)}
+                disabled={working}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <i className="fa-solid fa-ban mr-2"></i>
+                Skip Selected
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!loading && topics.length === 0 ? (
+        <p className="text-sm text-gray-500">No topics found. Run an auto-discover campaign to fetch trending topics.</p>
+      ) : (
+        <ul className="space-y-3">
+          {topics.map(topic => (
+            <li key={topic.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-start">
+                {canManage && (
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(topic.id)}
+                    onChange={() => toggleSelected(topic.id)}
+                    className="mt-1 mr-3"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center">
+                    {topic.pinned && <i className="fa-solid fa-thumbtack text-blue-600 mr-2" title="Pinned"></i>}
+                    {topic.sourceUrl ? (
+                      <a href={topic.sourceUrl} target="_blank" rel="noopener noreferrer" className="font-semibold text-gray-900 hover:text-blue-600">
+                        {topic.title}
+                      </a>
+                    ) : (
+                      <span className="font-semibold text-gray-900">{topic.title}</span>
+                    )}
+                    {topic.status !== 'pending' && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        {topic.status}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {Array.from(new Set(topic.sources.map(source => source.source))).join(', ')}
+                    {' · '}Discovered {new Date(topic.discoveredAt).toLocaleString()}
+                  </div>
+                  {topic.description && (
+                    <p className="text-sm text-gray-600 mt-1 line-clamp-2">{topic.description}</p>
+                  )}
+                  {topic.sources.length > 1 && (
+                    <details className="mt-1 text-xs text-gray-500">
+                      <summary className="cursor-pointer">{topic.sources.length} articles</summary>
+                      <ul className="mt-1 ml-4 list-disc">
+                        {topic.sources.map((source, index) => (
+                          <li key={index}>
+                            {source.url ? (
+                              <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600">{source.title}</a>
+                            ) : source.title}
+                            {' '}({source.source})
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+                <div className="ml-3 text-right">
+                  <div className="text-lg font-bold text-gray-800 cursor-help" title={formatBreakdown(topic)}>
+                    {topic.score !== null ? topic.score : '—'}
+                  </div>
+                  <div className="text-xs text-gray-500">score</div>
+                </div>
+              </div>
+              {canManage && topic.status !== 'selected' && (
+                <div className="flex space-x-3 mt-2 text-xs">
+                  {topic.status === 'pending' && (
+                    <button onClick={() => handlePin(topic)} className="text-blue-600 hover:text-blue-800">
+                      <i className="fa-solid fa-thumbtack mr-1"></i>
+                      {topic.pinned ? 'Unpin' : 'Pin'}
+                    </button>
+                  )}
+                  <button onClick={() => handleGenerate([topic.id])} disabled={working} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                    <i className="fa-solid fa-bolt mr-1"></i>
+                    Generate
+                  </button>
+                  {topic.status === 'pending' && (
+                    <button onClick={() => handleSkip([topic.id])} disabled={working} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                      <i className="fa-solid fa-ban mr-1"></i>
+                      Skip
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>Page {page} of {pageCount} · {total} topics</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopicInbox;
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface UserAccount {
+  id: number;
+  username: string;
+  role: string;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+const ROLES = ['admin', 'editor', 'approver', 'viewer'];
+
+const emptyForm = { username: '', password: '', role: 'editor' };
+
+const UsersSection: React.FC = () => {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users || []);
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `User ${data.user.username} created`, type: 'success' });
+        setForm(emptyForm);
+        fetchUsers();
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to create user', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error creating user', type: 'error' });
+    }
+  };
+
+  const handleRoleChange = async (user: UserAccount, role: string) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setMessage({ text: `${user.username} is now ${role}`, type: 'success' });
+      } else {
+        setMessage({ text: data.error?.message || 'Failed to update user', type: 'error' });
+      }
+      fetchUsers();
+    } catch (error) {
+      setMessage({ text: 'Error updating user', type: 'error' });
+    }
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold flex items-center mb-6">
+        <i className="fa-solid fa-users h-6 w-6 mr-3 text-blue-500"></i>
+        Users
+      </h2>
+
+      <table className="min-w-full text-sm mb-6">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-2 font-medium">Username</th>
+            <th className="py-2 font-medium">Role</th>
+            <th className="py-2 font-medium">Last login</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map(user => (
+            <tr key={user.id} className="border-t border-gray-100">
+              <td className="py-2 text-gray-900">{user.username}</td>
+              <td className="py-2">
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </td>
+              <td className="py-2 text-gray-500">
+                {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={form.username}
+          onChange={(e) => setForm({ ...form, username: e.target.value })}
+          placeholder="Username"
+          className="form-input flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+        <input
+          type="password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          placeholder="Password (min. 8 characters)"
+          autoComplete="new-password"
+          className="form-input flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+        <select
+          value={form.role}
+          onChange={(e) => setForm({ ...form, role: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={!form.username.trim() || !form.password}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          <i className="fa-solid fa-user-plus mr-2"></i>
+          Add User
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default UsersSection;
@@ -0,0 +1,18 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Background workers need Node APIs (sqlite3, timers), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    if (!process.env.JWT_SECRET) {
+      console.error('JWT_SECRET is not set, so nobody can sign in. Add it to .env.local or start the app with npm run start:marketing');
+    }
+
+    const { CampaignScheduler } = await import('./services/campaignScheduler.service');
+    const { CampaignJobQueue } = await import('./services/campaignJobs.service');
+    const { PublishDispatcher } = await import('./services/publishDispatcher.service');
+
+    CampaignScheduler.start();
+    PublishDispatcher.start();
+    // Resume any campaign jobs queued before the last shutdown
+    new CampaignJobQueue().startWorker();
+  }
+}
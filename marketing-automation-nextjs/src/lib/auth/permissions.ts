@@ -0,0 +1,80 @@
+// Roles, what they're allowed to do, and which permission each API route requires.
+// Kept free of Node APIs so the middleware (Edge runtime) can use it.
+
+export type UserRole = 'admin' | 'editor' | 'approver' | 'viewer';
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'approver', 'viewer'];
+
+export type Permission =
+  | 'content:read'
+  | 'content:edit'
+  | 'content:approve'
+  | 'campaigns:manage'
+  | 'config:manage'
+  | 'users:manage';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: ['content:read'],
+  editor: ['content:read', 'content:edit', 'campaigns:manage'],
+  approver: ['content:read', 'content:edit', 'content:approve'],
+  admin: ['content:read', 'content:edit', 'content:approve', 'campaigns:manage', 'config:manage', 'users:manage']
+};
+
+export function isUserRole(role: unknown): role is UserRole {
+  return USER_ROLES.includes(role as UserRole);
+}
+
+export function getPermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+// 'public' needs no session, 'authenticated' needs any signed-in user
+export type RouteAccess = Permission | 'public' | 'authenticated';
+
+interface RouteRule {
+  pattern: RegExp;
+  methods?: string[];
+  access: RouteAccess;
+}
+
+// First match wins
+const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/login$/, access: 'public' },
+  // The middleware itself calls auth/session to check a token against the database
+  { pattern: /^\/api\/auth\/(login|logout|setup|session)$/, access: 'public' },
+  { pattern: /^\/api\/auth\/me$/, access: 'authenticated' },
+  // Opened on a phone from the publish package's QR code; the signed token is the credential
+  { pattern: /^\/api\/handoff\/[\w.-]+$/, methods: ['GET'], access: 'public' },
+
+  { pattern: /^\/api\/config$/, access: 'config:manage' },
+  // Testing a feed makes the server fetch any URL it's given
+  { pattern: /^\/api\/feeds(\/|$)/, access: 'config:manage' },
+  { pattern: /^\/api\/users(\/|$)/, access: 'users:manage' },
+  // Brand voice and prompt wording apply to every campaign, so only admins change them
+  { pattern: /^\/api\/(brand-profiles|prompt-templates)(\/|$)/, methods: ['POST', 'PUT', 'PATCH', 'DELETE'], access: 'config:manage' },
+  // Lists the whole Drive folder, including documents no content links to
+  { pattern: /^\/api\/publish\/googledocs\/reconcile$/, access: 'config:manage' },
+  // The SQLite database lives under public/data
+  { pattern: /^\/data\//, access: 'config:manage' },
+
+  { pattern: /^\/api\/content\/\d+\/(approve|reject|publish|unpublish|schedule|mark-posted)$/, methods: ['POST', 'DELETE'], access: 'content:approve' },
+  { pattern: /^\/api\/content\/\d+\/(regenerate|translate|revisions\/\d+\/revert)$/, methods: ['POST'], access: 'content:edit' },
+  { pattern: /^\/api\/content\/\d+$/, methods: ['PATCH'], access: 'content:edit' },
+  { pattern: /^\/api\/content\/\d+\/image(\/regenerate)?$/, methods: ['POST', 'PUT', 'DELETE'], access: 'content:edit' },
+  { pattern: /^\/api\/assets$/, methods: ['POST'], access: 'content:edit' },
+  { pattern: /^\/api\/campaigns(\/|$)/, methods: ['POST', 'PATCH', 'DELETE'], access: 'campaigns:manage' },
+  // Triage decides what campaigns are run about
+  { pattern: /^\/api\/topics\/\d+\/(skip|pin|generate)$/, methods: ['POST'], access: 'campaigns:manage' }
+];
+
+export function getRouteAccess(method: string, pathname: string): RouteAccess {
+  const rule = ROUTE_RULES.find(rule => rule.pattern.test(pathname) && (!rule.methods || rule.methods.includes(method)));
+  if (rule) return rule.access;
+
+  // Anything else may be read by any user; unlisted changes are admin-only
+  return method === 'GET' || method === 'HEAD' ? 'content:read' : 'config:manage';
+}
@@ -0,0 +1,150 @@
+// Signed session tokens stored in a cookie, and other signed links such as the
+// XHS handoff page. Uses Web Crypto so the same code
+// runs in the middleware (Edge runtime) and in route handlers (Node).
+import { UserRole, isUserRole } from './permissions';
+import { AppError } from '../utils/errors';
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Headers the middleware sets on authenticated requests for route handlers to read
+const USER_ID_HEADER = 'x-user-id';
+const USER_NAME_HEADER = 'x-user-name';
+const USER_ROLE_HEADER = 'x-user-role';
+export const USER_HEADERS = [USER_ID_HEADER, USER_NAME_HEADER, USER_ROLE_HEADER];
+
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+// What a session token claims about its user. Changing a user's role or password bumps
+// their token version, which invalidates sessions signed before the change.
+export interface SessionClaims extends SessionUser {
+  tokenVersion: number;
+}
+
+interface SessionPayload {
+  sub: number;
+  name: string;
+  role: UserRole;
+  ver: number;
+  exp: number;
+}
+
+// There is no fallback: without a secret nobody can sign in. `npm run start:marketing`
+// generates one on first start; the Edge runtime can't read files, so it's passed in the environment.
+function getSessionSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new AppError('JWT_SECRET is not set. Add it to .env.local or start the app with npm run start:marketing', 500);
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// `<payload>.<signature>`, valid until payload.exp (seconds since the epoch)
+export async function createSignedToken(payload: { exp: number }): Promise<string> {
+  const encodedPayload = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The token's payload, or null if it is malformed, tampered with or expired
+export async function verifySignedToken(token: string | undefined): Promise<any | null> {
+  if (!token) return null;
+
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedPayload)));
+    if (typeof payload?.exp !== 'number' || payload.exp < Date.now() / 1000) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function createSessionToken(user: SessionClaims): Promise<string> {
+  const payload: SessionPayload = {
+    sub: user.id,
+    name: user.username,
+    role: user.role,
+    ver: user.tokenVersion,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS
+  };
+  return createSignedToken(payload);
+}
+
+// Returns the token's claims, or null if the token is missing, tampered with or expired.
+// Whether the user still exists with that role and version is checked against the database
+// by UserService.getSessionUser.
+export async function verifySessionToken(token: string | undefined): Promise<SessionClaims | null> {
+  const payload: SessionPayload | null = await verifySignedToken(token);
+  if (!payload || !isUserRole(payload.role) || typeof payload.ver !== 'number') return null;
+
+  return { id: payload.sub, username: payload.name, role: payload.role, tokenVersion: payload.ver };
+}
+
+export function setUserHeaders(headers: Headers, user: SessionUser): void {
+  headers.set(USER_ID_HEADER, String(user.id));
+  headers.set(USER_NAME_HEADER, encodeURIComponent(user.username));
+  headers.set(USER_ROLE_HEADER, user.role);
+}
+
+// The signed-in user for a request that has passed through the middleware
+export function getRequestUser(request: Request): SessionUser | null {
+  const id = parseInt(request.headers.get(USER_ID_HEADER) || '');
+  const role = request.headers.get(USER_ROLE_HEADER);
+  if (isNaN(id) || !isUserRole(role)) return null;
+
+  return {
+    id,
+    username: decodeURIComponent(request.headers.get(USER_NAME_HEADER) || ''),
+    role
+  };
+}
+
+export function sessionCookieOptions(maxAge: number = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge
+  };
+}
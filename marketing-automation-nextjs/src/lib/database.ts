@@ -2,6 +2,7 @@ import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs/promises';
+import { getConfig } from './utils/config';
 
 const dbPath = process.env.DATABASE_PATH || './public/data/marketing.db';
 const dbDir = path.dirname(dbPath);
@@ -31,6 +32,27 @@ export async function initializeDatabase() {
     (db as any).runAsync = promisify(db.run).bind(db);
     (db as any).getAsync = promisify(db.get).bind(db);
     (db as any).allAsync = promisify(db.all).bind(db);
+    // Like runAsync, but resolves with the rowid of the inserted row
+    (db as any).insertAsync = (sql: string, ...params: any[]) => new Promise<number>((resolve, reject) => {
+      db!.run(sql, ...params, function (this: sqlite3.RunResult, err: Error | null) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+
+    // Like runAsync, but resolves with the number of rows changed
+    (db as any).updateAsync = (sql: string, ...params: any[]) => new Promise<number>((resolve, reject) => {
+      db!.run(sql, ...params, function (this: sqlite3.RunResult, err: Error | null) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
 
     // Create tables
     await createTables();
@@ -54,6 +76,17 @@ async function createTables() {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )`,
 
+    // Users (dashboard accounts and their roles)
+    `CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      username TEXT UNIQUE NOT NULL,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'viewer',
+      token_version INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_login_at DATETIME
+    )`,
+
     // Topics table
     `CREATE TABLE IF NOT EXISTS topics (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -62,7 +95,48 @@ async function createTables() {
       source_url TEXT,
       discovered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       status TEXT DEFAULT 'pending',
-      processed_at DATETIME
+      processed_at DATETIME,
+      published_at DATETIME,
+      score REAL,
+      score_breakdown TEXT,
+      scored_at DATETIME,
+      description TEXT,
+      minhash TEXT,
+      minhash_version INTEGER,
+      pinned INTEGER DEFAULT 0
+    )`,
+
+    // RSS feeds trends are discovered from, with the health of their last fetches
+    `CREATE TABLE IF NOT EXISTS feeds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      url TEXT NOT NULL UNIQUE,
+      enabled INTEGER DEFAULT 1,
+      etag TEXT,
+      last_modified TEXT,
+      last_fetched_at DATETIME,
+      last_status INTEGER,
+      last_error TEXT,
+      last_item_count INTEGER,
+      consecutive_failures INTEGER DEFAULT 0,
+      disabled_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    // Every article that contributed to a topic; near-duplicate headlines from
+    // different feeds are merged into one topic
+    `CREATE TABLE IF NOT EXISTS topic_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      topic_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      source TEXT NOT NULL,
+      source_url TEXT,
+      description TEXT,
+      published_at DATETIME,
+      discovered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (topic_id, source, title),
+      FOREIGN KEY (topic_id) REFERENCES topics(id)
     )`,
 
     // Content table
@@ -79,6 +153,41 @@ async function createTables() {
       approved_at DATETIME,
       published_at DATETIME,
       published_url TEXT,
+      external_id TEXT,
+      scheduled_for DATETIME,
+      publish_error TEXT,
+      topic TEXT,
+      research_id INTEGER,
+      rejection_reason TEXT,
+      regenerated_from INTEGER,
+      approved_by INTEGER,
+      scheduled_by INTEGER,
+      published_by INTEGER,
+      ai_provider TEXT,
+      ai_model TEXT,
+      rule_violations TEXT,
+      brand_profile_id INTEGER,
+      locale TEXT,
+      translated_from INTEGER,
+      image_prompt TEXT,
+      asset_id INTEGER,
+      pending_publish_id TEXT,
+      publishing_started_at DATETIME,
+      FOREIGN KEY (topic_id) REFERENCES topics(id),
+      FOREIGN KEY (research_id) REFERENCES research(id),
+      FOREIGN KEY (asset_id) REFERENCES assets(id)
+    )`,
+
+    // Topic research (search results and the AI summary content was written from)
+    `CREATE TABLE IF NOT EXISTS research (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      topic_id INTEGER,
+      topic TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      sources TEXT,
+      provider TEXT,
+      model TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (topic_id) REFERENCES topics(id)
     )`,
 
@@ -87,6 +196,12 @@ async function createTables() {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       name TEXT NOT NULL,
       status TEXT DEFAULT 'active',
+      schedule TEXT,
+      mode TEXT DEFAULT 'auto',
+      topic TEXT,
+      platforms TEXT,
+      last_run_at DATETIME,
+      next_run_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )`,
@@ -100,26 +215,182 @@ async function createTables() {
       status TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (campaign_id) REFERENCES campaigns(id)
+    )`,
+
+    // Campaign jobs (background queue for campaign runs)
+    `CREATE TABLE IF NOT EXISTS campaign_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      campaign_id INTEGER,
+      mode TEXT NOT NULL DEFAULT 'auto',
+      custom_topic TEXT,
+      topic_id INTEGER,
+      force INTEGER DEFAULT 0,
+      platforms TEXT,
+      brand_profile_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'queued',
+      topic TEXT,
+      steps TEXT,
+      result TEXT,
+      error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      started_at DATETIME,
+      finished_at DATETIME,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (campaign_id) REFERENCES campaigns(id)
+    )`,
+
+    // Content revisions (every AI generation and human edit of a post)
+    `CREATE TABLE IF NOT EXISTS content_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      content_id INTEGER NOT NULL,
+      title TEXT,
+      body TEXT NOT NULL,
+      hashtags TEXT,
+      source TEXT NOT NULL DEFAULT 'human',
+      reverted_from INTEGER,
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (content_id) REFERENCES content(id)
+    )`,
+
+    // Brand voice profiles a campaign can be run with
+    `CREATE TABLE IF NOT EXISTS brand_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      tone TEXT,
+      language TEXT,
+      banned_phrases TEXT,
+      disclaimer TEXT,
+      cta TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+
+    // Prompt template versions per platform; the highest version is the one in use
+    `CREATE TABLE IF NOT EXISTS prompt_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      platform TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      template TEXT NOT NULL,
+      reverted_from INTEGER,
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (platform, version)
+    )`,
+
+    // Image library (generated and uploaded images; the files live under ASSETS_PATH)
+    `CREATE TABLE IF NOT EXISTS assets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      source TEXT NOT NULL,
+      prompt TEXT,
+      platform TEXT,
+      crops TEXT,
+      original_name TEXT,
+      created_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )`
   ];
 
+  const hasFeedsTable = await (db as any).getAsync(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'feeds'`);
+
   for (const query of queries) {
     await (db as any).runAsync(query);
   }
+
+  if (!hasFeedsTable) {
+    await importRssFeeds();
+  }
   
-  // Add migration for published_url column (for existing databases)
-  try {
-    await (db as any).runAsync(`ALTER TABLE content ADD COLUMN published_url TEXT`);
-  } catch (error: any) {
-    // Column already exists, ignore error
-    if (!error.message.includes('duplicate column name')) {
-      throw error;
+  // Add migrations for columns added after the initial schema (for existing databases)
+  const columnMigrations = [
+    `ALTER TABLE content ADD COLUMN published_url TEXT`,
+    `ALTER TABLE content ADD COLUMN external_id TEXT`,
+    `ALTER TABLE campaigns ADD COLUMN schedule TEXT`,
+    `ALTER TABLE campaigns ADD COLUMN mode TEXT DEFAULT 'auto'`,
+    `ALTER TABLE campaigns ADD COLUMN topic TEXT`,
+    `ALTER TABLE campaigns ADD COLUMN platforms TEXT`,
+    `ALTER TABLE campaigns ADD COLUMN last_run_at DATETIME`,
+    `ALTER TABLE campaigns ADD COLUMN next_run_at DATETIME`,
+    `ALTER TABLE campaign_jobs ADD COLUMN campaign_id INTEGER`,
+    `ALTER TABLE campaign_jobs ADD COLUMN platforms TEXT`,
+    `ALTER TABLE content ADD COLUMN scheduled_for DATETIME`,
+    `ALTER TABLE content ADD COLUMN publish_error TEXT`,
+    `ALTER TABLE content ADD COLUMN topic TEXT`,
+    `ALTER TABLE content ADD COLUMN research_id INTEGER`,
+    `ALTER TABLE content ADD COLUMN rejection_reason TEXT`,
+    `ALTER TABLE content ADD COLUMN regenerated_from INTEGER`,
+    `ALTER TABLE content ADD COLUMN approved_by INTEGER`,
+    `ALTER TABLE content ADD COLUMN scheduled_by INTEGER`,
+    `ALTER TABLE content ADD COLUMN published_by INTEGER`,
+    `ALTER TABLE content_revisions ADD COLUMN created_by INTEGER`,
+    `ALTER TABLE content ADD COLUMN ai_provider TEXT`,
+    `ALTER TABLE content ADD COLUMN ai_model TEXT`,
+    `ALTER TABLE content ADD COLUMN rule_violations TEXT`,
+    `ALTER TABLE content ADD COLUMN brand_profile_id INTEGER`,
+    `ALTER TABLE campaign_jobs ADD COLUMN brand_profile_id INTEGER`,
+    `ALTER TABLE content ADD COLUMN locale TEXT`,
+    `ALTER TABLE content ADD COLUMN translated_from INTEGER`,
+    `ALTER TABLE content ADD COLUMN image_prompt TEXT`,
+    `ALTER TABLE content ADD COLUMN asset_id INTEGER`,
+    `ALTER TABLE topics ADD COLUMN published_at DATETIME`,
+    `ALTER TABLE topics ADD COLUMN score REAL`,
+    `ALTER TABLE topics ADD COLUMN score_breakdown TEXT`,
+    `ALTER TABLE topics ADD COLUMN scored_at DATETIME`,
+    `ALTER TABLE topics ADD COLUMN description TEXT`,
+    `ALTER TABLE topics ADD COLUMN minhash TEXT`,
+    `ALTER TABLE topics ADD COLUMN minhash_version INTEGER`,
+    `ALTER TABLE topics ADD COLUMN pinned INTEGER DEFAULT 0`,
+    `ALTER TABLE campaign_jobs ADD COLUMN topic_id INTEGER`,
+    `ALTER TABLE campaign_jobs ADD COLUMN force INTEGER DEFAULT 0`,
+    `ALTER TABLE content ADD COLUMN pending_publish_id TEXT`,
+    `ALTER TABLE content ADD COLUMN publishing_started_at DATETIME`,
+    `ALTER TABLE users ADD COLUMN token_version INTEGER NOT NULL DEFAULT 0`
+  ];
+
+  for (const migration of columnMigrations) {
+    try {
+      await (db as any).runAsync(migration);
+    } catch (error: any) {
+      // Column already exists, ignore error
+      if (!error.message.includes('duplicate column name')) {
+        throw error;
+      }
     }
   }
 
+  // Topics marked 'processed' before the topic lifecycle had content generated for them
+  await (db as any).runAsync(`UPDATE topics SET status = 'generated' WHERE status = 'processed'`);
+
   console.log('Database tables created successfully');
 }
 
+// Feeds used to be a JSON array in user-config.json (or RSS_FEEDS); copy them into
+// the feeds table the first time it is created
+async function importRssFeeds() {
+  let feeds = await getConfig('rssFeeds');
+  if (!Array.isArray(feeds)) {
+    feeds = [
+      { url: 'https://techcrunch.com/feed/', name: 'TechCrunch' },
+      { url: 'https://www.theverge.com/rss/index.xml', name: 'The Verge' }
+    ];
+  }
+
+  feeds = feeds.filter((feed: any) => typeof feed?.url === 'string' && feed.url.trim());
+  for (const feed of feeds) {
+    await (db as any).runAsync(
+      'INSERT OR IGNORE INTO feeds (name, url) VALUES (?, ?)',
+      (typeof feed.name === 'string' && feed.name.trim()) || feed.url.trim(),
+      feed.url.trim()
+    );
+  }
+  console.log(`Imported ${feeds.length} RSS feed(s) into the feeds table`);
+}
+
 export async function getDb(): Promise<sqlite3.Database> {
   if (!db) {
     await initializeDatabase();
@@ -133,5 +404,7 @@ declare module 'sqlite3' {
     runAsync(sql: string, ...params: any[]): Promise<sqlite3.RunResult>;
     getAsync(sql: string, ...params: any[]): Promise<any>;
     allAsync(sql: string, ...params: any[]): Promise<any[]>;
+    insertAsync(sql: string, ...params: any[]): Promise<number>;
+    updateAsync(sql: string, ...params: any[]): Promise<number>;
   }
 }
\ No newline at end of file
@@ -1,27 +1,130 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { logger } from './logger';
+import { SECRET_KEYS, SecretKey, isSecretKey, loadSecrets, saveSecrets } from './secrets';
+import { Locale } from './locales';
 
 const USER_CONFIG_PATH = path.join(process.cwd(), 'user-config.json');
 
+// Used until image generation is switched off in settings or with GENERATE_IMAGES=false
+export const DEFAULT_GENERATE_IMAGES = true;
+
+export const LLM_PROVIDER_IDS = ['openai', 'gemini', 'lmstudio', 'ollama', 'anthropic', 'openai-compatible'] as const;
+
+export type LLMProviderId = typeof LLM_PROVIDER_IDS[number];
+
+// Per-provider overrides; anything left unset uses the provider's defaults
+export interface LLMProviderSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Server URL for local and self-hosted providers
+  baseUrl?: string;
+}
+
 export interface UserConfig {
   serpApiKey: string;
+  // AI provider used for research and content generation (default: openai)
+  aiProvider?: LLMProviderId;
+  // Tried in order when the primary provider fails or is rate limited
+  aiFallbackProviders?: LLMProviderId[];
   openAiKey: string;
+  geminiApiKey?: string;
+  anthropicApiKey?: string;
+  openAiCompatibleApiKey?: string;
+  llmProviders?: Partial<Record<LLMProviderId, LLMProviderSettings>>;
   wechatAppId: string;
   wechatAppSecret: string;
+  wechatApiBaseUrl?: string;
+  wechatDefaultThumbMediaId?: string;
   xhsCookie: string;
   googleDocsCredentials: string;
   googleDocsFolderId: string;
-  rssFeeds: Array<{ url: string; name: string }>;
+  // Superseded by the feeds table; only read once, to import into it
+  rssFeeds?: Array<{ url: string; name: string }>;
+  // Keywords the brand cares about; trending topics that mention them rank higher
+  brandInterests?: string[];
+  // Pending topics whose article is older than this many days expire (default 7)
+  topicMaxAgeDays?: number;
+  // Minimum minutes between two scheduled posts on the same platform
+  publishMinGapMinutes?: number;
+  // Words and phrases no post may contain (case-insensitive)
+  forbiddenWords?: string[];
+  // Refuse to approve posts that break a platform's hard limits or use a forbidden word
+  blockApprovalOnHardViolations?: boolean;
+  // Language each platform's posts are written in, overriding the publisher default
+  platformLocales?: Record<string, Locale>;
+  // Every generated post is also translated into these languages, as linked drafts
+  translationLocales?: Locale[];
+  // Generate a cover image for every post (needs an OpenAI API key)
+  generateImages?: boolean;
   updatedAt?: string;
 }
 
+// Settings come from user-config.json; API keys and credentials are merged in
+// from the encrypted secrets store
 export async function loadUserConfig(): Promise<UserConfig | null> {
+  let settings: Record<string, any> | null = null;
   try {
     const data = await fs.readFile(USER_CONFIG_PATH, 'utf8');
-    return JSON.parse(data);
+    settings = JSON.parse(data);
   } catch (error) {
+    settings = null;
+  }
+
+  if (settings && SECRET_KEYS.some(key => key in settings!)) {
+    settings = await migratePlaintextSecrets(settings);
+  }
+
+  const secrets = await loadSecrets();
+  if (!settings && Object.keys(secrets).length === 0) {
     return null;
   }
+
+  return { ...settings, ...secrets } as UserConfig;
+}
+
+// Writes settings to user-config.json and applies secret changes to the encrypted
+// store (see saveSecrets for how omitted and empty values are treated)
+export async function saveUserConfig(
+  settings: Omit<UserConfig, SecretKey>,
+  secrets: Partial<Record<SecretKey, string | null>>
+): Promise<void> {
+  await saveSecrets(secrets);
+  await fs.writeFile(USER_CONFIG_PATH, JSON.stringify(stripSecrets(settings), null, 2), 'utf8');
+}
+
+// Config files written before the secrets store held keys in plaintext; move
+// them into the store and rewrite the file without them
+async function migratePlaintextSecrets(settings: Record<string, any>): Promise<Record<string, any>> {
+  const secrets: Partial<Record<SecretKey, string>> = {};
+  for (const key of SECRET_KEYS) {
+    if (settings[key]) {
+      secrets[key] = settings[key];
+    }
+  }
+
+  const remaining = stripSecrets(settings);
+  await saveSecrets(secrets);
+  await fs.writeFile(USER_CONFIG_PATH, JSON.stringify(remaining, null, 2), 'utf8');
+  logger.info(`Moved ${Object.keys(secrets).length} plaintext secret(s) from user-config.json into the encrypted store`);
+
+  return remaining;
+}
+
+function stripSecrets(settings: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([key]) => !isSecretKey(key))
+  );
+}
+
+// Whether campaigns generate a cover image for every post. Read directly rather than through
+// getConfig, which can't tell a saved `false` from a setting that was never saved.
+export async function shouldGenerateImages(): Promise<boolean> {
+  const configured = (await loadUserConfig())?.generateImages;
+  if (typeof configured === 'boolean') return configured;
+  if (process.env.GENERATE_IMAGES) return process.env.GENERATE_IMAGES === 'true';
+  return DEFAULT_GENERATE_IMAGES;
 }
 
 // Helper to get config with fallback to env vars for backward compatibility
@@ -35,13 +138,29 @@ export async function getConfig(key: keyof UserConfig): Promise<string | any> {
   // Fallback to environment variables
   const envMapping: Record<keyof UserConfig, string> = {
     serpApiKey: 'SERPAPI_KEY',
+    aiProvider: 'AI_PROVIDER',
+    aiFallbackProviders: 'AI_FALLBACK_PROVIDERS',
     openAiKey: 'OPENAI_API_KEY',
+    geminiApiKey: 'GEMINI_API_KEY',
+    anthropicApiKey: 'ANTHROPIC_API_KEY',
+    openAiCompatibleApiKey: 'OPENAI_COMPATIBLE_API_KEY',
+    llmProviders: '',
     wechatAppId: 'WECHAT_APP_ID',
     wechatAppSecret: 'WECHAT_APP_SECRET',
+    wechatApiBaseUrl: 'WECHAT_API_BASE_URL',
+    wechatDefaultThumbMediaId: 'WECHAT_DEFAULT_THUMB_MEDIA_ID',
     xhsCookie: 'XHS_COOKIE',
     googleDocsCredentials: 'GOOGLE_DOCS_CREDENTIALS_PATH',
     googleDocsFolderId: 'GOOGLE_DOCS_FOLDER_ID',
     rssFeeds: 'RSS_FEEDS',
+    brandInterests: 'BRAND_INTERESTS',
+    topicMaxAgeDays: 'TOPIC_MAX_AGE_DAYS',
+    publishMinGapMinutes: 'PUBLISH_MIN_GAP_MINUTES',
+    forbiddenWords: 'FORBIDDEN_WORDS',
+    blockApprovalOnHardViolations: 'BLOCK_APPROVAL_ON_HARD_VIOLATIONS',
+    platformLocales: '',
+    translationLocales: 'TRANSLATION_LOCALES',
+    generateImages: 'GENERATE_IMAGES',
     updatedAt: ''
   };
   
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextCronRun, isValidCron, parseCron } from './cron';
+
+// Dates are built and compared in local time, like the scheduler evaluates them
+const at = (year: number, month: number, day: number, hour: number = 0, minute: number = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+test('rejects malformed expressions', () => {
+  assert.throws(() => parseCron('0 9 * *'), /5 fields/);
+  assert.throws(() => parseCron('60 * * * *'), /allowed 0-59/);
+  assert.throws(() => parseCron('0 5-1 * * *'), /Invalid value/);
+  assert.throws(() => parseCron('*/0 * * * *'), /Invalid step/);
+  assert.throws(() => parseCron('0 9 * 13 *'), /allowed 1-12/);
+});
+
+test('expands ranges, lists and steps', () => {
+  const schedule = parseCron('0-30/10 1,5 * * 1-5');
+  assert.deepEqual([...schedule.minute.values], [0, 10, 20, 30]);
+  assert.deepEqual([...schedule.hour.values], [1, 5]);
+  assert.deepEqual([...schedule.dayOfWeek.values], [1, 2, 3, 4, 5]);
+});
+
+test('weekday mornings skip the weekend', () => {
+  // Friday 3 January 2025, just after the run
+  assert.deepEqual(getNextCronRun('0 9 * * 1-5', at(2025, 1, 3, 9, 0)), at(2025, 1, 6, 9, 0));
+});
+
+test('the next run is strictly after the start time', () => {
+  const from = new Date(at(2025, 1, 3, 9, 0).getTime() + 30 * 1000);
+  assert.deepEqual(getNextCronRun('0 9 * * *', from), at(2025, 1, 4, 9, 0));
+  assert.deepEqual(getNextCronRun('*/15 * * * *', at(2025, 1, 3, 10, 7)), at(2025, 1, 3, 10, 15));
+});
+
+test('restricted day-of-month and day-of-week match either', () => {
+  // The 13th or any Friday: Friday 3 January comes first
+  assert.deepEqual(getNextCronRun('0 0 13 * 5', at(2025, 1, 1)), at(2025, 1, 3));
+});
+
+test('7 is Sunday', () => {
+  assert.deepEqual(getNextCronRun('0 0 * * 7', at(2025, 1, 1)), at(2025, 1, 5));
+});
+
+test('rolls over months and years', () => {
+  assert.deepEqual(getNextCronRun('0 0 1 1 *', at(2025, 6, 1)), at(2026, 1, 1));
+  assert.deepEqual(getNextCronRun('0 12 29 2 *', at(2025, 1, 1)), at(2028, 2, 29, 12, 0));
+});
+
+test('dates that never occur are invalid', () => {
+  assert.equal(isValidCron('0 0 30 2 *'), false);
+  assert.equal(isValidCron('0 9 * * 1-5'), true);
+});
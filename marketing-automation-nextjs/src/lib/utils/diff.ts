@@ -0,0 +1,76 @@
+// Line-based diff for comparing content revisions side by side.
+
+export type DiffLineType = 'same' | 'removed' | 'added' | 'empty';
+
+export interface DiffLine {
+  text: string;
+  type: DiffLineType;
+}
+
+export interface DiffRow {
+  left: DiffLine;
+  right: DiffLine;
+}
+
+type DiffOp = { type: 'same' | 'removed' | 'added'; text: string };
+
+// Longest-common-subsequence edit script between two lists of lines
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', text: before[i++] });
+    } else {
+      ops.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: 'removed', text: before[i++] });
+  while (j < after.length) ops.push({ type: 'added', text: after[j++] });
+
+  return ops;
+}
+
+// Pair up removed and added lines so changed lines sit next to each other
+export function diffLines(before: string, after: string): DiffRow[] {
+  const ops = diffOps(before.split('\n'), after.split('\n'));
+  const empty: DiffLine = { text: '', type: 'empty' };
+  const rows: DiffRow[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === 'same') {
+      rows.push({ left: { ...ops[index] }, right: { ...ops[index] } });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < ops.length && ops[index].type !== 'same') {
+      (ops[index].type === 'removed' ? removed : added).push({ ...ops[index] });
+      index++;
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] || empty, right: added[k] || empty });
+    }
+  }
+
+  return rows;
+}
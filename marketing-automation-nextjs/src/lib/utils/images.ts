@@ -0,0 +1,95 @@
+// Image format detection and geometry, read straight from the file header so no
+// image library is needed
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] as const;
+
+export type ImageMimeType = typeof IMAGE_MIME_TYPES[number];
+
+export const IMAGE_EXTENSIONS: Record<ImageMimeType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// The area of an image to show on a platform, in pixels from the top left
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Detect the format from the file's magic bytes rather than trusting the declared type
+export function detectImageType(data: Buffer): ImageMimeType | null {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return 'image/png';
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (data.length >= 6 && data.toString('ascii', 0, 3) === 'GIF') return 'image/gif';
+  return null;
+}
+
+export function readImageSize(data: Buffer): ImageSize | null {
+  try {
+    switch (detectImageType(data)) {
+      case 'image/png':
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+      case 'image/gif':
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+      case 'image/webp':
+        return readWebpSize(data);
+      case 'image/jpeg':
+        return readJpegSize(data);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
+
+function readWebpSize(data: Buffer): ImageSize | null {
+  const chunk = data.toString('ascii', 12, 16);
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  return null;
+}
+
+// Walk the JPEG segments until a start-of-frame marker, which holds the dimensions
+function readJpegSize(data: Buffer): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+// The largest centred area of the image with the given width / height ratio
+export function centerCrop(size: ImageSize, aspectRatio: number): ImageCrop {
+  if (size.width / size.height > aspectRatio) {
+    const width = Math.round(size.height * aspectRatio);
+    return { x: Math.floor((size.width - width) / 2), y: 0, width, height: size.height };
+  }
+  const height = Math.round(size.width / aspectRatio);
+  return { x: 0, y: Math.floor((size.height - height) / 2), width: size.width, height };
+}
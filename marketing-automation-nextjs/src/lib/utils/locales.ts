@@ -0,0 +1,23 @@
+// Languages posts can be written in. Kept free of Node APIs so client components can use it.
+
+export const LOCALES = ['zh-CN', 'zh-TW', 'en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+interface LocaleInfo {
+  // Language name used in prompts and the UI
+  name: string;
+  // SerpAPI interface language (hl) and country (gl)
+  searchLanguage: string;
+  searchCountry: string;
+}
+
+export const LOCALE_INFO: Record<Locale, LocaleInfo> = {
+  'zh-CN': { name: 'Simplified Chinese', searchLanguage: 'zh-cn', searchCountry: 'cn' },
+  'zh-TW': { name: 'Traditional Chinese', searchLanguage: 'zh-tw', searchCountry: 'tw' },
+  en: { name: 'English', searchLanguage: 'en', searchCountry: 'us' }
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
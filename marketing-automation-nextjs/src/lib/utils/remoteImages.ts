@@ -0,0 +1,103 @@
+// Downloading post images from other servers. Only hosts listed in IMAGE_HOST_ALLOWLIST
+// are fetched, never at a private, loopback or link-local address, so a stored image URL
+// can't make the server reach into its own network (e.g. 169.254.169.254 or localhost).
+import axios from 'axios';
+import dns from 'dns';
+import net from 'net';
+import { AppError } from './errors';
+import { ImageMimeType, detectImageType } from './images';
+
+const MAX_REMOTE_IMAGE_BYTES = 10 * 1024 * 1024;
+const REMOTE_IMAGE_TIMEOUT_MS = 30000;
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+function getAllowedHosts(): string[] {
+  return (process.env.IMAGE_HOST_ALLOWLIST || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4 addresses mapped into IPv6 (::ffff:127.0.0.1) are checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped, 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Resolves like dns.lookup, but fails for blocked addresses. Used for the connection itself,
+// so a host can't pass a check and then resolve somewhere else.
+function safeLookup(hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(new AppError(`Image host ${hostname} resolves to a private address (${blocked.address})`, 400));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Download an image from an allowed host. Redirects aren't followed and responses over
+// MAX_REMOTE_IMAGE_BYTES are cut off; the type comes from the bytes, not the headers.
+export async function fetchRemoteImage(imageUrl: string): Promise<{ data: Buffer; mimeType: ImageMimeType }> {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    throw new AppError(`The post's image ${imageUrl} is not a valid URL`, 400);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new AppError(`The post's image ${imageUrl} is not an http(s) URL`, 400);
+  }
+  if (!getAllowedHosts().includes(url.hostname.toLowerCase())) {
+    throw new AppError(`Images from ${url.hostname} aren't allowed. Add the image to the asset library, or add the host to IMAGE_HOST_ALLOWLIST`, 400);
+  }
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isBlockedAddress(literal)) {
+    throw new AppError(`Images can't be loaded from the private address ${url.hostname}`, 400);
+  }
+
+  let data: Buffer;
+  try {
+    const response = await axios.get(url.toString(), {
+      responseType: 'arraybuffer',
+      timeout: REMOTE_IMAGE_TIMEOUT_MS,
+      maxRedirects: 0,
+      maxContentLength: MAX_REMOTE_IMAGE_BYTES,
+      lookup: safeLookup as any
+    });
+    data = Buffer.from(response.data);
+  } catch (error: any) {
+    if (error instanceof AppError) throw error;
+    if (error.cause instanceof AppError) throw error.cause;
+    throw new AppError(`The post's image could not be downloaded: ${error.message}`, 502);
+  }
+
+  const mimeType = detectImageType(data);
+  if (!mimeType) {
+    throw new AppError(`The post's image ${imageUrl} is not a PNG, JPEG, WebP or GIF image`, 400);
+  }
+  return { data, mimeType };
+}
@@ -0,0 +1,176 @@
+// Encrypted-at-rest store for API keys and credentials. Each value is sealed
+// with AES-256-GCM under a master key taken from CONFIG_ENCRYPTION_KEY, or outside
+// production from a random key generated into MASTER_KEY_PATH on first use.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+const SECRETS_PATH = path.join(process.cwd(), 'user-secrets.json');
+const MASTER_KEY_PATH = path.join(process.cwd(), '.config-encryption-key');
+const PAYLOAD_VERSION = 'v1';
+// Earlier versions sealed secrets under this fixed key when CONFIG_ENCRYPTION_KEY was
+// unset. It is only used to read such stores so they can be sealed again under the real key.
+const LEGACY_FALLBACK_SECRET = 'development-only-config-key';
+
+let generatedKey: string | null = null;
+
+// User config fields that are kept out of user-config.json and never returned in clear
+export const SECRET_KEYS = [
+  'serpApiKey',
+  'openAiKey',
+  'geminiApiKey',
+  'anthropicApiKey',
+  'openAiCompatibleApiKey',
+  'wechatAppSecret',
+  'xhsCookie',
+  'googleDocsCredentials'
+] as const;
+
+export type SecretKey = typeof SECRET_KEYS[number];
+
+export function isSecretKey(key: string): key is SecretKey {
+  return (SECRET_KEYS as readonly string[]).includes(key);
+}
+
+function getMasterSecret(): string {
+  const secret = process.env.CONFIG_ENCRYPTION_KEY;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('CONFIG_ENCRYPTION_KEY must be set in production');
+  }
+  if (!generatedKey) {
+    generatedKey = readOrCreateKeyFile();
+  }
+  return generatedKey;
+}
+
+// Readable only by the user running the app. Losing the file makes the stored secrets unreadable.
+function readOrCreateKeyFile(): string {
+  try {
+    writeFileSync(MASTER_KEY_PATH, randomBytes(32).toString('base64'), { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+    logger.warn(`CONFIG_ENCRYPTION_KEY is not set; generated a master key in ${MASTER_KEY_PATH}`);
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') throw error;
+  }
+  return readFileSync(MASTER_KEY_PATH, 'utf8').trim();
+}
+
+// Hash so any sufficiently random string can be used as the key
+function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+function getMasterKey(): Buffer {
+  return deriveKey(getMasterSecret());
+}
+
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [PAYLOAD_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptSecret(payload: string, key: Buffer = getMasterKey()): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== PAYLOAD_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Unrecognised secret payload');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Shows just enough of a secret to recognise it, e.g. "sk-...a1b2"
+export function maskSecret(value: string | undefined): string {
+  if (!value) return '';
+  if (value.length <= 12) return '****';
+  return `${value.slice(0, 3)}...${value.slice(-4)}`;
+}
+
+// A missing file means no secrets are stored yet. A file that can't be read or parsed
+// throws, so it is never mistaken for an empty store and overwritten.
+async function readSealedSecrets(): Promise<Record<string, string>> {
+  let data: string;
+  try {
+    data = await fs.readFile(SECRETS_PATH, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+
+  let sealed: unknown;
+  try {
+    sealed = JSON.parse(data);
+  } catch (error: any) {
+    throw new Error(`${SECRETS_PATH} is corrupt (${error.message}); restore it from a backup or delete it to start over`);
+  }
+  if (!sealed || typeof sealed !== 'object' || Array.isArray(sealed)) {
+    throw new Error(`${SECRETS_PATH} is corrupt (not a JSON object); restore it from a backup or delete it to start over`);
+  }
+  return sealed as Record<string, string>;
+}
+
+export async function loadSecrets(): Promise<Partial<Record<SecretKey, string>>> {
+  let sealed: Record<string, string>;
+  try {
+    sealed = await readSealedSecrets();
+  } catch (error) {
+    // Settings still load without the secrets; saving them is refused until the file is fixed
+    logger.error('Could not read stored secrets:', error);
+    return {};
+  }
+  const secrets: Partial<Record<SecretKey, string>> = {};
+  const legacy: Partial<Record<SecretKey, string>> = {};
+
+  for (const key of SECRET_KEYS) {
+    if (!sealed[key]) continue;
+    try {
+      secrets[key] = decryptSecret(sealed[key]);
+    } catch {
+      try {
+        legacy[key] = decryptSecret(sealed[key], deriveKey(LEGACY_FALLBACK_SECRET));
+        secrets[key] = legacy[key];
+      } catch {
+        // Wrong master key or a corrupted entry; treat the secret as unset
+        logger.error(`Could not decrypt stored secret "${key}"`);
+      }
+    }
+  }
+
+  if (Object.keys(legacy).length > 0) {
+    await saveSecrets(legacy);
+    logger.info(`Re-encrypted ${Object.keys(legacy).length} secret(s) stored under the old built-in key`);
+  }
+
+  return secrets;
+}
+
+// Write-only update: a value replaces the stored secret, null or "" removes it,
+// and keys that are left out keep their current value
+export async function saveSecrets(changes: Partial<Record<SecretKey, string | null>>): Promise<void> {
+  const sealed = await readSealedSecrets();
+
+  for (const key of SECRET_KEYS) {
+    const value = changes[key];
+    if (value === undefined) continue;
+
+    if (value === null || value === '') {
+      delete sealed[key];
+    } else {
+      sealed[key] = encryptSecret(value);
+    }
+  }
+
+  // Written to a temporary file and renamed over the store, so a crash mid-write
+  // leaves the previous secrets intact
+  const tempPath = `${SECRETS_PATH}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(sealed, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempPath, SECRETS_PATH);
+}
@@ -0,0 +1,24 @@
+// Fills `{{name}}` and `{{group.name}}` placeholders in prompt templates
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string | Record<string, string>>;
+
+// Unknown placeholders render as an empty string
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => lookup(variables, name) ?? '');
+}
+
+// Distinct placeholder names used in a template, e.g. ['topic', 'brand.tone']
+export function getPlaceholders(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+function lookup(variables: TemplateVariables, name: string): string | undefined {
+  const [group, key] = name.split('.', 2);
+  const value = variables[group];
+  if (key === undefined) {
+    return typeof value === 'string' ? value : undefined;
+  }
+  return typeof value === 'object' ? value[key] : undefined;
+}
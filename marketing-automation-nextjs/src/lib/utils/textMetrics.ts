@@ -0,0 +1,78 @@
+// Text measurements used by the platform content rules. Chinese, Japanese and
+// Korean text has no spaces between words, so every CJK character counts as one
+// word, the way WeChat and Xiao Hongshu editors count length.
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const CJK_GLOBAL_PATTERN = new RegExp(CJK_PATTERN.source, 'gu');
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+// '#tag' or XHS-style '#tag#'; the tag ends at whitespace or the next '#'
+const HASHTAG_PATTERN = /#([^\s#]+)#?/gu;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// Visible characters: an emoji or a character with combining marks counts once
+export function countCharacters(text: string | null | undefined): number {
+  if (!text) return 0;
+  return Array.from(segmenter.segment(text)).length;
+}
+
+export function countWords(text: string | null | undefined): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_GLOBAL_PATTERN) || []).length;
+  const otherWords = text
+    .replace(CJK_GLOBAL_PATTERN, ' ')
+    .replace(EMOJI_PATTERN, ' ')
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word));
+  return cjkCount + otherWords.length;
+}
+
+// Whether most of the words countWords finds are CJK characters
+export function isMostlyCjk(text: string | null | undefined): boolean {
+  if (!text) return false;
+  const cjkCount = (text.match(CJK_GLOBAL_PATTERN) || []).length;
+  return cjkCount > countWords(text) / 2;
+}
+
+// A ZWJ sequence such as a family emoji counts as one emoji
+export function countEmojis(text: string | null | undefined): number {
+  if (!text) return 0;
+  return Array.from(segmenter.segment(text))
+    .filter(({ segment }) => /\p{Extended_Pictographic}/u.test(segment))
+    .length;
+}
+
+// Distinct hashtags across the given texts, compared case-insensitively
+export function extractHashtags(...texts: (string | null | undefined)[]): string[] {
+  const tags = new Map<string, string>();
+  for (const text of texts) {
+    for (const match of (text || '').matchAll(HASHTAG_PATTERN)) {
+      const tag = match[1].replace(/[.,!?;:，。！？；：]+$/u, '');
+      if (tag && !tags.has(tag.toLowerCase())) {
+        tags.set(tag.toLowerCase(), tag);
+      }
+    }
+  }
+  return Array.from(tags.values());
+}
+
+// Forbidden words found in the text
+export function findForbiddenWords(text: string | null | undefined, forbiddenWords: string[]): string[] {
+  return findTerms(text, forbiddenWords);
+}
+
+// Terms found in the text, compared case-insensitively. Latin words must match
+// whole words; CJK terms match anywhere since CJK text has no word boundaries.
+export function findTerms(text: string | null | undefined, terms: string[]): string[] {
+  if (!text) return [];
+  const lowerText = text.toLowerCase();
+
+  return terms.filter(word => {
+    const term = word.trim().toLowerCase();
+    if (!term) return false;
+    if (CJK_PATTERN.test(term)) return lowerText.includes(term);
+
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u').test(lowerText);
+  });
+}
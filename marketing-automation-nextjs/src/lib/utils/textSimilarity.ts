@@ -0,0 +1,130 @@
+// Word-level comparison of short texts such as headlines and post titles. CJK
+// text has no spaces, so runs of CJK characters are split into overlapping
+// two-character tokens instead of words. Words are lowercased, possessives are
+// dropped and plurals are reduced to the singular, so "Models" and "model" or
+// "OpenAI's" and "OpenAI" compare equal.
+
+const CJK_RUN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const POSSESSIVE_PATTERN = /['\u2019]s\b/gu;
+// Words written with a capital or a digit anywhere name something: a company, product or version
+const NAME_PATTERN = /[\p{Lu}\p{N}]/u;
+
+// Words too common in headlines to say anything about the subject
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have',
+  'here', 'how', 'in', 'is', 'it', 'its', 'just', 'new', 'now', 'of', 'on', 'or', 'our', 's', 'says', 'that', 'the',
+  'this', 'to', 'was', 'we', 'what', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Slots in a MinHash signature; more slots estimate similarity more precisely
+const MINHASH_SIZE = 128;
+// Bumped whenever signatures change, so stored ones made the old way are recomputed
+export const MINHASH_VERSION = 2;
+
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const normalized = text.normalize('NFKC').replace(POSSESSIVE_PATTERN, '').toLowerCase();
+  const tokens: string[] = [];
+
+  for (const [run] of normalized.matchAll(CJK_RUN_PATTERN)) {
+    const characters = Array.from(run);
+    if (characters.length === 1) {
+      tokens.push(run);
+    }
+    for (let i = 0; i < characters.length - 1; i++) {
+      tokens.push(characters[i] + characters[i + 1]);
+    }
+  }
+
+  for (const [word] of normalized.replace(CJK_RUN_PATTERN, ' ').matchAll(WORD_PATTERN)) {
+    if (!STOP_WORDS.has(word)) {
+      tokens.push(singular(word));
+    }
+  }
+
+  return tokens;
+}
+
+// Tokens of the words that name something (see NAME_PATTERN). Headlines about the
+// same story share their names even when the rest is reworded.
+export function nameTokens(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const names = text
+    .normalize('NFKC')
+    .replace(POSSESSIVE_PATTERN, '')
+    .replace(CJK_RUN_PATTERN, ' ')
+    .match(WORD_PATTERN)
+    ?.filter(word => NAME_PATTERN.test(word));
+  return names ? tokenize(names.join(' ')) : [];
+}
+
+// Share of distinct tokens the two texts have in common, from 0 (none) to 1 (identical)
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const tokensA = new Set(tokenize(a));
+  const tokensB = new Set(tokenize(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+// MinHash signature of the text's tokens, with names counted twice. Two signatures
+// agree in roughly the share of slots textSimilarity gives for the texts, weighted
+// towards shared names, so "OpenAI launches GPT-5" and "GPT-5 is here: OpenAI's new
+// model" come out closer than their plain token overlap. A signature can be stored
+// and compared later without the original text.
+export function minHashSignature(text: string | null | undefined): number[] {
+  const tokens = new Set(tokenize(text));
+  if (tokens.size === 0) return [];
+  for (const name of nameTokens(text)) {
+    tokens.add(`${name}\u0000name`);
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const token of tokens) {
+    for (let slot = 0; slot < MINHASH_SIZE; slot++) {
+      const value = hashToken(token, slot);
+      if (value < signature[slot]) {
+        signature[slot] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+// Estimated similarity of the texts two MinHash signatures were made from, from 0 to 1
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let matching = 0;
+  for (let slot = 0; slot < a.length; slot++) {
+    if (a[slot] === b[slot]) matching++;
+  }
+  return matching / a.length;
+}
+
+// Drops a plural 's' or 'es' ("models", "launches"), but not from words ending in 'ss'
+function singular(word: string): string {
+  if (word.length <= 3 || !word.endsWith('s') || word.endsWith('ss')) return word;
+  return /(?:ch|sh|x|ss)es$/.test(word) ? word.slice(0, -2) : word.slice(0, -1);
+}
+
+// FNV-1a with a per-slot seed, finished with MurmurHash3's mixer so the seeds
+// give independent hash functions
+function hashToken(token: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ Math.imul(seed + 1, 0x9e3779b1)) >>> 0;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
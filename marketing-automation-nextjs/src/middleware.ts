@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRouteAccess, hasPermission, isUserRole } from '@/lib/auth/permissions';
+import { SESSION_COOKIE, SessionUser, USER_HEADERS, setUserHeaders, verifySessionToken } from '@/lib/auth/session';
+
+const SESSION_CHECK_PATH = '/api/auth/session';
+
+// Where the middleware reaches this server. Never taken from the request: its Host header is
+// client-controlled, and whoever answers the session check decides the user's role.
+function getInternalOrigin(): string {
+  return process.env.INTERNAL_APP_URL || `http://127.0.0.1:${process.env.PORT || 3000}`;
+}
+
+// The signature and expiry are checked here, but the Edge runtime can't read the database,
+// so the server is asked whether the user still exists with the token's role and version.
+// Any failure counts as signed out.
+async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const claims = await verifySessionToken(token);
+  if (!claims) return null;
+
+  try {
+    const response = await fetch(new URL(SESSION_CHECK_PATH, getInternalOrigin()), {
+      headers: { cookie: `${SESSION_COOKIE}=${token}` },
+      cache: 'no-store'
+    });
+    if (!response.ok) return null;
+
+    const { user } = await response.json();
+    if (user?.id !== claims.id || !isUserRole(user.role) || typeof user.username !== 'string') return null;
+
+    return { id: user.id, username: user.username, role: user.role };
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return null;
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  // Never trust user headers sent by the client
+  const headers = new Headers(request.headers);
+  USER_HEADERS.forEach(header => headers.delete(header));
+
+  const access = getRouteAccess(request.method, pathname);
+  if (access === 'public') {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const user = await getSessionUser(request);
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: { message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const loginUrl = new URL('/login', request.url);
+    if (pathname !== '/') {
+      loginUrl.searchParams.set('next', pathname);
+    }
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (access !== 'authenticated' && !hasPermission(user.role, access)) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: { message: `Your role (${user.role}) is not allowed to do this` } },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  setUserHeaders(headers, user);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+};
@@ -1,61 +1,115 @@
-import OpenAI from 'openai';
 import axios from 'axios';
 import { logger } from '../lib/utils/logger';
 import { getDb } from '../lib/database';
 import { AppError } from '../lib/utils/errors';
-import { loadUserConfig } from '../lib/utils/config';
+import { UserConfig, loadUserConfig } from '../lib/utils/config';
+import { LOCALE_INFO, Locale, isLocale } from '../lib/utils/locales';
+import { basePostSchema, getPublisher } from './publishers';
+import { ContentRevisionService } from './contentRevisions.service';
+import { ContentRulesService } from './contentRules.service';
+import { BrandProfile, BrandProfileService } from './brandProfiles.service';
+import { PromptTemplateService } from './promptTemplates.service';
+import { ResearchService, ResearchSource, TopicResearch } from './research.service';
+import { AssetService } from './assets.service';
+import { FallbackLLMProvider, getLLMProvider } from './llm';
+import { completeStructured } from './llm/structuredOutput';
+
+export type ContentGenerationStage = 'researching' | 'generating';
+
+// Called as generation moves between stages so callers can report progress
+export type ContentProgressCallback = (stage: ContentGenerationStage, message: string) => Promise<void> | void;
+
+// A reviewer's request to rework an existing draft
+interface ContentRevisionRequest {
+  feedback: string;
+  previousDraft: { title: string | null; body: string; hashtags: string | null };
+}
 
 interface ContentGenerationOptions {
   topic: string;
+  // Links new research to the topic; saving the posts is up to the caller
   topicId?: number;
-  platforms: ('wechat' | 'xhs' | 'googledocs')[];
+  platforms: string[];
   generateImage?: boolean;
+  onProgress?: ContentProgressCallback;
+  // Reuse research from an earlier run instead of researching again
+  researchId?: number;
+  revision?: ContentRevisionRequest;
+  // Brand voice to write in (tone, language, banned phrases, disclaimer, CTA)
+  brandProfileId?: number;
+  // Write every post in this language instead of each platform's own
+  locale?: Locale;
 }
 
 interface GeneratedContent {
-  platform: 'wechat' | 'xhs' | 'googledocs';
+  platform: string;
   title: string;
   body: string;
   hashtags?: string;
   imageUrl?: string;
   imagePrompt?: string;
+  // Library asset holding the generated image
+  assetId?: number;
+  // The research the post was written from
+  researchId?: number;
+  // The AI provider and model that actually wrote the post (after any fallback)
+  provider?: string;
+  model?: string;
+  brandProfileId?: number;
+  locale?: Locale;
 }
 
-export class ContentGenerationService {
-  private openai: OpenAI | null = null;
-  private userConfig: any = null;
+// A platform the AI couldn't produce a valid post for, even after repair attempts
+export interface PlatformFailure {
+  platform: string;
+  error: string;
+}
 
-  constructor() {
-    this.initializeConfig();
-  }
+export interface ContentGenerationResult {
+  contents: GeneratedContent[];
+  failures: PlatformFailure[];
+}
+
+// How many past rejection reasons per platform are fed back into prompts
+const PAST_FEEDBACK_PER_PLATFORM = 3;
+
+export class ContentGenerationService {
+  private userConfig: UserConfig | null = null;
 
-  private async initializeConfig() {
+  // Settings can change between runs, so reload them and the AI provider before each one
+  private async initializeConfig(): Promise<FallbackLLMProvider> {
     this.userConfig = await loadUserConfig();
-    console.log('Debug: AI service config loaded:', {
-      aiProvider: this.userConfig?.aiProvider,
-      hasOpenAiKey: !!this.userConfig?.openAiKey,
-      hasGeminiKey: !!this.userConfig?.geminiApiKey,
-      hasLmStudioUrl: !!this.userConfig?.lmStudioUrl
-    });
-    
-    if (this.userConfig?.aiProvider === 'openai' && this.userConfig?.openAiKey) {
-      this.openai = new OpenAI({
-        apiKey: this.userConfig.openAiKey
-      });
-    }
+    return getLLMProvider();
   }
 
-  // Research topic using AI with real-time search
-  async researchTopic(topic: string): Promise<string> {
-    await this.initializeConfig();
+  // Research topic using AI with real-time search; the results are saved so posts can cite them.
+  // Searches once per locale the posts will be written in, so local sources are included.
+  async researchTopic(topic: string, topicId?: number, locales: Locale[] = ['en']): Promise<TopicResearch> {
+    const llm = await this.initializeConfig();
     
     // First, try to get real-time search results
-    let searchResults = '';
-    try {
-      searchResults = await this.fetchSearchResults(topic);
-    } catch (error) {
-      logger.warn('Failed to fetch search results, using AI knowledge only:', error);
+    const sources: ResearchSource[] = [];
+    for (const locale of locales) {
+      try {
+        for (const source of await this.fetchSearchResults(topic, locale)) {
+          if (!source.link || !sources.some(existing => existing.link === source.link)) {
+            sources.push(source);
+          }
+        }
+      } catch (error) {
+        logger.warn(`Failed to fetch ${locale} search results:`, error);
+      }
+    }
+    if (sources.length === 0) {
+      logger.warn('No search results available, using AI knowledge only');
     }
+
+    const searchResults = sources.map((source, index) => {
+      return `${index + 1}. ${source.title}
+        ${source.snippet || ''}
+        Source: ${source.source || source.link}
+        ${source.date ? `Date: ${source.date}` : ''}`;
+    }).join('\n\n');
     
     // Create prompt with search results or fallback to AI knowledge
     const prompt = searchResults
@@ -76,38 +130,26 @@ export class ContentGenerationService {
       - Impact on society or industry
       Keep the response concise and informative. Note: Using AI knowledge only as search results unavailable.`;
 
+    let summary: string;
     try {
-      const aiProvider = this.userConfig?.aiProvider || 'openai';
-      
-      if (aiProvider === 'openai' && this.userConfig?.openAiKey) {
-        // Re-initialize OpenAI if not already done
-        if (!this.openai) {
-          this.openai = new OpenAI({
-            apiKey: this.userConfig.openAiKey
-          });
-        }
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4.1-mini',
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.7,
-          max_tokens: 800
-        });
-        return response.choices[0].message.content || '';
-      } else if (aiProvider === 'gemini') {
-        return await this.callGemini(prompt);
-      } else if (aiProvider === 'lmstudio') {
-        return await this.callLMStudio(prompt);
-      } else {
-        throw new AppError('AI provider not configured', 400);
-      }
+      summary = await llm.complete(prompt, { temperature: 0.7, maxTokens: 800 });
     } catch (error) {
       logger.error('Error researching topic:', error);
       throw new AppError('Failed to research topic', 500);
     }
+
+    return new ResearchService().saveResearch({
+      topicId: topicId || null,
+      topic,
+      summary,
+      sources,
+      provider: llm.id,
+      model: llm.model
+    });
   }
 
-  // Fetch search results using SerpAPI
-  private async fetchSearchResults(topic: string): Promise<string> {
+  // Fetch search results using SerpAPI, in the locale's language and country
+  private async fetchSearchResults(topic: string, locale: Locale): Promise<ResearchSource[]> {
     if (!this.userConfig?.serpApiKey) {
       throw new Error('SerpAPI key not configured');
     }
@@ -119,7 +161,8 @@ export class ContentGenerationService {
           api_key: this.userConfig.serpApiKey,
           engine: 'google',
           num: 5, // Get top 5 results
-          hl: 'en'
+          hl: LOCALE_INFO[locale].searchLanguage,
+          gl: LOCALE_INFO[locale].searchCountry
         }
       });
 
@@ -133,16 +176,14 @@ export class ContentGenerationService {
         throw new Error('No search results found');
       }
 
-      // Format search results
-      const formattedResults = allResults.slice(0, 5).map((result, index) => {
-        return `${index + 1}. ${result.title}
-        ${result.snippet || result.summary || ''}
-        Source: ${result.source || result.link}
-        ${result.date ? `Date: ${result.date}` : ''}`;
-      }).join('\n\n');
-
-      logger.info(`Fetched ${allResults.length} search results for topic: ${topic}`);
-      return formattedResults;
+      logger.info(`Fetched ${allResults.length} ${locale} search results for topic: ${topic}`);
+      return allResults.slice(0, 5).map(result => ({
+        title: result.title,
+        link: result.link || null,
+        date: result.date || null,
+        source: result.source || null,
+        snippet: result.snippet || result.summary || null
+      }));
     } catch (error: any) {
       logger.error('Error fetching search results:', error);
       throw new Error(`Search failed: ${error.message}`);
@@ -150,236 +191,300 @@ export class ContentGenerationService {
   }
 
   // Generate content for multiple platforms
-  async generateContent(options: ContentGenerationOptions): Promise<GeneratedContent[]> {
+  async generateContent(options: ContentGenerationOptions): Promise<ContentGenerationResult> {
     const { topic, platforms } = options;
+
+    let brand: BrandProfile | null = null;
+    if (options.brandProfileId) {
+      brand = await new BrandProfileService().getProfile(options.brandProfileId);
+      if (!brand) {
+        logger.warn(`Brand profile ${options.brandProfileId} no longer exists, generating without it`);
+      }
+    }
+    const locales = await this.resolveLocales(platforms, options.locale, brand);
     
-    // First, research the topic
-    logger.info(`Researching topic: ${topic}`);
-    const research = await this.researchTopic(topic);
+    // First, research the topic (unless we're reworking an earlier draft)
+    let research = options.researchId ? await new ResearchService().getResearch(options.researchId) : null;
+    if (!research) {
+      logger.info(`Researching topic: ${topic}`);
+      await options.onProgress?.('researching', `Researching topic: ${topic}`);
+      research = await this.researchTopic(topic, options.topicId, Array.from(new Set(Object.values(locales))));
+    }
+
+    await options.onProgress?.('generating', `Generating content for ${platforms.join(', ')}`);
 
     // Generate platform-specific content
-    const prompt = this.buildContentPrompt(topic, research, platforms);
+    const pastFeedback = await this.getPastFeedback(platforms);
+    const prompt = await this.buildContentPrompt(topic, research.summary, platforms, locales, pastFeedback, options.revision, brand);
     
     try {
-      await this.initializeConfig();
-      let response: any;
-      const aiProvider = this.userConfig?.aiProvider || 'openai';
-      
-      if (aiProvider === 'openai' && this.userConfig?.openAiKey) {
-        // Re-initialize OpenAI if not already done
-        if (!this.openai) {
-          this.openai = new OpenAI({
-            apiKey: this.userConfig.openAiKey
-          });
-        }
-        const completion = await this.openai.chat.completions.create({
-          model: 'gpt-4.1-mini',
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.8,
-          max_tokens: 1500,
-          response_format: { type: 'json_object' }
-        });
-        response = JSON.parse(completion.choices[0].message.content || '{}');
-      } else if (aiProvider === 'gemini') {
-        const geminiResponse = await this.callGemini(prompt);
-        response = JSON.parse(geminiResponse);
-      } else if (aiProvider === 'lmstudio') {
-        const lmStudioResponse = await this.callLMStudio(prompt);
-        response = JSON.parse(lmStudioResponse);
-      } else {
-        throw new AppError('AI provider not configured', 400);
-      }
+      const llm = await this.initializeConfig();
+      const schemas = Object.fromEntries(platforms.map(platform => [
+        `${platform}_post`,
+        getPublisher(platform)?.postSchema || basePostSchema
+      ]));
+      const output = await completeStructured(llm, prompt, schemas, { temperature: 0.8, maxTokens: 1500 });
 
       const contents: GeneratedContent[] = [];
+      const failures: PlatformFailure[] = [];
+
+      const assetService = new AssetService();
+      const generateImages = options.generateImage && await assetService.canGenerateImages();
+      if (options.generateImage && !generateImages) {
+        logger.warn('Image generation needs an OpenAI API key, generating posts without images');
+      }
 
       // Process each platform
       for (const platform of platforms) {
-        if (response[`${platform}_post`]) {
-          const post = response[`${platform}_post`];
-          const content: GeneratedContent = {
-            platform,
-            title: post.title,
-            body: post.body,
-            hashtags: post.hashtags
-          };
-
-          // Generate image if requested
-          if (options.generateImage && post.image_prompt) {
-            content.imagePrompt = post.image_prompt;
-            if (this.aiProvider === 'openai' && this.openai) {
-              try {
-                const imageResponse = await this.openai.images.generate({
-                  prompt: post.image_prompt,
-                  n: 1,
-                  size: '1024x1024'
-                });
-                content.imageUrl = imageResponse.data?.[0]?.url;
-              } catch (error) {
-                logger.error('Error generating image:', error);
-              }
-            }
-          }
+        const key = `${platform}_post`;
+        if (output.errors[key]) {
+          logger.warn(`No valid ${platform} post generated: ${output.errors[key]}`);
+          failures.push({ platform, error: output.errors[key] });
+          continue;
+        }
 
-          contents.push(content);
+        const post = output.values[key];
+        const content: GeneratedContent = {
+          platform,
+          title: post.title,
+          body: post.body,
+          hashtags: post.hashtags,
+          researchId: research.id,
+          provider: output.producedBy[key].provider,
+          model: output.producedBy[key].model,
+          brandProfileId: brand?.id,
+          locale: locales[platform]
+        };
+
+        // The disclaimer is mandatory, so add it if the model left it out
+        if (brand?.disclaimer && !content.body.includes(brand.disclaimer)) {
+          content.body = `${content.body.trimEnd()}\n\n${brand.disclaimer}`;
+        }
 
-          // Save to database
-          if (options.topicId) {
-            await this.saveContentToDatabase(content, options.topicId);
+        // Generate the cover image if requested; the post is kept without one if that fails
+        if (post.image_prompt) {
+          content.imagePrompt = post.image_prompt;
+        }
+        if (generateImages && post.image_prompt) {
+          await options.onProgress?.('generating', `Generating ${platform} image`);
+          try {
+            const asset = await assetService.generateAsset(post.image_prompt, platform);
+            content.assetId = asset.id;
+            content.imageUrl = asset.url;
+          } catch (error) {
+            logger.error(`Error generating ${platform} image:`, error);
           }
         }
+
+        contents.push(content);
       }
 
-      return contents;
+      return { contents, failures };
     } catch (error) {
       logger.error('Error generating content:', error);
       throw new AppError('Failed to generate content', 500);
     }
   }
 
-  private buildContentPrompt(topic: string, research: string, platforms: string[]): string {
-    const platformInstructions: Record<string, string> = {
-      wechat: `For 'wechat_post': Create a professional and informative article for WeChat Official Account.
-      - Title: Compelling and SEO-friendly (max 30 characters)
-      - Body: 300-400 words, well-structured with clear sections
-      - Tone: Professional, authoritative, and engaging
-      - Include: Relevant emojis to enhance readability
-      - End with: A thought-provoking question to encourage engagement
-      - Add an 'image_prompt' field with a description for DALL-E 3`,
-      
-      xhs: `For 'xhs_post': Create a trendy and casual post for Xiao Hongshu.
-      - Title: Eye-catching with emojis (max 20 characters)
-      - Body: 150-200 words, conversational and relatable
-      - Tone: Casual, trendy, enthusiastic
-      - Format: Use line breaks, emojis, and numbered points
-      - Hashtags: Include 5-7 relevant, trending hashtags
-      - Add an 'image_prompt' field with a description for DALL-E 3`,
-      
-      googledocs: `For 'googledocs_post': Create a comprehensive document for Google Docs.
-      - Title: Detailed and descriptive (max 60 characters)
-      - Body: 500-800 words, comprehensive and well-researched
-      - Tone: Professional, detailed, and informative
-      - Structure: Include introduction, main sections, and conclusion
-      - Format: Use proper headings, bullet points, and paragraphs
-      - Include: Key insights, data points, and actionable takeaways
-      - Add an 'image_prompt' field with a description for DALL-E 3`
-    };
-
-    const selectedInstructions = platforms
-      .map(p => platformInstructions[p])
-      .filter(Boolean)
-      .join('\n\n');
+  // Rewrite a single platform's post using reviewer feedback; the new draft goes back for approval
+  async regenerateContent(contentId: number, feedback: string): Promise<any> {
+    if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+      throw new AppError('Feedback must be a string', 400);
+    }
+    if (!feedback?.trim()) {
+      throw new AppError('Feedback is required to regenerate content', 400);
+    }
 
-    return `You are an expert social media marketer. Based on the following research about "${topic}", generate content for social media campaigns.
+    const db = await getDb();
+    const original = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
 
-Research Summary:
-${research}
+    if (!original) {
+      throw new AppError('Content not found', 404);
+    }
+    if (original.status !== 'pending_approval' && original.status !== 'rejected') {
+      throw new AppError('Only pending or rejected content can be regenerated', 400);
+    }
 
-Generate content in JSON format with the following structure:
-${selectedInstructions}
+    let topic = original.topic;
+    if (!topic && original.topic_id) {
+      const topicRow = await (db as any).getAsync('SELECT title FROM topics WHERE id = ?', original.topic_id);
+      topic = topicRow?.title;
+    }
 
-The output must be a valid JSON object with keys: ${platforms.map(p => `'${p}_post'`).join(', ')}.
-Each post object should have: title, body, hashtags (for xhs), and image_prompt fields.`;
-  }
+    const { contents: [content], failures } = await this.generateContent({
+      topic: topic || original.title,
+      platforms: [original.platform],
+      researchId: original.research_id || undefined,
+      brandProfileId: original.brand_profile_id || undefined,
+      // Keep the draft's language, which may be a translation's rather than the platform's
+      locale: isLocale(original.locale) ? original.locale : undefined,
+      revision: {
+        feedback: feedback.trim(),
+        previousDraft: { title: original.title, body: original.body, hashtags: original.hashtags }
+      }
+    });
 
-  // Call Google Gemini API
-  private async callGemini(prompt: string): Promise<string> {
-    if (!this.userConfig?.geminiApiKey) {
-      throw new AppError('Gemini API key not configured', 400);
+    if (!content) {
+      const reason = failures[0]?.error ? `: ${failures[0].error}` : '';
+      throw new AppError(`No valid ${original.platform} post was returned by the AI provider${reason}`, 502);
+    }
+
+    const fields = { title: content.title, body: content.body, hashtags: content.hashtags || null };
+    const violations = await new ContentRulesService().serializeViolations(original.platform, fields, content.brandProfileId);
+
+    // Only now that there is a replacement is the original rejected. The feedback doubles as the
+    // rejection reason so it informs future prompts for this platform. The status check is repeated
+    // so a post approved while the new draft was generated isn't rejected.
+    const rejected = await (db as any).updateAsync(
+      `UPDATE content SET status = 'rejected', rejection_reason = ? WHERE id = ? AND status = ?`,
+      feedback.trim(),
+      contentId,
+      original.status
+    );
+    if (rejected !== 1) {
+      throw new AppError('Content changed while it was being regenerated; reload and try again', 409);
     }
 
+    let newContentId: number;
     try {
-      const response = await axios.post(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${this.userConfig.geminiApiKey}`,
-        {
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }]
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        }
+      newContentId = await (db as any).insertAsync(
+        `INSERT INTO content (topic_id, platform, title, body, hashtags, image_url, image_prompt, asset_id, status, topic, research_id, regenerated_from, ai_provider, ai_model, rule_violations, brand_profile_id, locale, translated_from, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending_approval', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        original.topic_id,
+        original.platform,
+        fields.title,
+        fields.body,
+        fields.hashtags,
+        // The feedback is about the text, so the draft keeps its image
+        original.image_url,
+        original.image_prompt,
+        original.asset_id,
+        topic || null,
+        content.researchId || null,
+        contentId,
+        content.provider || null,
+        content.model || null,
+        violations,
+        content.brandProfileId || null,
+        content.locale || null,
+        original.translated_from || null,
+        new Date().toISOString()
       );
-      
-      return response.data.candidates[0].content.parts[0].text;
     } catch (error) {
-      logger.error('Error calling Gemini:', error);
-      throw new AppError('Failed to generate content with Gemini', 500);
+      // Don't leave the original rejected with nothing to replace it
+      await (db as any).runAsync(
+        'UPDATE content SET status = ?, rejection_reason = ? WHERE id = ?',
+        original.status,
+        original.rejection_reason,
+        contentId
+      );
+      throw error;
     }
-  }
+    await new ContentRevisionService().recordRevision(newContentId, fields, 'ai');
 
-  // Call LM Studio API
-  private async callLMStudio(prompt: string): Promise<string> {
-    if (!this.userConfig?.lmStudioUrl) {
-      throw new AppError('LM Studio URL not configured', 400);
-    }
+    logger.info(`Regenerated ${original.platform} content ${contentId} as ${newContentId}`);
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', newContentId);
+  }
 
-    try {
-      const response = await axios.post(
-        `${this.userConfig.lmStudioUrl}/v1/chat/completions`,
-        {
-          model: this.userConfig.lmStudioModel || 'local-model',
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 1500
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        }
+  // Recent rejection reasons per platform, so new drafts avoid repeating the same mistakes
+  private async getPastFeedback(platforms: string[]): Promise<Record<string, string[]>> {
+    const db = await getDb();
+    const pastFeedback: Record<string, string[]> = {};
+
+    for (const platform of platforms) {
+      const rows = await (db as any).allAsync(
+        `SELECT rejection_reason FROM content
+         WHERE platform = ? AND rejection_reason IS NOT NULL AND rejection_reason != ''
+         ORDER BY id DESC LIMIT ?`,
+        platform,
+        PAST_FEEDBACK_PER_PLATFORM
       );
-      
-      return response.data.choices[0].message.content;
-    } catch (error) {
-      logger.error('Error calling LM Studio:', error);
-      throw new AppError('Failed to generate content with LM Studio', 500);
+      if (rows.length > 0) {
+        pastFeedback[platform] = rows.map((row: any) => row.rejection_reason);
+      }
     }
+
+    return pastFeedback;
   }
 
-  private async callOllama(prompt: string): Promise<string> {
-    const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
-    const ollamaModel = process.env.OLLAMA_MODEL || 'llama2';
-    
-    try {
-      const response = await axios.post(`${ollamaBaseUrl}/api/generate`, {
-        model: ollamaModel,
-        prompt,
-        stream: false
-      });
-      return response.data.response;
-    } catch (error) {
-      logger.error('Error calling Ollama:', error);
-      throw new AppError('Failed to generate content with Ollama', 500);
-    }
+  // Language per platform: an explicit override, then the brand profile's, then settings, then the publisher default
+  private async resolveLocales(platforms: string[], override?: Locale, brand?: BrandProfile | null): Promise<Record<string, Locale>> {
+    const configured = (await loadUserConfig())?.platformLocales || {};
+    const brandLanguage = brand?.language;
+    const brandLocale = isLocale(brandLanguage) ? brandLanguage : undefined;
+
+    return Object.fromEntries(platforms.map(platform => [
+      platform,
+      override || brandLocale || configured[platform] || getPublisher(platform)?.defaultLocale || 'en'
+    ]));
   }
 
-  private async saveContentToDatabase(content: GeneratedContent, topicId: number): Promise<void> {
-    const db = await getDb();
-    
-    try {
-      await (db as any).run(
-        `INSERT INTO content (topic_id, platform, title, body, hashtags, image_url, status)
-         VALUES (?, ?, ?, ?, ?, ?, 'draft')`,
-        topicId,
-        content.platform,
-        content.title,
-        content.body,
-        content.hashtags || null,
-        content.imageUrl || null
-      );
-      logger.info(`Saved ${content.platform} content for topic ${topicId}`);
-    } catch (error) {
-      logger.error('Error saving content to database:', error);
+  private async buildContentPrompt(
+    topic: string,
+    research: string,
+    platforms: string[],
+    locales: Record<string, Locale>,
+    pastFeedback: Record<string, string[]> = {},
+    revision?: ContentRevisionRequest,
+    brand?: BrandProfile | null
+  ): Promise<string> {
+    // Each platform's editable template, falling back to the publisher's built-in instructions
+    const templateService = new PromptTemplateService();
+    const instructions: string[] = [];
+    for (const platform of platforms) {
+      if (getPublisher(platform)) {
+        instructions.push(await templateService.renderInstructions(platform, { topic, research, brand }));
+      }
     }
+    const selectedInstructions = instructions.join('\n\n');
+
+    const feedbackNotes = Object.entries(pastFeedback)
+      .flatMap(([platform, reasons]) => reasons
+        .filter(reason => reason !== revision?.feedback)
+        .map(reason => `- ${platform}: ${reason}`))
+      .join('\n');
+
+    const feedbackSection = feedbackNotes
+      ? `\n\nReviewers rejected earlier drafts for these reasons; avoid repeating them:\n${feedbackNotes}`
+      : '';
+
+    const revisionSection = revision
+      ? `\n\nRewrite the following draft. Reviewer feedback: "${revision.feedback}"
+
+Previous draft:
+Title: ${revision.previousDraft.title || ''}
+Body: ${revision.previousDraft.body}
+Hashtags: ${revision.previousDraft.hashtags || ''}`
+      : '';
+
+    const brandSection = brand ? this.buildBrandSection(brand) : '';
+
+    // The research is usually in English, so every post gets an explicit output language
+    const languageSection = `\n\nOutput language (write the title, body and hashtags in it, whatever language the research is in):\n${platforms
+      .map(platform => `- '${platform}_post': ${LOCALE_INFO[locales[platform]].name} (${locales[platform]})`)
+      .join('\n')}`;
+
+    return `You are an expert social media marketer. Based on the following research about "${topic}", generate content for social media campaigns.
+
+Research Summary:
+${research}${brandSection}${languageSection}${feedbackSection}${revisionSection}
+
+Generate content in JSON format with the following structure:
+${selectedInstructions}
+
+The output must be a valid JSON object with keys: ${platforms.map(p => `'${p}_post'`).join(', ')}.
+Each post object should have: title, body, hashtags (for xhs), and image_prompt fields.`;
+  }
+
+  private buildBrandSection(brand: BrandProfile): string {
+    const rules = [
+      brand.tone && `- Tone: ${brand.tone}`,
+      brand.bannedPhrases.length > 0 && `- Never use these words or phrases: ${brand.bannedPhrases.join(', ')}`,
+      brand.cta && `- End with this call to action: ${brand.cta}`,
+      brand.disclaimer && `- Finish every body with this disclaimer, word for word: "${brand.disclaimer}"`
+    ].filter(Boolean);
+
+    return rules.length > 0 ? `\n\nBrand voice (${brand.name}):\n${rules.join('\n')}` : '';
   }
 
   // Get content by topic
@@ -0,0 +1,260 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { getConfig } from '../lib/utils/config';
+import { IMAGE_EXTENSIONS, IMAGE_MIME_TYPES, ImageCrop, ImageMimeType, centerCrop, detectImageType, readImageSize } from '../lib/utils/images';
+import { getPublisher, getPublishers } from './publishers';
+import { OpenAIProvider, createLLMProvider } from './llm';
+
+// Kept next to the database by default, which is already served only to admins
+const ASSETS_PATH = process.env.ASSETS_PATH || './public/data/assets';
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// A post's image can be changed until it goes out; changing the image of approved content
+// withdraws its approval, since the approval was given for the old image
+const IMAGE_EDITABLE_STATUSES = ['draft', 'pending_approval', 'approved'];
+
+export type AssetSource = 'generated' | 'upload';
+
+export interface Asset {
+  id: number;
+  // Where the app serves the file
+  url: string;
+  mimeType: ImageMimeType;
+  sizeBytes: number;
+  width: number | null;
+  height: number | null;
+  source: AssetSource;
+  // Prompt the image was generated from
+  prompt: string | null;
+  // Platform the image was made or uploaded for
+  platform: string | null;
+  // Centred crop to each platform's cover aspect ratio
+  crops: Record<string, ImageCrop>;
+  originalName: string | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface AssetDetails {
+  source: AssetSource;
+  prompt?: string | null;
+  platform?: string | null;
+  originalName?: string | null;
+  createdBy?: number;
+}
+
+export function getAssetUrl(assetId: number): string {
+  return `/api/assets/${assetId}/file`;
+}
+
+// The asset ID behind a content image_url, or null for external URLs
+export function parseAssetUrl(url: string | null | undefined): number | null {
+  const match = url?.match(/^\/api\/assets\/(\d+)\/file$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+export class AssetService {
+  async listAssets(options: { platform?: string; limit?: number } = {}): Promise<Asset[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT assets.*, users.username AS created_by_name
+       FROM assets LEFT JOIN users ON users.id = assets.created_by
+       ${options.platform ? 'WHERE assets.platform = ?' : ''}
+       ORDER BY assets.created_at DESC, assets.id DESC LIMIT ?`,
+      ...(options.platform ? [options.platform] : []),
+      options.limit || 50
+    );
+    return rows.map((row: any) => this.toAsset(row));
+  }
+
+  async getAsset(assetId: number): Promise<Asset | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync(
+      `SELECT assets.*, users.username AS created_by_name
+       FROM assets LEFT JOIN users ON users.id = assets.created_by
+       WHERE assets.id = ?`,
+      assetId
+    );
+    return row ? this.toAsset(row) : null;
+  }
+
+  async readAssetFile(assetId: number): Promise<{ data: Buffer; mimeType: ImageMimeType; filename: string }> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT filename, mime_type FROM assets WHERE id = ?', assetId);
+    if (!row) {
+      throw new AppError('Asset not found', 404);
+    }
+
+    try {
+      const data = await fs.readFile(path.join(ASSETS_PATH, row.filename));
+      return { data, mimeType: row.mime_type, filename: row.filename };
+    } catch (error) {
+      logger.error(`Asset ${assetId} file ${row.filename} could not be read:`, error);
+      throw new AppError('Asset file is missing', 404);
+    }
+  }
+
+  // Store an image in the library. The format is taken from the file itself.
+  async createAsset(data: Buffer, details: AssetDetails): Promise<Asset> {
+    if (data.length === 0) {
+      throw new AppError('Image file is empty', 400);
+    }
+    if (data.length > MAX_UPLOAD_BYTES) {
+      throw new AppError(`Images can be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 400);
+    }
+    const mimeType = detectImageType(data);
+    if (!mimeType) {
+      throw new AppError(`Unsupported image format; use ${IMAGE_MIME_TYPES.map(type => IMAGE_EXTENSIONS[type]).join(', ')}`, 400);
+    }
+    if (details.platform && !getPublisher(details.platform)) {
+      throw new AppError(`Unknown platform: ${details.platform}`, 400);
+    }
+
+    const size = readImageSize(data);
+    const crops = size
+      ? Object.fromEntries(getPublishers().map(publisher => [publisher.platform, centerCrop(size, publisher.coverImage.aspectRatio)]))
+      : {};
+
+    const filename = `${randomBytes(12).toString('hex')}.${IMAGE_EXTENSIONS[mimeType]}`;
+    await fs.mkdir(ASSETS_PATH, { recursive: true });
+    await fs.writeFile(path.join(ASSETS_PATH, filename), data);
+
+    const db = await getDb();
+    const assetId = await (db as any).insertAsync(
+      `INSERT INTO assets (filename, mime_type, size_bytes, width, height, source, prompt, platform, crops, original_name, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      filename,
+      mimeType,
+      data.length,
+      size?.width ?? null,
+      size?.height ?? null,
+      details.source,
+      details.prompt || null,
+      details.platform || null,
+      JSON.stringify(crops),
+      details.originalName || null,
+      details.createdBy || null,
+      new Date().toISOString()
+    );
+
+    logger.info(`Stored ${details.source} asset ${assetId} (${mimeType}, ${data.length} bytes)`);
+    return (await this.getAsset(assetId))!;
+  }
+
+  // Images are generated with DALL-E 3, whichever provider writes the text
+  async canGenerateImages(): Promise<boolean> {
+    return Boolean(await getConfig('openAiKey'));
+  }
+
+  // Generate an image at the size closest to the platform's cover shape and store it
+  async generateAsset(prompt: string, platform: string, createdBy?: number): Promise<Asset> {
+    if (!prompt?.trim()) {
+      throw new AppError('An image prompt is required', 400);
+    }
+    const publisher = getPublisher(platform);
+    if (!publisher) {
+      throw new AppError(`Unknown platform: ${platform}`, 400);
+    }
+    if (!(await this.canGenerateImages())) {
+      throw new AppError('Image generation needs an OpenAI API key', 400);
+    }
+
+    const provider = await createLLMProvider('openai') as OpenAIProvider;
+    const data = await provider.generateImage(prompt.trim(), publisher.coverImage.generationSize);
+    return this.createAsset(data, { source: 'generated', prompt: prompt.trim(), platform, createdBy });
+  }
+
+  // Use a library image for a post, or remove the post's image when assetId is null
+  async setContentImage(contentId: number, assetId: number | null): Promise<any> {
+    const content = await this.getImageEditableContent(contentId);
+
+    let asset: Asset | null = null;
+    if (assetId !== null) {
+      asset = await this.getAsset(assetId);
+      if (!asset) {
+        throw new AppError('Asset not found', 404);
+      }
+    }
+
+    // The status check is repeated so content scheduled or published in the meantime isn't changed
+    const db = await getDb();
+    const updated = await (db as any).updateAsync(
+      `UPDATE content SET asset_id = ?, image_url = ?, image_prompt = ?,
+         status = CASE WHEN status = 'approved' THEN 'pending_approval' ELSE status END,
+         approved_at = NULL, approved_by = NULL
+       WHERE id = ? AND status IN (${IMAGE_EDITABLE_STATUSES.map(() => '?').join(', ')})`,
+      asset?.id ?? null,
+      asset ? asset.url : null,
+      asset ? asset.prompt : null,
+      contentId,
+      ...IMAGE_EDITABLE_STATUSES
+    );
+    if (updated !== 1) {
+      throw new AppError('Content changed while its image was being changed; reload and try again', 409);
+    }
+
+    const returned = content.status === 'approved' ? ', returned for approval' : '';
+    logger.info(asset
+      ? `Set ${content.platform} content ${contentId} image to asset ${asset.id}${returned}`
+      : `Removed image from ${content.platform} content ${contentId}${returned}`);
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+  }
+
+  // Generate a new image for a post from its stored prompt, or a new one, and use it
+  async regenerateContentImage(contentId: number, prompt?: string, userId?: number): Promise<{ content: any; asset: Asset }> {
+    const content = await this.getImageEditableContent(contentId);
+    const imagePrompt = prompt?.trim() || content.image_prompt;
+    if (!imagePrompt) {
+      throw new AppError('This post has no image prompt; describe the image to generate', 400);
+    }
+
+    const asset = await this.generateAsset(imagePrompt, content.platform, userId);
+    return { content: await this.setContentImage(contentId, asset.id), asset };
+  }
+
+  private async getImageEditableContent(contentId: number): Promise<any> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (!IMAGE_EDITABLE_STATUSES.includes(content.status)) {
+      throw new AppError(`The image of content that is ${content.status} cannot be changed`, 400);
+    }
+
+    return content;
+  }
+
+  private toAsset(row: any): Asset {
+    let crops: Record<string, ImageCrop> = {};
+    try {
+      crops = JSON.parse(row.crops || '{}');
+    } catch {
+      crops = {};
+    }
+
+    return {
+      id: row.id,
+      url: getAssetUrl(row.id),
+      mimeType: row.mime_type,
+      sizeBytes: row.size_bytes,
+      width: row.width,
+      height: row.height,
+      source: row.source,
+      prompt: row.prompt,
+      platform: row.platform,
+      crops,
+      originalName: row.original_name,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name || null,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { LOCALES, isLocale } from '../lib/utils/locales';
+
+export interface BrandProfile {
+  id: number;
+  name: string;
+  // How posts should sound, e.g. "warm, playful, no jargon"
+  tone: string | null;
+  // Locale posts are written in; empty uses each platform's own locale
+  language: string | null;
+  bannedPhrases: string[];
+  // Appended to every post body if the model leaves it out
+  disclaimer: string | null;
+  cta: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandProfileInput {
+  name?: string;
+  tone?: string | null;
+  language?: string | null;
+  // A list, or one phrase per line / comma-separated
+  bannedPhrases?: string[] | string | null;
+  disclaimer?: string | null;
+  cta?: string | null;
+}
+
+const TEXT_FIELDS = ['tone', 'language', 'disclaimer', 'cta'] as const;
+
+export class BrandProfileService {
+  async listProfiles(): Promise<BrandProfile[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync('SELECT * FROM brand_profiles ORDER BY name ASC');
+    return rows.map((row: any) => this.toProfile(row));
+  }
+
+  async getProfile(profileId: number): Promise<BrandProfile | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM brand_profiles WHERE id = ?', profileId);
+    return row ? this.toProfile(row) : null;
+  }
+
+  async createProfile(input: BrandProfileInput): Promise<BrandProfile> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new AppError('Brand profile name is required', 400);
+    }
+    this.validateLanguage(input.language);
+    await this.ensureNameAvailable(name);
+
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const profileId = await (db as any).insertAsync(
+      `INSERT INTO brand_profiles (name, tone, language, banned_phrases, disclaimer, cta, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      name,
+      this.cleanText(input.tone),
+      this.cleanText(input.language),
+      JSON.stringify(this.parsePhrases(input.bannedPhrases)),
+      this.cleanText(input.disclaimer),
+      this.cleanText(input.cta),
+      now,
+      now
+    );
+
+    logger.info(`Created brand profile ${name}`);
+    return (await this.getProfile(profileId))!;
+  }
+
+  // Only the fields present in `changes` are updated
+  async updateProfile(profileId: number, changes: BrandProfileInput): Promise<BrandProfile> {
+    const profile = await this.getProfile(profileId);
+    if (!profile) {
+      throw new AppError('Brand profile not found', 404);
+    }
+
+    this.validateLanguage(changes.language);
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (changes.name !== undefined) {
+      const name = changes.name?.trim();
+      if (!name) {
+        throw new AppError('Brand profile name is required', 400);
+      }
+      if (name !== profile.name) {
+        await this.ensureNameAvailable(name);
+      }
+      updates.push('name = ?');
+      values.push(name);
+    }
+    for (const field of TEXT_FIELDS) {
+      if (changes[field] !== undefined) {
+        updates.push(`${field} = ?`);
+        values.push(this.cleanText(changes[field]));
+      }
+    }
+    if (changes.bannedPhrases !== undefined) {
+      updates.push('banned_phrases = ?');
+      values.push(JSON.stringify(this.parsePhrases(changes.bannedPhrases)));
+    }
+
+    if (updates.length > 0) {
+      const db = await getDb();
+      await (db as any).runAsync(
+        `UPDATE brand_profiles SET ${updates.join(', ')}, updated_at = ? WHERE id = ?`,
+        ...values,
+        new Date().toISOString(),
+        profileId
+      );
+    }
+
+    return (await this.getProfile(profileId))!;
+  }
+
+  // Content already written with the profile keeps its text; it just stops being checked against the banned phrases
+  async deleteProfile(profileId: number): Promise<void> {
+    const db = await getDb();
+    const profile = await this.getProfile(profileId);
+    if (!profile) {
+      throw new AppError('Brand profile not found', 404);
+    }
+
+    await (db as any).runAsync('DELETE FROM brand_profiles WHERE id = ?', profileId);
+    logger.info(`Deleted brand profile ${profile.name}`);
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    const db = await getDb();
+    const existing = await (db as any).getAsync('SELECT id FROM brand_profiles WHERE name = ?', name);
+    if (existing) {
+      throw new AppError(`Brand profile "${name}" already exists`, 409);
+    }
+  }
+
+  private validateLanguage(language: string | null | undefined): void {
+    const cleaned = this.cleanText(language);
+    if (cleaned && !isLocale(cleaned)) {
+      throw new AppError(`Language must be one of ${LOCALES.join(', ')}`, 400);
+    }
+  }
+
+  private cleanText(value: string | null | undefined): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+
+  private parsePhrases(value: string[] | string | null | undefined): string[] {
+    const phrases = typeof value === 'string' ? value.split(/[\n,]/) : value || [];
+    return Array.from(new Set(
+      phrases.filter(phrase => typeof phrase === 'string').map(phrase => phrase.trim()).filter(Boolean)
+    ));
+  }
+
+  private toProfile(row: any): BrandProfile {
+    let bannedPhrases: string[] = [];
+    try {
+      bannedPhrases = JSON.parse(row.banned_phrases || '[]');
+    } catch {
+      bannedPhrases = [];
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      tone: row.tone,
+      language: row.language,
+      bannedPhrases,
+      disclaimer: row.disclaimer,
+      cta: row.cta,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -1,28 +1,85 @@
 import { TrendService } from './trendDiscovery.service';
-import { ContentGenerationService } from './aiContent.service';
+import { ContentGenerationService, ContentProgressCallback, PlatformFailure } from './aiContent.service';
 import { PublishingValidatorService } from './publishingValidator.service';
+import { ContentRevisionService } from './contentRevisions.service';
+import { ContentRulesService } from './contentRules.service';
+import { ContentTranslationService } from './contentTranslation.service';
+import { TopicScoringService } from './topicScoring.service';
+import { TopicService, DEFAULT_TOPIC_MAX_AGE_DAYS } from './topics.service';
+import { FeedService } from './feeds.service';
 import { getDb } from '../lib/database';
+import { getConfig, shouldGenerateImages } from '../lib/utils/config';
+import { logger } from '../lib/utils/logger';
+import { AppError } from '../lib/utils/errors';
+import { Locale, isLocale } from '../lib/utils/locales';
+
+export interface CampaignRunOptions {
+  // Restrict generation to these platforms (defaults to every configured publisher)
+  platforms?: string[];
+  // Brand voice profile to write the posts in
+  brandProfileId?: number;
+  // Write about this discovered topic instead of picking one
+  topicId?: number;
+  // Generate for the topic even if it already has live content
+  force?: boolean;
+  onProgress?: ContentProgressCallback;
+}
 
 export interface CampaignResult {
   trendsFound: number;
   processed: string | null;
   contentGenerated?: boolean;
+  // Platforms the AI couldn't produce a valid post for
+  failedPlatforms?: PlatformFailure[];
 }
 
 export class CampaignRunner {
   private trendService: TrendService;
   private contentService: ContentGenerationService;
   private validator: PublishingValidatorService;
+  private revisionService: ContentRevisionService;
+  private rulesService: ContentRulesService;
+  private translationService: ContentTranslationService;
+  private scoringService: TopicScoringService;
+  private topicService: TopicService;
+  private feedService: FeedService;
   constructor() {
     this.trendService = new TrendService();
     this.contentService = new ContentGenerationService();
     this.validator = new PublishingValidatorService();
+    this.revisionService = new ContentRevisionService();
+    this.rulesService = new ContentRulesService();
+    this.translationService = new ContentTranslationService();
+    this.scoringService = new TopicScoringService();
+    this.topicService = new TopicService();
+    this.feedService = new FeedService();
   }
 
-  async runCampaign(mode: 'auto' | 'custom' = 'auto', customTopic?: string): Promise<CampaignResult> {
+  // Add a translated sibling of each post for every extra language in TRANSLATION_LOCALES
+  // (comma-separated). A failed translation is logged but doesn't fail the campaign.
+  private async translateContent(saved: { id: number; locale?: Locale }[], onProgress?: ContentProgressCallback): Promise<void> {
+    const configured = await getConfig('translationLocales');
+    const locales = (typeof configured === 'string' ? configured.split(',') : (configured || []) as string[])
+      .map(locale => locale.trim())
+      .filter(isLocale);
+
+    for (const { id, locale: sourceLocale } of saved) {
+      for (const locale of locales.filter(locale => locale !== sourceLocale)) {
+        await onProgress?.('generating', `Translating content ${id} into ${locale}`);
+        try {
+          await this.translationService.translateContent(id, locale);
+        } catch (error) {
+          logger.error(`Failed to translate content ${id} into ${locale}:`, error);
+        }
+      }
+    }
+  }
+
+  async runCampaign(mode: 'auto' | 'custom' = 'auto', customTopic?: string, options: CampaignRunOptions = {}): Promise<CampaignResult> {
+    const { onProgress } = options;
     try {
       // Initialize database
-      const db = await getDb();
+      await getDb();
       
       // Validate publishing providers before proceeding
       await this.validator.validateBeforeCampaign();
@@ -40,17 +97,33 @@ export class CampaignRunner {
         };
         trendsFound = 1;
         // console.log('Debug: Using custom topic:', customTopic);
+      } else if (options.topicId) {
+        // A topic chosen from the topic inbox
+        selectedTrend = await this.topicService.getTopic(options.topicId);
+        if (!selectedTrend) {
+          throw new AppError(`Topic ${options.topicId} not found`, 404);
+        }
+        const liveContentIds = await this.topicService.getLiveContentIds(selectedTrend.id);
+        if (liveContentIds.length > 0 && !options.force) {
+          throw new AppError(`Topic "${selectedTrend.title}" already has live content (${liveContentIds.join(', ')}); force the run to generate again`, 409);
+        }
+        trendsFound = 1;
       } else {
         // Auto-discover trends
-        const { rssFeeds } = await this.trendService.getUserConfig();
-        if (rssFeeds && rssFeeds.length > 0) {
+        await onProgress?.('researching', 'Discovering trending topics');
+        const rssFeeds = await this.feedService.getEnabledFeeds();
+        if (rssFeeds.length > 0) {
           await this.trendService.aggregateTrends({
             rssFeeds,
             googleTrends: true
           });
         }
         
-        // Get pending trends from database
+        // Rank pending trends; scores depend on the time and on what was published since
+        // they were last scored, so every run rescores them
+        await onProgress?.('researching', 'Ranking trending topics');
+        await this.topicService.expireStaleTopics(Number(await getConfig('topicMaxAgeDays')) || DEFAULT_TOPIC_MAX_AGE_DAYS);
+        await this.scoringService.scorePendingTopics();
         const trends = await this.trendService.getPendingTrends(5);
         trendsFound = trends.length;
         
@@ -59,14 +132,26 @@ export class CampaignRunner {
         //   console.log('Debug: First trend:', JSON.stringify(trends[0], null, 2));
         // }
         
-        if (trends.length === 0) {
+        // Topics that already have posts (e.g. generated before topics had a lifecycle)
+        // are taken out of the queue instead of being written about twice
+        for (const trend of trends) {
+          if ((await this.topicService.getLiveContentIds(trend.id)).length === 0) {
+            selectedTrend = trend;
+            break;
+          }
+          logger.warn(`Topic "${trend.title}" already has live content, marking it generated`);
+          await this.topicService.transition(trend.id, 'selected');
+          await this.topicService.transition(trend.id, 'generated');
+        }
+
+        if (!selectedTrend) {
           return {
-            trendsFound: 0,
+            trendsFound,
             processed: null
           };
         }
 
-        selectedTrend = trends[0];
+        logger.info(`Selected topic "${selectedTrend.title}" with score ${selectedTrend.score}`);
       }
       
       // Validate the selected trend
@@ -75,38 +160,112 @@ export class CampaignRunner {
         throw new Error('Selected trend is invalid or missing title');
       }
       
-      // Generate content for all platforms
-      const content = await this.contentService.generateContent({
-        topic: selectedTrend.title,
-        topicId: selectedTrend.id,
-        platforms: ['wechat', 'xhs', 'googledocs']
-      });
-      
-      // Save to database for approval workflow
+      // Generate content for every configured publishing platform (or the requested subset)
+      const availableProviders = await this.validator.getAvailableProviders();
+      let platforms = availableProviders.map(provider => provider.platform);
+      if (options.platforms && options.platforms.length > 0) {
+        platforms = platforms.filter(platform => options.platforms!.includes(platform));
+        if (platforms.length === 0) {
+          throw new Error(`None of the requested platforms are configured: ${options.platforms.join(', ')}`);
+        }
+      }
+
+      // Custom topics only have a temporary ID, so they aren't linked to the topics table
       const topicId = (mode === 'custom') ? null : selectedTrend.id;
-      
-      // Save each platform's content separately
-      for (const platformContent of content) {
-        await (db as any).runAsync(
-          'INSERT INTO content (topic_id, platform, title, body, hashtags, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
-          topicId, 
-          platformContent.platform, 
-          platformContent.title, 
-          platformContent.body, 
-          platformContent.hashtags || null, 
-          'pending_approval', 
-          new Date().toISOString()
-        );
+
+      // Hold the topic while its posts are generated; a failed run returns it to where it was
+      if (topicId) {
+        await this.topicService.transition(topicId, 'selected');
+      }
+      let savedIds: { id: number; locale?: Locale }[];
+      let failures: PlatformFailure[];
+      try {
+        ({ savedIds, failures } = await this.generatePosts(selectedTrend.title, topicId, platforms, options));
+      } catch (error) {
+        if (topicId) {
+          await this.topicService.transition(topicId, selectedTrend.status)
+            .catch(transitionError => logger.error(`Failed to release topic ${topicId}:`, transitionError));
+        }
+        throw error;
       }
+      if (topicId) {
+        await this.topicService.transition(topicId, 'generated');
+      }
+
+      await this.translateContent(savedIds, onProgress);
 
       return {
         trendsFound: trendsFound,
         processed: selectedTrend.title,
-        contentGenerated: true
+        contentGenerated: true,
+        failedPlatforms: failures
       };
     } catch (error) {
       console.error('Campaign execution error:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Generate and save a post per platform for the topic, each waiting for approval
+  private async generatePosts(
+    topic: string,
+    topicId: number | null,
+    platforms: string[],
+    options: CampaignRunOptions
+  ): Promise<{ savedIds: { id: number; locale?: Locale }[]; failures: PlatformFailure[] }> {
+    const db = await getDb();
+    const { onProgress } = options;
+
+    const generateImages = await shouldGenerateImages();
+    const { contents: content, failures } = await this.contentService.generateContent({
+      topic: topic,
+      topicId: topicId || undefined,
+      platforms,
+      brandProfileId: options.brandProfileId,
+      generateImage: generateImages,
+      onProgress
+    });
+
+    if (content.length === 0) {
+      throw new Error(`No valid content was generated: ${failures.map(failure => `${failure.platform} (${failure.error})`).join(', ')}`);
+    }
+    
+    // Save to database for approval workflow
+    
+    // Save each platform's content separately
+    const savedIds: { id: number; locale?: Locale }[] = [];
+    for (const platformContent of content) {
+      const fields = {
+        title: platformContent.title,
+        body: platformContent.body,
+        hashtags: platformContent.hashtags || null
+      };
+      const contentId = await (db as any).insertAsync(
+        'INSERT INTO content (topic_id, platform, title, body, hashtags, image_url, image_prompt, asset_id, status, topic, research_id, ai_provider, ai_model, rule_violations, brand_profile_id, locale, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        topicId, 
+        platformContent.platform, 
+        platformContent.title, 
+        platformContent.body, 
+        platformContent.hashtags || null, 
+        platformContent.imageUrl || null,
+        platformContent.imagePrompt || null,
+        platformContent.assetId || null,
+        'pending_approval', 
+        topic,
+        platformContent.researchId || null,
+        platformContent.provider || null,
+        platformContent.model || null,
+        await this.rulesService.serializeViolations(platformContent.platform, fields, platformContent.brandProfileId),
+        platformContent.brandProfileId || null,
+        platformContent.locale || null,
+        new Date().toISOString()
+      );
+
+      // The generated text is the first revision, so later edits can be diffed against it
+      await this.revisionService.recordRevision(contentId, fields, 'ai');
+      savedIds.push({ id: contentId, locale: platformContent.locale });
+    }
+
+    return { savedIds, failures };
+  }
+}
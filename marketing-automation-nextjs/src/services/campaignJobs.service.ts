@@ -0,0 +1,268 @@
+import { CampaignRunner, CampaignResult } from './campaign.service';
+import { ContentGenerationStage } from './aiContent.service';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+
+export type CampaignJobStatus = 'queued' | 'running' | ContentGenerationStage | 'saved' | 'failed';
+
+export interface CampaignJobStep {
+  status: CampaignJobStatus;
+  message: string;
+  at: string;
+}
+
+export interface CampaignJobOptions {
+  // Set when the job was triggered by a scheduled campaign
+  campaignId?: number;
+  platforms?: string[];
+  brandProfileId?: number;
+  // Generate for this discovered topic (from the topic inbox) instead of picking one
+  topicId?: number;
+  // The topic's title, shown on the job while it runs
+  topicTitle?: string;
+  // Generate even if the topic already has live content
+  force?: boolean;
+}
+
+export interface CampaignJob {
+  id: number;
+  campaignId: number | null;
+  platforms: string[] | null;
+  brandProfileId: number | null;
+  topicId: number | null;
+  force: boolean;
+  mode: 'auto' | 'custom';
+  customTopic: string | null;
+  status: CampaignJobStatus;
+  topic: string | null;
+  steps: CampaignJobStep[];
+  result: CampaignResult | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+const ACTIVE_STATUSES: CampaignJobStatus[] = ['running', 'researching', 'generating'];
+
+export class CampaignJobQueue {
+  // One worker per module instance drains the queue; Next.js can load this module more
+  // than once, so each job is also claimed in the database before it runs
+  private static processing: boolean = false;
+  // Set when the worker is woken while busy; it drains the queue again before going idle,
+  // so a job queued after its last check isn't left waiting for the next wake-up
+  private static pending: boolean = false;
+  private static recovered: boolean = false;
+
+  // Add a campaign run to the queue and wake the worker
+  async enqueue(mode: 'auto' | 'custom' = 'auto', customTopic?: string, options: CampaignJobOptions = {}): Promise<CampaignJob> {
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const steps: CampaignJobStep[] = [{ status: 'queued', message: 'Campaign queued', at: now }];
+
+    const jobId = await (db as any).insertAsync(
+      `INSERT INTO campaign_jobs (campaign_id, mode, custom_topic, topic_id, force, platforms, brand_profile_id, status, topic, steps, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'queued', ?, ?, ?, ?)`,
+      options.campaignId || null,
+      mode,
+      customTopic || null,
+      options.topicId || null,
+      options.force ? 1 : 0,
+      options.platforms ? JSON.stringify(options.platforms) : null,
+      options.brandProfileId || null,
+      mode === 'custom' ? customTopic || null : options.topicTitle || null,
+      JSON.stringify(steps),
+      now,
+      now
+    );
+
+    logger.info(`Queued campaign job ${jobId} (${mode})`);
+
+    this.startWorker();
+    return (await this.getJob(jobId))!;
+  }
+
+  async getJob(jobId: number): Promise<CampaignJob | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM campaign_jobs WHERE id = ?', jobId);
+    return row ? this.toJob(row) : null;
+  }
+
+  async listJobs(limit: number = 20): Promise<CampaignJob[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync('SELECT * FROM campaign_jobs ORDER BY id DESC LIMIT ?', limit);
+    return rows.map((row: any) => this.toJob(row));
+  }
+
+  // Start draining the queue in the background if the worker is idle
+  startWorker(): void {
+    if (CampaignJobQueue.processing) {
+      CampaignJobQueue.pending = true;
+      return;
+    }
+
+    CampaignJobQueue.processing = true;
+    CampaignJobQueue.pending = false;
+    this.processQueue()
+      .catch(error => logger.error('Campaign job worker crashed:', error))
+      .finally(() => {
+        CampaignJobQueue.processing = false;
+        if (CampaignJobQueue.pending) {
+          this.startWorker();
+        }
+      });
+  }
+
+  private async processQueue(): Promise<void> {
+    await this.recoverInterruptedJobs();
+
+    const db = await getDb();
+    let row = await (db as any).getAsync(`SELECT * FROM campaign_jobs WHERE status = 'queued' ORDER BY id ASC LIMIT 1`);
+
+    while (row) {
+      const job = await this.claimJob(this.toJob(row));
+      if (job) {
+        await this.runJob(job);
+      }
+      row = await (db as any).getAsync(`SELECT * FROM campaign_jobs WHERE status = 'queued' ORDER BY id ASC LIMIT 1`);
+    }
+  }
+
+  // Move a queued job to running; null if another worker claimed it first
+  private async claimJob(job: CampaignJob): Promise<CampaignJob | null> {
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const claimed = await (db as any).updateAsync(
+      `UPDATE campaign_jobs SET status = 'running', started_at = ?, updated_at = ? WHERE id = ? AND status = 'queued'`,
+      now,
+      now,
+      job.id
+    );
+    return claimed === 1 ? { ...job, status: 'running', startedAt: now } : null;
+  }
+
+  // Jobs left mid-run by a server restart can't be resumed, so fail them. Only jobs
+  // started before this process are considered; later ones belong to a live worker.
+  private async recoverInterruptedJobs(): Promise<void> {
+    if (CampaignJobQueue.recovered) return;
+    CampaignJobQueue.recovered = true;
+
+    const db = await getDb();
+    const processStartedAt = new Date(Date.now() - process.uptime() * 1000).toISOString();
+    const placeholders = ACTIVE_STATUSES.map(() => '?').join(', ');
+    const interrupted = await (db as any).allAsync(
+      `SELECT * FROM campaign_jobs WHERE status IN (${placeholders}) AND (started_at IS NULL OR started_at < ?)`,
+      ...ACTIVE_STATUSES,
+      processStartedAt
+    );
+
+    for (const row of interrupted) {
+      logger.warn(`Campaign job ${row.id} was interrupted by a restart, marking as failed`);
+      const job = await this.recordStep(this.toJob(row), 'failed', 'Interrupted by server restart', {
+        error: 'Interrupted by server restart'
+      });
+      await this.logCampaignRun(job, 'Interrupted by server restart');
+    }
+  }
+
+  private async runJob(job: CampaignJob): Promise<void> {
+    logger.info(`Running campaign job ${job.id}`);
+
+    try {
+      const runner = new CampaignRunner();
+      const result = await runner.runCampaign(job.mode, job.customTopic || undefined, {
+        platforms: job.platforms || undefined,
+        brandProfileId: job.brandProfileId || undefined,
+        topicId: job.topicId || undefined,
+        force: job.force,
+        onProgress: async (stage, message) => {
+          job = await this.recordStep(job, stage, message);
+        }
+      });
+
+      let message = result.processed
+        ? `Content generated for "${result.processed}". Awaiting approval.`
+        : 'No pending trends found';
+      if (result.failedPlatforms?.length) {
+        message += ` No valid post for: ${result.failedPlatforms.map(failure => failure.platform).join(', ')}.`;
+      }
+      job = await this.recordStep(job, 'saved', message, {
+        topic: result.processed,
+        result: JSON.stringify(result)
+      });
+      await this.logCampaignRun(job, message);
+      logger.info(`Campaign job ${job.id} finished`);
+    } catch (error: any) {
+      logger.error(`Campaign job ${job.id} failed:`, error);
+      job = await this.recordStep(job, 'failed', `Campaign failed: ${error.message}`, {
+        error: error.message || 'Campaign execution failed'
+      });
+      await this.logCampaignRun(job, error.message || 'Campaign execution failed');
+    }
+  }
+
+  // Record the outcome of a scheduled campaign's run in campaign_logs
+  private async logCampaignRun(job: CampaignJob, details: string): Promise<void> {
+    if (!job.campaignId) return;
+
+    const db = await getDb();
+    await (db as any).runAsync(
+      `INSERT INTO campaign_logs (campaign_id, action, details, status)
+       VALUES (?, 'run', ?, ?)`,
+      job.campaignId,
+      JSON.stringify({ jobId: job.id, message: details }),
+      job.status
+    );
+  }
+
+  // Move a job to a new status and append the step to its progress log
+  private async recordStep(
+    job: CampaignJob,
+    status: CampaignJobStatus,
+    message: string,
+    fields: { topic?: string | null; result?: string; error?: string } = {}
+  ): Promise<CampaignJob> {
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const steps = [...job.steps, { status, message, at: now }];
+    const finished = status === 'saved' || status === 'failed';
+
+    await (db as any).runAsync(
+      `UPDATE campaign_jobs
+       SET status = ?, steps = ?, topic = COALESCE(?, topic), result = COALESCE(?, result),
+           error = COALESCE(?, error), finished_at = ?, updated_at = ?
+       WHERE id = ?`,
+      status,
+      JSON.stringify(steps),
+      fields.topic || null,
+      fields.result || null,
+      fields.error || null,
+      finished ? now : null,
+      now,
+      job.id
+    );
+
+    return { ...job, status, steps };
+  }
+
+  private toJob(row: any): CampaignJob {
+    return {
+      id: row.id,
+      campaignId: row.campaign_id,
+      platforms: row.platforms ? JSON.parse(row.platforms) : null,
+      brandProfileId: row.brand_profile_id,
+      topicId: row.topic_id,
+      force: row.force === 1,
+      mode: row.mode,
+      customTopic: row.custom_topic,
+      status: row.status,
+      topic: row.topic,
+      steps: row.steps ? JSON.parse(row.steps) : [],
+      result: row.result ? JSON.parse(row.result) : null,
+      error: row.error,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at
+    };
+  }
+}
@@ -0,0 +1,285 @@
+import { CampaignJobQueue } from './campaignJobs.service';
+import { getPublisher } from './publishers';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { getNextCronRun, isValidCron } from '../lib/utils/cron';
+
+export interface ScheduledCampaign {
+  id: number;
+  name: string;
+  status: 'active' | 'paused';
+  schedule: string;
+  mode: 'auto' | 'custom';
+  topic: string | null;
+  platforms: string[];
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledCampaignInput {
+  name: string;
+  schedule: string;
+  mode: 'auto' | 'custom';
+  topic?: string | null;
+  platforms?: string[];
+}
+
+export interface CampaignLog {
+  id: number;
+  action: string;
+  details: any;
+  status: string;
+  createdAt: string;
+}
+
+export class CampaignScheduler {
+  private static timer: NodeJS.Timeout | null = null;
+  private static tickInterval: number = 60000; // check once a minute
+
+  // Start the in-process scheduler (idempotent)
+  static start(): void {
+    if (CampaignScheduler.timer) return;
+
+    const scheduler = new CampaignScheduler();
+    const tick = () => {
+      scheduler.runDueCampaigns().catch(error => logger.error('Campaign scheduler tick failed:', error));
+    };
+
+    CampaignScheduler.timer = setInterval(tick, CampaignScheduler.tickInterval);
+    tick();
+    logger.info('Campaign scheduler started');
+  }
+
+  static stop(): void {
+    if (CampaignScheduler.timer) {
+      clearInterval(CampaignScheduler.timer);
+      CampaignScheduler.timer = null;
+    }
+  }
+
+  async listCampaigns(): Promise<ScheduledCampaign[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT * FROM campaigns WHERE schedule IS NOT NULL ORDER BY created_at DESC`
+    );
+    return rows.map((row: any) => this.toCampaign(row));
+  }
+
+  async getCampaign(campaignId: number): Promise<ScheduledCampaign | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM campaigns WHERE id = ?', campaignId);
+    return row ? this.toCampaign(row) : null;
+  }
+
+  async getCampaignLogs(campaignId: number, limit: number = 20): Promise<CampaignLog[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT * FROM campaign_logs WHERE campaign_id = ? ORDER BY id DESC LIMIT ?`,
+      campaignId,
+      limit
+    );
+    return rows.map((row: any) => ({
+      id: row.id,
+      action: row.action,
+      details: row.details ? JSON.parse(row.details) : null,
+      status: row.status,
+      createdAt: row.created_at
+    }));
+  }
+
+  async createCampaign(input: ScheduledCampaignInput): Promise<ScheduledCampaign> {
+    this.validateInput(input);
+
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const campaignId = await (db as any).insertAsync(
+      `INSERT INTO campaigns (name, status, schedule, mode, topic, platforms, next_run_at, created_at, updated_at)
+       VALUES (?, 'active', ?, ?, ?, ?, ?, ?, ?)`,
+      input.name.trim(),
+      input.schedule.trim(),
+      input.mode,
+      input.mode === 'custom' ? input.topic!.trim() : null,
+      JSON.stringify(input.platforms || []),
+      getNextCronRun(input.schedule).toISOString(),
+      now,
+      now
+    );
+
+    logger.info(`Created scheduled campaign ${campaignId}: ${input.name} (${input.schedule})`);
+    return (await this.getCampaign(campaignId))!;
+  }
+
+  async updateCampaign(campaignId: number, changes: Partial<ScheduledCampaignInput>): Promise<ScheduledCampaign> {
+    const existing = await this.getCampaign(campaignId);
+    if (!existing) {
+      throw new AppError('Campaign not found', 404);
+    }
+
+    const input: ScheduledCampaignInput = {
+      name: changes.name ?? existing.name,
+      schedule: changes.schedule ?? existing.schedule,
+      mode: changes.mode ?? existing.mode,
+      topic: changes.topic !== undefined ? changes.topic : existing.topic,
+      platforms: changes.platforms ?? existing.platforms
+    };
+    this.validateInput(input);
+
+    const nextRunAt = existing.status === 'active' ? getNextCronRun(input.schedule).toISOString() : null;
+
+    const db = await getDb();
+    await (db as any).runAsync(
+      `UPDATE campaigns
+       SET name = ?, schedule = ?, mode = ?, topic = ?, platforms = ?, next_run_at = ?, updated_at = ?
+       WHERE id = ?`,
+      input.name.trim(),
+      input.schedule.trim(),
+      input.mode,
+      input.mode === 'custom' ? input.topic!.trim() : null,
+      JSON.stringify(input.platforms || []),
+      nextRunAt,
+      new Date().toISOString(),
+      campaignId
+    );
+
+    return (await this.getCampaign(campaignId))!;
+  }
+
+  async deleteCampaign(campaignId: number): Promise<void> {
+    const db = await getDb();
+    await (db as any).runAsync('DELETE FROM campaign_logs WHERE campaign_id = ?', campaignId);
+    await (db as any).runAsync('DELETE FROM campaigns WHERE id = ?', campaignId);
+    logger.info(`Deleted scheduled campaign ${campaignId}`);
+  }
+
+  async pauseCampaign(campaignId: number): Promise<ScheduledCampaign> {
+    return this.setStatus(campaignId, 'paused');
+  }
+
+  async resumeCampaign(campaignId: number): Promise<ScheduledCampaign> {
+    return this.setStatus(campaignId, 'active');
+  }
+
+  // Queue a job for every active campaign whose next run time has passed
+  async runDueCampaigns(now: Date = new Date()): Promise<number> {
+    const db = await getDb();
+    const dueRows = await (db as any).allAsync(
+      `SELECT * FROM campaigns
+       WHERE status = 'active' AND schedule IS NOT NULL AND next_run_at IS NOT NULL AND next_run_at <= ?`,
+      now.toISOString()
+    );
+
+    let queued = 0;
+    const jobQueue = new CampaignJobQueue();
+
+    for (const row of dueRows) {
+      const campaign = this.toCampaign(row);
+      const nextRunAt = getNextCronRun(campaign.schedule, now).toISOString();
+
+      // Claim the run by moving next_run_at on; if another tick already did, it owns this run
+      const claimed = await (db as any).updateAsync(
+        `UPDATE campaigns SET last_run_at = ?, next_run_at = ?, updated_at = ? WHERE id = ? AND next_run_at = ?`,
+        now.toISOString(),
+        nextRunAt,
+        now.toISOString(),
+        campaign.id,
+        row.next_run_at
+      );
+      if (claimed !== 1) continue;
+
+      // Don't stack runs if the previous one is still in progress
+      const activeJob = await (db as any).getAsync(
+        `SELECT id FROM campaign_jobs
+         WHERE campaign_id = ? AND status IN ('queued', 'running', 'researching', 'generating')`,
+        campaign.id
+      );
+
+      if (activeJob) {
+        logger.warn(`Skipping scheduled run of campaign ${campaign.id}: job ${activeJob.id} still in progress`);
+        await this.log(campaign.id, 'skipped', { reason: `Job ${activeJob.id} still in progress` }, 'skipped');
+      } else {
+        const job = await jobQueue.enqueue(campaign.mode, campaign.topic || undefined, {
+          campaignId: campaign.id,
+          platforms: campaign.platforms.length > 0 ? campaign.platforms : undefined
+        });
+        await this.log(campaign.id, 'triggered', { jobId: job.id }, 'queued');
+        logger.info(`Scheduled campaign ${campaign.id} (${campaign.name}) queued as job ${job.id}`);
+        queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  private async setStatus(campaignId: number, status: 'active' | 'paused'): Promise<ScheduledCampaign> {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign) {
+      throw new AppError('Campaign not found', 404);
+    }
+
+    // Resuming recomputes the next run so missed runs while paused are skipped
+    const nextRunAt = status === 'active' ? getNextCronRun(campaign.schedule).toISOString() : null;
+
+    const db = await getDb();
+    await (db as any).runAsync(
+      `UPDATE campaigns SET status = ?, next_run_at = ?, updated_at = ? WHERE id = ?`,
+      status,
+      nextRunAt,
+      new Date().toISOString(),
+      campaignId
+    );
+    await this.log(campaignId, status === 'active' ? 'resumed' : 'paused', null, status);
+
+    logger.info(`Campaign ${campaignId} ${status === 'active' ? 'resumed' : 'paused'}`);
+    return (await this.getCampaign(campaignId))!;
+  }
+
+  private async log(campaignId: number, action: string, details: any, status: string): Promise<void> {
+    const db = await getDb();
+    await (db as any).runAsync(
+      `INSERT INTO campaign_logs (campaign_id, action, details, status) VALUES (?, ?, ?, ?)`,
+      campaignId,
+      action,
+      details ? JSON.stringify(details) : null,
+      status
+    );
+  }
+
+  private validateInput(input: ScheduledCampaignInput): void {
+    if (!input.name?.trim()) {
+      throw new AppError('Campaign name is required', 400);
+    }
+    if (!input.schedule || !isValidCron(input.schedule)) {
+      throw new AppError('Schedule must be a valid 5-field cron expression (e.g. "0 9 * * 1-5")', 400);
+    }
+    if (input.mode !== 'auto' && input.mode !== 'custom') {
+      throw new AppError('Mode must be "auto" or "custom"', 400);
+    }
+    if (input.mode === 'custom' && !input.topic?.trim()) {
+      throw new AppError('A topic is required for custom campaigns', 400);
+    }
+
+    const unknownPlatforms = (input.platforms || []).filter(platform => !getPublisher(platform));
+    if (unknownPlatforms.length > 0) {
+      throw new AppError(`Unknown platforms: ${unknownPlatforms.join(', ')}`, 400);
+    }
+  }
+
+  private toCampaign(row: any): ScheduledCampaign {
+    return {
+      id: row.id,
+      name: row.name,
+      status: row.status,
+      schedule: row.schedule,
+      mode: row.mode || 'auto',
+      topic: row.topic,
+      platforms: row.platforms ? JSON.parse(row.platforms) : [],
+      lastRunAt: row.last_run_at,
+      nextRunAt: row.next_run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { ContentRulesService } from './contentRules.service';
+
+export type RevisionSource = 'ai' | 'human';
+
+export interface ContentFields {
+  title: string | null;
+  body: string;
+  hashtags: string | null;
+}
+
+export interface ContentRevision extends ContentFields {
+  id: number;
+  contentId: number;
+  source: RevisionSource;
+  revertedFrom: number | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Content can only be edited before it goes out; editing approved content withdraws
+// its approval, since the approval was given for the old text
+const EDITABLE_STATUSES = ['draft', 'pending_approval', 'approved'];
+
+export class ContentRevisionService {
+  async listRevisions(contentId: number): Promise<ContentRevision[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT content_revisions.*, users.username AS created_by_name
+       FROM content_revisions LEFT JOIN users ON users.id = content_revisions.created_by
+       WHERE content_id = ? ORDER BY content_revisions.id ASC`,
+      contentId
+    );
+    return rows.map((row: any) => this.toRevision(row));
+  }
+
+  // Record a snapshot of a post's text
+  async recordRevision(
+    contentId: number,
+    fields: ContentFields,
+    source: RevisionSource,
+    options: { revertedFrom?: number; userId?: number } = {}
+  ): Promise<ContentRevision> {
+    const db = await getDb();
+    const revisionId = await (db as any).insertAsync(
+      `INSERT INTO content_revisions (content_id, title, body, hashtags, source, reverted_from, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      contentId,
+      fields.title,
+      fields.body,
+      fields.hashtags,
+      source,
+      options.revertedFrom || null,
+      options.userId || null,
+      new Date().toISOString()
+    );
+
+    const row = await (db as any).getAsync('SELECT * FROM content_revisions WHERE id = ?', revisionId);
+    return this.toRevision(row);
+  }
+
+  // Apply a human edit to the content and record it as a new revision
+  async updateContent(
+    contentId: number,
+    changes: Partial<ContentFields>,
+    options: { revertedFrom?: number; userId?: number } = {}
+  ): Promise<{ content: any; revision: ContentRevision }> {
+    for (const field of ['title', 'body', 'hashtags'] as const) {
+      const value = changes[field];
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        throw new AppError(`${field[0].toUpperCase()}${field.slice(1)} must be a string`, 400);
+      }
+    }
+    if (changes.body === null) {
+      throw new AppError('Body cannot be empty', 400);
+    }
+
+    const content = await this.getEditableContent(contentId);
+
+    const fields: ContentFields = {
+      title: changes.title !== undefined ? changes.title : content.title,
+      body: changes.body !== undefined ? changes.body : content.body,
+      hashtags: changes.hashtags !== undefined ? changes.hashtags || null : content.hashtags
+    };
+
+    if (!fields.body?.trim()) {
+      throw new AppError('Body cannot be empty', 400);
+    }
+    if (fields.title === content.title && fields.body === content.body && fields.hashtags === content.hashtags) {
+      throw new AppError('No changes to save', 400);
+    }
+
+    await this.ensureBaseline(content);
+
+    // The status check is repeated so content scheduled or published in the meantime isn't changed
+    const db = await getDb();
+    const updated = await (db as any).updateAsync(
+      `UPDATE content SET title = ?, body = ?, hashtags = ?, rule_violations = ?,
+         status = CASE WHEN status = 'approved' THEN 'pending_approval' ELSE status END,
+         approved_at = NULL, approved_by = NULL
+       WHERE id = ? AND status IN (${EDITABLE_STATUSES.map(() => '?').join(', ')})`,
+      fields.title,
+      fields.body,
+      fields.hashtags,
+      await new ContentRulesService().serializeViolations(content.platform, fields, content.brand_profile_id),
+      contentId,
+      ...EDITABLE_STATUSES
+    );
+    if (updated !== 1) {
+      throw new AppError('Content changed while it was being edited; reload and try again', 409);
+    }
+    const revision = await this.recordRevision(contentId, fields, 'human', options);
+    logger.info(`Content ${contentId} edited (revision ${revision.id})${content.status === 'approved' ? ', returned for approval' : ''}`);
+
+    const updatedContent = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+    return { content: updatedContent, revision };
+  }
+
+  // Restore the text of an earlier revision; the revert itself becomes the newest revision
+  async revertToRevision(contentId: number, revisionId: number, userId?: number): Promise<{ content: any; revision: ContentRevision }> {
+    const db = await getDb();
+    const row = await (db as any).getAsync(
+      'SELECT * FROM content_revisions WHERE id = ? AND content_id = ?',
+      revisionId,
+      contentId
+    );
+
+    if (!row) {
+      throw new AppError('Revision not found', 404);
+    }
+
+    const target = this.toRevision(row);
+    return this.updateContent(
+      contentId,
+      { title: target.title, body: target.body, hashtags: target.hashtags },
+      { revertedFrom: target.id, userId }
+    );
+  }
+
+  private async getEditableContent(contentId: number): Promise<any> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (!EDITABLE_STATUSES.includes(content.status)) {
+      throw new AppError(`Content that is ${content.status} cannot be edited`, 400);
+    }
+
+    return content;
+  }
+
+  // Content generated before revisions were tracked gets its original text recorded on first edit
+  private async ensureBaseline(content: any): Promise<void> {
+    const db = await getDb();
+    const existing = await (db as any).getAsync(
+      'SELECT id FROM content_revisions WHERE content_id = ? LIMIT 1',
+      content.id
+    );
+
+    if (!existing) {
+      await this.recordRevision(content.id, {
+        title: content.title,
+        body: content.body,
+        hashtags: content.hashtags
+      }, 'ai');
+    }
+  }
+
+  private toRevision(row: any): ContentRevision {
+    return {
+      id: row.id,
+      contentId: row.content_id,
+      title: row.title,
+      body: row.body,
+      hashtags: row.hashtags,
+      source: row.source,
+      revertedFrom: row.reverted_from,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name || null,
+      createdAt: row.created_at
+    };
+  }
+}
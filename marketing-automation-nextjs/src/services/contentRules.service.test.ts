@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentRulesService, RuleViolation } from './contentRules.service';
+
+const rules = new ContentRulesService();
+
+// The body length violation of an XHS post, if any
+async function bodyLength(body: string): Promise<RuleViolation | undefined> {
+  const violations = await rules.checkContent('xhs', { title: 'Title', body, hashtags: null });
+  return violations.find(violation => violation.rule === 'bodyWords');
+}
+
+const latinWords = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+const cjkCharacters = (count: number) => '人工智能正在改变营销'.repeat(count / 10);
+
+test('Latin bodies are measured in words against the word range', async () => {
+  assert.equal(await bodyLength(latinWords(175)), undefined);
+
+  const long = await bodyLength(latinWords(300));
+  assert.equal(long?.actual, 300);
+  assert.equal(long?.limit, 200);
+  assert.equal(long?.message, 'Body length (words) is 300, above the recommended maximum of 200');
+});
+
+test('CJK bodies are measured in characters against their own range', async () => {
+  // 350 characters would be far above the 200-word range, but is within 300-400 characters
+  assert.equal(await bodyLength(cjkCharacters(350)), undefined);
+
+  const short = await bodyLength(cjkCharacters(150));
+  assert.equal(short?.severity, 'warning');
+  assert.equal(short?.limit, 300);
+  assert.equal(short?.message, 'Body length (characters) is 150, below the recommended minimum of 300');
+
+  const long = await bodyLength(cjkCharacters(500));
+  assert.equal(long?.message, 'Body length (characters) is 500, above the recommended maximum of 400');
+});
+
+test('a mostly Latin body with a few CJK characters keeps the word range', async () => {
+  const violation = await bodyLength(`${latinWords(250)} 人工智能`);
+  assert.equal(violation?.message, 'Body length (words) is 254, above the recommended maximum of 200');
+});
+
+test('hard limits are errors whatever the script', async () => {
+  const violations = await rules.checkContent('xhs', { title: '人工智能正在改变营销的方式和未来的发展方向', body: cjkCharacters(350), hashtags: null });
+  const title = violations.find(violation => violation.rule === 'titleCharacters');
+  assert.equal(title?.severity, 'error');
+  assert.equal(title?.actual, 21);
+});
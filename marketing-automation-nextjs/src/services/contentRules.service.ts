@@ -0,0 +1,133 @@
+import { getConfig } from '../lib/utils/config';
+import { AppError } from '../lib/utils/errors';
+import { countCharacters, countEmojis, countWords, extractHashtags, findForbiddenWords, isMostlyCjk } from '../lib/utils/textMetrics';
+import { ContentMetric, ContentRule, getPublisher } from './publishers';
+import { ContentFields } from './contentRevisions.service';
+import { BrandProfileService } from './brandProfiles.service';
+
+export type ViolationSeverity = 'warning' | 'error';
+
+export interface RuleViolation {
+  rule: ContentMetric | 'forbiddenWords';
+  // Errors break a hard limit; warnings only miss the platform's style guidance
+  severity: ViolationSeverity;
+  message: string;
+  actual?: number;
+  limit?: number;
+}
+
+const METRIC_LABELS: Record<ContentMetric, string> = {
+  titleCharacters: 'Title length (characters)',
+  bodyWords: 'Body length (words)',
+  bodyCharacters: 'Body length (characters)',
+  hashtags: 'Hashtag count',
+  emojis: 'Emoji count'
+};
+
+// Parse the rule_violations column of a content row
+export function parseRuleViolations(value: string | null | undefined): RuleViolation[] {
+  if (!value) return [];
+  try {
+    const violations = JSON.parse(value);
+    return Array.isArray(violations) ? violations : [];
+  } catch {
+    return [];
+  }
+}
+
+export class ContentRulesService {
+  // Check a post against its platform's limits, the forbidden word list and its brand's banned phrases
+  async checkContent(platform: string, fields: ContentFields, brandProfileId?: number | null): Promise<RuleViolation[]> {
+    const violations: RuleViolation[] = [];
+
+    for (const rule of getPublisher(platform)?.contentRules || []) {
+      const violation = this.checkRule(this.forText(rule, fields), this.measure(rule.metric, fields));
+      if (violation) violations.push(violation);
+    }
+
+    const found = findForbiddenWords(
+      [fields.title, fields.body, fields.hashtags].filter(Boolean).join('\n'),
+      await this.getForbiddenWords(brandProfileId)
+    );
+    if (found.length > 0) {
+      violations.push({
+        rule: 'forbiddenWords',
+        severity: 'error',
+        message: `Contains forbidden ${found.length === 1 ? 'word' : 'words'}: ${found.join(', ')}`
+      });
+    }
+
+    return violations;
+  }
+
+  // Value for the content.rule_violations column
+  async serializeViolations(platform: string, fields: ContentFields, brandProfileId?: number | null): Promise<string> {
+    return JSON.stringify(await this.checkContent(platform, fields, brandProfileId));
+  }
+
+  // Throws when approval blocking is enabled and the post breaks a hard limit
+  async assertApprovable(content: {
+    platform: string;
+    title: string | null;
+    body: string;
+    hashtags: string | null;
+    brand_profile_id?: number | null;
+  }): Promise<void> {
+    const blocking = await getConfig('blockApprovalOnHardViolations');
+    if (blocking !== true && blocking !== 'true') return;
+
+    // Re-check rather than trusting the stored result, which may predate a rule or word list change
+    const errors = (await this.checkContent(content.platform, content, content.brand_profile_id))
+      .filter(violation => violation.severity === 'error');
+    if (errors.length > 0) {
+      throw new AppError(`Content breaks hard platform limits: ${errors.map(error => error.message).join('; ')}`, 400);
+    }
+  }
+
+  private measure(metric: ContentMetric, fields: ContentFields): number {
+    switch (metric) {
+      case 'titleCharacters':
+        return countCharacters(fields.title);
+      case 'bodyWords':
+        return countWords(fields.body);
+      case 'bodyCharacters':
+        return countCharacters(fields.body);
+      case 'hashtags':
+        return extractHashtags(fields.hashtags, fields.body).length;
+      case 'emojis':
+        return countEmojis(`${fields.title || ''}\n${fields.body}`);
+    }
+  }
+
+  // Chinese, Japanese and Korean bodies are held to the rule's CJK range, in characters
+  private forText(rule: ContentRule, fields: ContentFields): ContentRule & { label?: string } {
+    if (rule.metric !== 'bodyWords' || !rule.cjk || !isMostlyCjk(fields.body)) return rule;
+    return { ...rule, min: rule.cjk.min, max: rule.cjk.max, label: 'Body length (characters)' };
+  }
+
+  private checkRule(rule: ContentRule & { label?: string }, actual: number): RuleViolation | null {
+    const severity: ViolationSeverity = rule.hard ? 'error' : 'warning';
+    const label = rule.label || METRIC_LABELS[rule.metric];
+
+    if (rule.max !== undefined && actual > rule.max) {
+      return { rule: rule.metric, severity, message: `${label} is ${actual}, above the ${rule.hard ? 'limit' : 'recommended maximum'} of ${rule.max}`, actual, limit: rule.max };
+    }
+    if (rule.min !== undefined && actual < rule.min) {
+      return { rule: rule.metric, severity, message: `${label} is ${actual}, below the ${rule.hard ? 'limit' : 'recommended minimum'} of ${rule.min}`, actual, limit: rule.min };
+    }
+    return null;
+  }
+
+  // FORBIDDEN_WORDS is a comma-separated list
+  private async getForbiddenWords(brandProfileId?: number | null): Promise<string[]> {
+    const configured = await getConfig('forbiddenWords');
+    const words: string[] = typeof configured === 'string' ? configured.split(',') : [...(configured || [])];
+
+    if (brandProfileId) {
+      const brand = await new BrandProfileService().getProfile(brandProfileId);
+      words.push(...(brand?.bannedPhrases || []));
+    }
+
+    return Array.from(new Set(words.map(word => word.trim()).filter(Boolean)));
+  }
+}
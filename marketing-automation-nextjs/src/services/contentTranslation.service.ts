@@ -0,0 +1,106 @@
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { LOCALE_INFO, LOCALES, Locale, isLocale } from '../lib/utils/locales';
+import { basePostSchema, getPublisher } from './publishers';
+import { ContentRevisionService } from './contentRevisions.service';
+import { ContentRulesService } from './contentRules.service';
+import { getLLMProvider } from './llm';
+import { completeStructured } from './llm/structuredOutput';
+
+// Translations can be made while the original is still a draft or under review
+const TRANSLATABLE_STATUSES = ['draft', 'pending_approval', 'approved', 'scheduled', 'published'];
+
+export class ContentTranslationService {
+  // Translate a post into another language as a linked draft of its own. Translations
+  // always link to the original post, even when made from another translation.
+  async translateContent(contentId: number, locale: Locale): Promise<any> {
+    if (!isLocale(locale)) {
+      throw new AppError(`Locale must be one of ${LOCALES.join(', ')}`, 400);
+    }
+
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (!TRANSLATABLE_STATUSES.includes(content.status)) {
+      throw new AppError(`Content that is ${content.status} cannot be translated`, 400);
+    }
+    if (content.locale === locale) {
+      throw new AppError(`Content is already in ${LOCALE_INFO[locale].name}`, 400);
+    }
+
+    const originalId = content.translated_from || content.id;
+    const existing = await (db as any).getAsync(
+      `SELECT id FROM content
+       WHERE (id = ? OR translated_from = ?) AND locale = ? AND status != 'rejected'`,
+      originalId,
+      originalId,
+      locale
+    );
+    if (existing) {
+      throw new AppError(`A ${LOCALE_INFO[locale].name} version already exists (content ${existing.id})`, 409);
+    }
+
+    const key = `${content.platform}_post`;
+    const llm = await getLLMProvider();
+    const output = await completeStructured(
+      llm,
+      this.buildTranslationPrompt(content, locale),
+      { [key]: getPublisher(content.platform)?.postSchema || basePostSchema },
+      { temperature: 0.3, maxTokens: 1500 }
+    );
+
+    if (output.errors[key]) {
+      throw new AppError(`No valid ${LOCALE_INFO[locale].name} translation was returned by the AI provider: ${output.errors[key]}`, 502);
+    }
+
+    const post = output.values[key];
+    const fields = { title: post.title, body: post.body, hashtags: post.hashtags || null };
+    const translationId = await (db as any).insertAsync(
+      `INSERT INTO content (topic_id, platform, title, body, image_url, image_prompt, asset_id, hashtags, status, topic, research_id, ai_provider, ai_model, rule_violations, brand_profile_id, locale, translated_from, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending_approval', ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      content.topic_id,
+      content.platform,
+      fields.title,
+      fields.body,
+      // Images carry no text, so the translation reuses the original's
+      content.image_url,
+      content.image_prompt,
+      content.asset_id,
+      fields.hashtags,
+      content.topic,
+      content.research_id,
+      output.producedBy[key].provider,
+      output.producedBy[key].model,
+      await new ContentRulesService().serializeViolations(content.platform, fields, content.brand_profile_id),
+      content.brand_profile_id,
+      locale,
+      originalId,
+      new Date().toISOString()
+    );
+    await new ContentRevisionService().recordRevision(translationId, fields, 'ai');
+
+    logger.info(`Translated ${content.platform} content ${contentId} into ${locale} as ${translationId}`);
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', translationId);
+  }
+
+  private buildTranslationPrompt(content: any, locale: Locale): string {
+    const publisher = getPublisher(content.platform);
+    const sourceLanguage = isLocale(content.locale) ? LOCALE_INFO[content.locale as Locale].name : 'its original language';
+    const targetLanguage = LOCALE_INFO[locale].name;
+
+    return `Translate this ${publisher?.name || content.platform} post from ${sourceLanguage} into ${targetLanguage} (${locale}).
+Adapt idioms, examples and hashtags for ${targetLanguage}-speaking readers instead of translating word for word.
+Keep the formatting (line breaks, emojis, numbered points) and a length that suits the platform.
+
+Title: ${content.title || ''}
+Body:
+${content.body}
+Hashtags: ${content.hashtags || ''}
+
+Return a JSON object with the key '${content.platform}_post' containing title, body and hashtags.`;
+  }
+}
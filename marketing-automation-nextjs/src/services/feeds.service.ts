@@ -0,0 +1,335 @@
+import RSSParser from 'rss-parser';
+import axios from 'axios';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+
+// A feed that fails this many fetches in a row is disabled until someone re-enables it
+export const MAX_CONSECUTIVE_FAILURES = 5;
+const FETCH_TIMEOUT_MS = 15000;
+// Items shown when testing a feed
+const PREVIEW_ITEM_COUNT = 10;
+
+export interface Feed {
+  id: number;
+  name: string;
+  url: string;
+  enabled: boolean;
+  lastFetchedAt: string | null;
+  // HTTP status of the last fetch; null if the request never got a response
+  lastStatus: number | null;
+  lastError: string | null;
+  // Items in the feed the last time it changed
+  lastItemCount: number | null;
+  consecutiveFailures: number;
+  // Set when the feed was disabled for failing too often
+  disabledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeedInput {
+  name?: string;
+  url?: string;
+  enabled?: boolean;
+}
+
+export interface FeedItem {
+  title: string;
+  link?: string;
+  description?: string;
+  publishedAt?: Date;
+}
+
+export interface FeedPreview {
+  title: string | null;
+  status: number;
+  itemCount: number;
+  items: FeedItem[];
+}
+
+export class FeedService {
+  private rssParser: RSSParser;
+
+  constructor() {
+    this.rssParser = new RSSParser();
+  }
+
+  async listFeeds(): Promise<Feed[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync('SELECT * FROM feeds ORDER BY name ASC');
+    return rows.map((row: any) => this.toFeed(row));
+  }
+
+  async getEnabledFeeds(): Promise<Feed[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync('SELECT * FROM feeds WHERE enabled = 1 ORDER BY name ASC');
+    return rows.map((row: any) => this.toFeed(row));
+  }
+
+  async getFeed(feedId: number): Promise<Feed | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM feeds WHERE id = ?', feedId);
+    return row ? this.toFeed(row) : null;
+  }
+
+  async createFeed(input: FeedInput): Promise<Feed> {
+    const url = this.validateUrl(input.url);
+    await this.ensureUrlAvailable(url);
+
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const feedId = await (db as any).insertAsync(
+      `INSERT INTO feeds (name, url, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
+      input.name?.trim() || url,
+      url,
+      input.enabled === false ? 0 : 1,
+      now,
+      now
+    );
+
+    logger.info(`Added RSS feed ${url}`);
+    return (await this.getFeed(feedId))!;
+  }
+
+  // Only the fields present in `changes` are updated. Re-enabling a feed clears its
+  // failure count; a new URL also forgets the old URL's cache validators and health.
+  async updateFeed(feedId: number, changes: FeedInput): Promise<Feed> {
+    const feed = await this.getFeed(feedId);
+    if (!feed) {
+      throw new AppError('Feed not found', 404);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (changes.name !== undefined) {
+      const name = changes.name?.trim();
+      if (!name) {
+        throw new AppError('Feed name is required', 400);
+      }
+      updates.push('name = ?');
+      values.push(name);
+    }
+    if (changes.url !== undefined) {
+      const url = this.validateUrl(changes.url);
+      if (url !== feed.url) {
+        await this.ensureUrlAvailable(url);
+        updates.push('url = ?', 'etag = NULL', 'last_modified = NULL', 'last_fetched_at = NULL', 'last_status = NULL',
+          'last_error = NULL', 'last_item_count = NULL', 'consecutive_failures = 0');
+        values.push(url);
+      }
+    }
+    if (changes.enabled !== undefined) {
+      updates.push('enabled = ?', 'disabled_at = NULL');
+      values.push(changes.enabled ? 1 : 0);
+      if (changes.enabled && !feed.enabled) {
+        updates.push('consecutive_failures = 0');
+      }
+    }
+
+    if (updates.length > 0) {
+      const db = await getDb();
+      await (db as any).runAsync(
+        `UPDATE feeds SET ${updates.join(', ')}, updated_at = ? WHERE id = ?`,
+        ...values,
+        new Date().toISOString(),
+        feedId
+      );
+    }
+
+    return (await this.getFeed(feedId))!;
+  }
+
+  // Topics already discovered from the feed are kept
+  async deleteFeed(feedId: number): Promise<void> {
+    const feed = await this.getFeed(feedId);
+    if (!feed) {
+      throw new AppError('Feed not found', 404);
+    }
+
+    const db = await getDb();
+    await (db as any).runAsync('DELETE FROM feeds WHERE id = ?', feedId);
+    logger.info(`Deleted RSS feed ${feed.name}`);
+  }
+
+  // Fetch and parse a feed without saving anything, so a URL can be checked before it's added
+  async previewFeed(url?: string): Promise<FeedPreview> {
+    const feedUrl = this.validateUrl(url);
+
+    let response;
+    try {
+      response = await this.request(feedUrl);
+    } catch (error) {
+      throw new AppError(`Couldn't fetch the feed: ${describeFetchError(error)}`, 502);
+    }
+
+    let parsed: RSSParser.Output<any>;
+    try {
+      parsed = await this.rssParser.parseString(response.data);
+    } catch (error) {
+      throw new AppError(`Couldn't parse the feed: ${describeFetchError(error)}`, 422);
+    }
+
+    const items = parsed.items.map(item => this.toItem(item));
+    return {
+      title: parsed.title || null,
+      status: response.status,
+      itemCount: items.length,
+      items: items.slice(0, PREVIEW_ITEM_COUNT)
+    };
+  }
+
+  // Conditional GET using the validators from the last fetch: an unchanged feed
+  // (304) returns no items. Every outcome is recorded on the feed, and a failure is
+  // rethrown after it is recorded.
+  async fetchFeed(feed: Feed): Promise<FeedItem[]> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT etag, last_modified FROM feeds WHERE id = ?', feed.id);
+    const headers: Record<string, string> = {};
+    if (row?.etag) headers['If-None-Match'] = row.etag;
+    if (row?.last_modified) headers['If-Modified-Since'] = row.last_modified;
+
+    // A feed that downloads but doesn't parse keeps its HTTP status
+    let status: number | null = null;
+    try {
+      const response = await this.request(feed.url, headers);
+      status = response.status;
+      if (response.status === 304) {
+        await this.recordSuccess(feed.id, 304);
+        logger.info(`RSS feed ${feed.name} hasn't changed since the last fetch`);
+        return [];
+      }
+
+      const parsed = await this.rssParser.parseString(response.data);
+      const items = parsed.items.map(item => this.toItem(item));
+      await this.recordSuccess(feed.id, response.status, items.length, {
+        etag: response.headers['etag'] || null,
+        lastModified: response.headers['last-modified'] || null
+      });
+      return items;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        status = error.response?.status ?? null;
+      }
+      await this.recordFailure(feed, status, describeFetchError(error));
+      throw error;
+    }
+  }
+
+  private async request(url: string, headers: Record<string, string> = {}) {
+    return axios.get<string>(url, {
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8', ...headers },
+      responseType: 'text',
+      timeout: FETCH_TIMEOUT_MS,
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    });
+  }
+
+  // The validators and item count are only replaced when the feed was downloaded
+  private async recordSuccess(
+    feedId: number,
+    status: number,
+    itemCount?: number,
+    validators?: { etag: string | null; lastModified: string | null }
+  ): Promise<void> {
+    const db = await getDb();
+    const now = new Date().toISOString();
+    if (validators) {
+      await (db as any).runAsync(
+        `UPDATE feeds SET last_fetched_at = ?, last_status = ?, last_error = NULL, consecutive_failures = 0,
+           last_item_count = ?, etag = ?, last_modified = ?, updated_at = ?
+         WHERE id = ?`,
+        now, status, itemCount ?? null, validators.etag, validators.lastModified, now, feedId
+      );
+    } else {
+      await (db as any).runAsync(
+        `UPDATE feeds SET last_fetched_at = ?, last_status = ?, last_error = NULL, consecutive_failures = 0, updated_at = ?
+         WHERE id = ?`,
+        now, status, now, feedId
+      );
+    }
+  }
+
+  private async recordFailure(feed: Feed, status: number | null, message: string): Promise<void> {
+    const db = await getDb();
+    const now = new Date().toISOString();
+    const failures = feed.consecutiveFailures + 1;
+    const disable = failures >= MAX_CONSECUTIVE_FAILURES;
+
+    await (db as any).runAsync(
+      `UPDATE feeds SET last_fetched_at = ?, last_status = ?, last_error = ?, consecutive_failures = ?,
+         enabled = CASE WHEN ? THEN 0 ELSE enabled END, disabled_at = CASE WHEN ? THEN ? ELSE disabled_at END, updated_at = ?
+       WHERE id = ?`,
+      now, status, message, failures, disable ? 1 : 0, disable ? 1 : 0, now, now, feed.id
+    );
+
+    if (disable) {
+      logger.warn(`Disabled RSS feed ${feed.name} after ${failures} failed fetches in a row`);
+    }
+  }
+
+  private validateUrl(url: string | undefined): string {
+    const trimmed = url?.trim();
+    if (!trimmed) {
+      throw new AppError('Feed URL is required', 400);
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      throw new AppError('Feed URL is not a valid URL', 400);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new AppError('Feed URL must start with http:// or https://', 400);
+    }
+    return trimmed;
+  }
+
+  private async ensureUrlAvailable(url: string): Promise<void> {
+    const db = await getDb();
+    const existing = await (db as any).getAsync('SELECT name FROM feeds WHERE url = ?', url);
+    if (existing) {
+      throw new AppError(`This feed is already added as "${existing.name}"`, 409);
+    }
+  }
+
+  private toItem(item: RSSParser.Item): FeedItem {
+    const publishedAt = item.isoDate || item.pubDate ? new Date((item.isoDate || item.pubDate)!) : undefined;
+    return {
+      title: item.title || 'Untitled',
+      link: item.link,
+      description: item.contentSnippet || item.content,
+      publishedAt: publishedAt && !Number.isNaN(publishedAt.getTime()) ? publishedAt : undefined
+    };
+  }
+
+  private toFeed(row: any): Feed {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      enabled: row.enabled === 1,
+      lastFetchedAt: row.last_fetched_at,
+      lastStatus: row.last_status,
+      lastError: row.last_error,
+      lastItemCount: row.last_item_count,
+      consecutiveFailures: row.consecutive_failures || 0,
+      disabledAt: row.disabled_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+function describeFetchError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return `HTTP ${error.response.status}${error.response.statusText ? ` ${error.response.statusText}` : ''}`;
+    }
+    return error.code === 'ECONNABORTED' ? `Timed out after ${FETCH_TIMEOUT_MS / 1000}s` : error.message;
+  }
+  // XML parser errors continue with line and column details on the following lines
+  return (error instanceof Error ? error.message : String(error)).split('\n')[0];
+}
@@ -3,13 +3,30 @@ import { logger } from '../lib/utils/logger';
 import { AppError } from '../lib/utils/errors';
 import { loadUserConfig } from '../lib/utils/config';
 import fs from 'fs';
+import { Readable } from 'stream';
+import { DocumentBlock, buildDocumentRequests, parseMarkdown } from './googleDocsFormatter';
+import { AssetService, parseAssetUrl } from './assets.service';
+import { ResearchSource } from './research.service';
+
+// A document in the configured folder, as listed by reconciliation
+export interface FolderDocument {
+  id: string;
+  name: string;
+  url: string;
+  createdTime: string;
+  modifiedTime: string;
+}
 
 interface GoogleDocsContent {
   title: string;
+  // Markdown, as the AI writes it
   body: string;
   platform: string;
   topic: string;
   hashtags?: string;
+  imageUrl?: string;
+  // Research the post was written from, listed at the end
+  sources?: ResearchSource[];
 }
 
 export class GoogleDocsService {
@@ -107,9 +124,7 @@ export class GoogleDocsService {
     }
 
     try {
-      // Create the document title
-      const timestamp = new Date().toISOString().split('T')[0];
-      const documentTitle = `${content.platform.toUpperCase()} - ${content.title} (${timestamp})`;
+      const documentTitle = this.getDocumentTitle(content);
 
       // Check if we're using an API key (which has limitations)
       const userConfig = await loadUserConfig();
@@ -157,63 +172,229 @@ export class GoogleDocsService {
     }
   }
 
-  // Populate document with structured content
-  private async populateDocument(documentId: string, content: GoogleDocsContent) {
-    // Build the full content first
-    const fullContent = [];
-    
-    // Add title
-    fullContent.push(content.title);
-    fullContent.push('');
-    
-    // Add metadata
-    fullContent.push(`Platform: ${content.platform.toUpperCase()}`);
-    fullContent.push(`Topic: ${content.topic}`);
-    fullContent.push(`Generated: ${new Date().toISOString()}`);
-    fullContent.push('');
-    
-    // Add separator
-    fullContent.push('--- CONTENT ---');
-    fullContent.push('');
-    
-    // Add main content
-    fullContent.push(content.body);
-    fullContent.push('');
-    
-    // Add hashtags if present
-    if (content.hashtags) {
-      fullContent.push(`Hashtags: ${content.hashtags}`);
-      fullContent.push('');
+  // Replace an existing document's title and body in place, keeping its URL and
+  // Drive revision history. The note, if any, is left as a comment on the document.
+  async updateDocument(documentId: string, content: GoogleDocsContent, note?: string): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new AppError('Google Docs not configured', 400);
     }
-    
-    const fullText = fullContent.join('\n');
-    
-    // Insert all content at once
-    await this.docs.documents.batchUpdate({
-      documentId,
-      requestBody: {
-        requests: [
-          {
-            insertText: {
-              location: { index: 1 },
-              text: fullText
-            }
-          },
-          {
-            updateParagraphStyle: {
-              range: {
-                startIndex: 1,
-                endIndex: content.title.length + 1
-              },
-              paragraphStyle: {
-                namedStyleType: 'HEADING_1'
-              },
-              fields: 'namedStyleType'
-            }
-          }
-        ]
+
+    let file: any;
+    try {
+      file = (await this.drive.files.get({ fileId: documentId, fields: 'id, trashed' })).data;
+    } catch (error: any) {
+      if (error?.response?.status !== 404) {
+        logger.error(`Error looking up Google Doc ${documentId}:`, error);
+        throw new AppError('Failed to update Google Doc', 500);
+      }
+    }
+    if (!file || file.trashed) {
+      throw new AppError(`Google Doc ${documentId} no longer exists`, 404);
+    }
+
+    try {
+      await this.drive.files.update({
+        fileId: documentId,
+        requestBody: { name: this.getDocumentTitle(content) }
+      });
+      await this.populateDocument(documentId, content, await this.getBodyEndIndex(documentId));
+      await this.makeDocumentPublic(documentId);
+
+      if (note?.trim()) {
+        await this.drive.comments.create({
+          fileId: documentId,
+          fields: 'id',
+          requestBody: { content: `Republished: ${note.trim()}` }
+        }).catch((error: any) => logger.warn(`Could not add the revision note to Google Doc ${documentId}:`, error));
+      }
+
+      logger.info(`Updated Google Doc ${documentId} in place`);
+      return `https://docs.google.com/document/d/${documentId}/edit`;
+    } catch (error) {
+      logger.error('Error updating Google Doc:', error);
+      throw new AppError('Failed to update Google Doc', 500);
+    }
+  }
+
+  // Take a document out of public view without deleting it
+  async unshareDocument(documentId: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new AppError('Google Docs not configured', 400);
+    }
+
+    try {
+      const { data } = await this.drive.permissions.list({
+        fileId: documentId,
+        fields: 'permissions(id,type)'
+      });
+      const publicPermissions = (data.permissions || []).filter((permission: any) => permission.type === 'anyone');
+      for (const permission of publicPermissions) {
+        await this.drive.permissions.delete({ fileId: documentId, permissionId: permission.id });
+      }
+      logger.info(`Removed ${publicPermissions.length} public permission(s) from Google Doc ${documentId}`);
+    } catch (error) {
+      logger.error('Error unsharing Google Doc:', error);
+      throw new AppError('Failed to unshare Google Doc', 500);
+    }
+  }
+
+  // Every Google Doc in the configured folder, excluding trashed ones
+  async listFolderDocuments(): Promise<FolderDocument[]> {
+    if (!this.isConfigured()) {
+      throw new AppError('Google Docs not configured', 400);
+    }
+
+    const documents: FolderDocument[] = [];
+    let pageToken: string | undefined;
+    try {
+      do {
+        const { data } = await this.drive.files.list({
+          q: `'${this.folderId}' in parents and mimeType = 'application/vnd.google-apps.document' and trashed = false`,
+          fields: 'nextPageToken, files(id, name, webViewLink, createdTime, modifiedTime)',
+          orderBy: 'createdTime',
+          pageSize: 100,
+          pageToken
+        });
+        for (const file of data.files || []) {
+          documents.push({
+            id: file.id,
+            name: file.name,
+            url: file.webViewLink || `https://docs.google.com/document/d/${file.id}/edit`,
+            createdTime: file.createdTime,
+            modifiedTime: file.modifiedTime
+          });
+        }
+        pageToken = data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      logger.error('Error listing Google Docs folder:', error);
+      throw new AppError('Failed to list Google Docs folder', 500);
+    }
+
+    return documents;
+  }
+
+  private getDocumentTitle(content: GoogleDocsContent): string {
+    const timestamp = new Date().toISOString().split('T')[0];
+    return `${content.platform.toUpperCase()} - ${content.title} (${timestamp})`;
+  }
+
+  // Index just past the body's content; a new document's body is a single newline
+  private async getBodyEndIndex(documentId: string): Promise<number> {
+    const { data } = await this.docs.documents.get({ documentId, fields: 'body(content(endIndex))' });
+    const content = data.body?.content || [];
+    return content.length > 0 ? content[content.length - 1].endIndex : 2;
+  }
+
+  // Write the post into the document with its Markdown turned into Docs formatting.
+  // An existing body, up to bodyEndIndex, is cleared first in the same batch.
+  private async populateDocument(documentId: string, content: GoogleDocsContent, bodyEndIndex: number = 2) {
+    const image = content.imageUrl ? await this.shareImage(content.imageUrl) : null;
+    const clearRequests = bodyEndIndex > 2 ? [
+      { deleteContentRange: { range: { startIndex: 1, endIndex: bodyEndIndex - 1 } } },
+      // The paragraph left behind keeps the style of the old last paragraph
+      { deleteParagraphBullets: { range: { startIndex: 1, endIndex: 2 } } },
+      {
+        updateParagraphStyle: {
+          range: { startIndex: 1, endIndex: 2 },
+          paragraphStyle: { namedStyleType: 'NORMAL_TEXT', alignment: 'START' },
+          fields: 'namedStyleType,alignment'
+        }
+      }
+    ] : [];
+
+    try {
+      try {
+        await this.docs.documents.batchUpdate({
+          documentId,
+          requestBody: { requests: [...clearRequests, ...buildDocumentRequests(this.buildBlocks(content, image?.uri))] }
+        });
+      } catch (error) {
+        if (!image) throw error;
+
+        // Usually Google failing to fetch the image; the batch is all-or-nothing,
+        // so the document is unchanged
+        logger.warn(`Could not insert the image into Google Doc ${documentId}, writing it without:`, error);
+        await this.docs.documents.batchUpdate({
+          documentId,
+          requestBody: { requests: [...clearRequests, ...buildDocumentRequests(this.buildBlocks(content))] }
+        });
+      }
+    } finally {
+      if (image?.driveFileId) {
+        await this.drive.files.delete({ fileId: image.driveFileId }).catch((error: any) => {
+          logger.warn(`Could not delete temporary image ${image.driveFileId} from Drive:`, error);
+        });
       }
-    });
+    }
+  }
+
+  private buildBlocks(content: GoogleDocsContent, imageUri?: string): DocumentBlock[] {
+    const body = parseMarkdown(content.body);
+    // Models often repeat the title as the first heading
+    const first = body[0];
+    if (first?.type === 'heading' && first.runs.map(run => run.text).join('').trim().toLowerCase() === content.title.trim().toLowerCase()) {
+      body.shift();
+    }
+
+    const blocks: DocumentBlock[] = [
+      { type: 'title', runs: [{ text: content.title }] },
+      { type: 'paragraph', muted: true, runs: [{ text: `Topic: ${content.topic} · Generated ${new Date().toISOString().split('T')[0]}` }] }
+    ];
+    if (imageUri) {
+      blocks.push({ type: 'image', uri: imageUri });
+    }
+    blocks.push(...body);
+    if (content.hashtags) {
+      blocks.push({ type: 'paragraph', muted: true, runs: [{ text: content.hashtags }] });
+    }
+
+    // Numbered as in the research the post was written from
+    if (content.sources && content.sources.length > 0) {
+      blocks.push({ type: 'heading', level: 2, runs: [{ text: 'Sources' }] });
+      blocks.push({
+        type: 'list',
+        ordered: true,
+        items: content.sources.map(source => {
+          const details = [source.source, source.date].filter(Boolean).join(', ');
+          return {
+            level: 0,
+            runs: [
+              { text: source.title || source.link || 'Untitled', link: source.link || undefined },
+              ...(details ? [{ text: ` (${details})` }] : [])
+            ]
+          };
+        })
+      });
+    }
+
+    return blocks;
+  }
+
+  // Docs fetches inserted images from a public URL itself. Library images aren't
+  // public, so they are shared from Drive for the insert and deleted afterwards.
+  private async shareImage(imageUrl: string): Promise<{ uri: string; driveFileId?: string } | null> {
+    const assetId = parseAssetUrl(imageUrl);
+    if (!assetId) {
+      return /^https?:\/\//.test(imageUrl) ? { uri: imageUrl } : null;
+    }
+
+    try {
+      const asset = await new AssetService().readAssetFile(assetId);
+      const file = await this.drive.files.create({
+        requestBody: { name: asset.filename, ...(this.folderId ? { parents: [this.folderId] } : {}) },
+        media: { mimeType: asset.mimeType, body: Readable.from(asset.data) },
+        fields: 'id'
+      });
+      await this.drive.permissions.create({
+        fileId: file.data.id,
+        requestBody: { role: 'reader', type: 'anyone' }
+      });
+      return { uri: `https://drive.google.com/uc?export=download&id=${file.data.id}`, driveFileId: file.data.id };
+    } catch (error) {
+      logger.warn(`Could not share image asset ${assetId} for Google Docs, leaving it out:`, error);
+      return null;
+    }
   }
 
   // Make document publicly accessible and share with user
@@ -363,6 +544,30 @@ export class GoogleDocsService {
     }
   }
 
+  // Move a document to the Drive trash
+  async trashDocument(documentId: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new AppError('Google Docs not configured', 400);
+    }
+
+    try {
+      await this.drive.files.update({
+        fileId: documentId,
+        requestBody: { trashed: true }
+      });
+      logger.info(`Moved Google Doc ${documentId} to trash`);
+    } catch (error) {
+      logger.error('Error trashing Google Doc:', error);
+      throw new AppError('Failed to trash Google Doc', 500);
+    }
+  }
+
+  // Extract the document ID from a docs.google.com URL
+  static extractDocumentId(url: string): string | null {
+    const match = url.match(/\/document\/d\/([^/]+)/);
+    return match ? match[1] : null;
+  }
+
   // Get folder information
   async getFolderInfo(): Promise<any> {
     if (!this.folderId || !this.drive) {
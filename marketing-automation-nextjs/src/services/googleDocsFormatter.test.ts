@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDocumentRequests, parseInline, parseMarkdown } from './googleDocsFormatter';
+
+const requestsOfType = (requests: any[], type: string) => requests.filter(request => type in request).map(request => request[type]);
+
+test('parses inline styles and leaves snake_case alone', () => {
+  assert.deepEqual(parseInline('**Bold** and *italic* `code` snake_case_name'), [
+    { text: 'Bold', bold: true },
+    { text: ' and ' },
+    { text: 'italic', italic: true },
+    { text: ' ' },
+    { text: 'code', code: true },
+    { text: ' snake_case_name' }
+  ]);
+  assert.deepEqual(parseInline('[**docs**](https://example.com)'), [{ text: 'docs', bold: true, link: 'https://example.com' }]);
+});
+
+test('parses nested lists, tables and fenced code', () => {
+  const blocks = parseMarkdown('- one\n  - nested\n- two\n\n| A | B |\n|---|---|\n| 1 | 2 |\n\n```\nx = 1\n```');
+  assert.deepEqual(blocks.map(block => block.type), ['list', 'table', 'code']);
+  assert.deepEqual((blocks[0] as any).items.map((item: any) => item.level), [0, 1, 0]);
+  assert.deepEqual((blocks[1] as any).rows, [[[{ text: '1' }], [{ text: '2' }]]]);
+  assert.deepEqual((blocks[2] as any).lines, ['x = 1']);
+});
+
+test('an empty document needs no requests', () => {
+  assert.deepEqual(buildDocumentRequests([]), []);
+});
+
+test('inserts all text at once and styles it at the right indices', () => {
+  const requests = buildDocumentRequests([
+    { type: 'title', runs: [{ text: 'Title' }] },
+    { type: 'paragraph', runs: [{ text: 'Hi ' }, { text: 'there', bold: true }] }
+  ]);
+
+  assert.deepEqual(requests[0], { insertText: { location: { index: 1 }, text: 'Title\nHi there\n' } });
+  assert.deepEqual(requestsOfType(requests, 'updateParagraphStyle'), [
+    { range: { startIndex: 1, endIndex: 7 }, paragraphStyle: { namedStyleType: 'TITLE' }, fields: 'namedStyleType' }
+  ]);
+  // "there" starts after "Title\n" and "Hi "
+  assert.deepEqual(requestsOfType(requests, 'updateTextStyle'), [
+    { range: { startIndex: 10, endIndex: 15 }, textStyle: { bold: true }, fields: 'bold' }
+  ]);
+});
+
+test('starts at the given index when appending to a document', () => {
+  const requests = buildDocumentRequests([{ type: 'heading', level: 2, runs: [{ text: 'More' }] }], 42);
+  assert.deepEqual(requests[0].insertText.location, { index: 42 });
+  assert.deepEqual(requestsOfType(requests, 'updateParagraphStyle')[0].range, { startIndex: 42, endIndex: 47 });
+});
+
+test('nests list items with tabs and bullets the whole list', () => {
+  const requests = buildDocumentRequests(parseMarkdown('1. first\n   1. **inner**'));
+
+  assert.equal(requests[0].insertText.text, 'first\n\tinner\n');
+  // The tab before "inner" is skipped when styling
+  assert.deepEqual(requestsOfType(requests, 'updateTextStyle')[0].range, { startIndex: 8, endIndex: 13 });
+  assert.deepEqual(requestsOfType(requests, 'createParagraphBullets'), [
+    { range: { startIndex: 1, endIndex: 14 }, bulletPreset: 'NUMBERED_DECIMAL_ALPHA_ROMAN' }
+  ]);
+});
+
+test('fills table cells from the last one back', () => {
+  const requests = buildDocumentRequests([
+    { type: 'paragraph', runs: [{ text: 'Intro' }] },
+    { type: 'table', header: [[{ text: 'A' }], [{ text: 'B' }]], rows: [[[{ text: '1' }], [{ text: '2' }]]] }
+  ]);
+
+  // The table goes in the empty paragraph at 7, after "Intro\n"
+  assert.deepEqual(requestsOfType(requests, 'insertTable'), [{ rows: 2, columns: 2, location: { index: 7 } }]);
+  assert.deepEqual(
+    requestsOfType(requests, 'insertText').slice(1).map(insert => [insert.location.index, insert.text]),
+    [[18, '2'], [16, '1'], [13, 'B'], [11, 'A']]
+  );
+  // Header cells are bold
+  assert.deepEqual(
+    requestsOfType(requests, 'updateTextStyle').filter(style => style.textStyle.bold).map(style => style.range.startIndex),
+    [13, 11]
+  );
+});
+
+test('applies structural changes from the end of the document backwards', () => {
+  const requests = buildDocumentRequests([
+    { type: 'list', ordered: false, items: [{ level: 0, runs: [{ text: 'item' }] }] },
+    { type: 'image', uri: 'https://example.com/cover.png' }
+  ]);
+
+  const structural = requests.filter(request => 'createParagraphBullets' in request || 'insertInlineImage' in request);
+  assert.deepEqual(structural.map(request => Object.keys(request)[0]), ['insertInlineImage', 'createParagraphBullets']);
+  assert.deepEqual(structural[0].insertInlineImage.location, { index: 6 });
+});
+
+test('drops control characters that Docs rejects', () => {
+  const requests = buildDocumentRequests([{ type: 'paragraph', runs: [{ text: 'a\u0007b\nc' }] }]);
+  assert.equal(requests[0].insertText.text, 'ab c\n');
+});
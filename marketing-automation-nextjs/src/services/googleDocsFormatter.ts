@@ -0,0 +1,415 @@
+// Converts the Markdown the AI writes into Google Docs batchUpdate requests
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export interface ListItem {
+  // Nesting depth, 0 for top-level items
+  level: number;
+  runs: InlineRun[];
+}
+
+export type DocumentBlock =
+  | { type: 'title'; runs: InlineRun[] }
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[]; muted?: boolean }
+  | { type: 'quote'; runs: InlineRun[] }
+  | { type: 'code'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'table'; header: InlineRun[][]; rows: InlineRun[][][] }
+  | { type: 'image'; uri: string };
+
+// Width of the text area on a Letter page with the default 1" margins
+const CONTENT_WIDTH_PT = 468;
+
+const MONOSPACE_FONT = 'Courier New';
+const MAX_LIST_LEVEL = 8;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Tried in order at each position; the first to match wins
+const INLINE_PATTERNS: { pattern: RegExp; toRuns: (match: RegExpExecArray, style: Omit<InlineRun, 'text'>) => InlineRun[] }[] = [
+  { pattern: /\\([\\`*_{}[\]()#+\-.!~|>])/y, toRuns: (match, style) => [{ ...style, text: match[1] }] },
+  { pattern: /`([^`]+)`/y, toRuns: (match, style) => [{ ...style, text: match[1], code: true }] },
+  { pattern: /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/y, toRuns: (match, style) => parseInline(match[1], { ...style, link: match[2] }) },
+  { pattern: /<(https?:\/\/[^>\s]+)>/y, toRuns: (match, style) => [{ ...style, text: match[1], link: match[1] }] },
+  { pattern: /\*\*\*(?=\S)(.+?)\*\*\*/y, toRuns: (match, style) => parseInline(match[1], { ...style, bold: true, italic: true }) },
+  { pattern: /\*\*(?=\S)(.+?)\*\*/y, toRuns: (match, style) => parseInline(match[1], { ...style, bold: true }) },
+  { pattern: /__(?=\S)(.+?)__(?!\w)/y, toRuns: (match, style) => parseInline(match[1], { ...style, bold: true }) },
+  { pattern: /\*(?=\S)(.+?)\*/y, toRuns: (match, style) => parseInline(match[1], { ...style, italic: true }) },
+  { pattern: /_(?=\S)(.+?)_(?!\w)/y, toRuns: (match, style) => parseInline(match[1], { ...style, italic: true }) },
+  { pattern: /~~(?=\S)(.+?)~~/y, toRuns: (match, style) => parseInline(match[1], { ...style, strikethrough: true }) }
+];
+
+// Bold, italic, strikethrough, inline code and links within a line of text
+export function parseInline(text: string, style: Omit<InlineRun, 'text'> = {}): InlineRun[] {
+  const runs: InlineRun[] = [];
+  let plain = '';
+  let position = 0;
+
+  const flushPlain = () => {
+    if (plain) runs.push({ ...style, text: plain });
+    plain = '';
+  };
+
+  while (position < text.length) {
+    // Underscores only open emphasis at the start of a word, so snake_case stays intact
+    if (text[position] === '_' && position > 0 && /\w/.test(text[position - 1])) {
+      plain += text[position];
+      position++;
+      continue;
+    }
+
+    let matched = false;
+    for (const { pattern, toRuns } of INLINE_PATTERNS) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+      if (match) {
+        flushPlain();
+        // Nested text is parsed with the same patterns, which resets lastIndex
+        position += match[0].length;
+        runs.push(...toRuns(match, style));
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      plain += text[position];
+      position++;
+    }
+  }
+  flushPlain();
+
+  return runs;
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+// Headings, paragraphs, bullet and numbered lists (nested by indentation), block
+// quotes, fenced code and pipe tables. Horizontal rules are dropped.
+export function parseMarkdown(markdown: string): DocumentBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: DocumentBlock[] = [];
+  let index = 0;
+
+  const isBlockStart = (line: string, next: string | undefined) =>
+    HEADING_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    FENCE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    (line.includes('|') && next !== undefined && TABLE_SEPARATOR_PATTERN.test(next));
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const next = lines[index + 1];
+
+    if (!line.trim() || RULE_PATTERN.test(line)) {
+      index++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence)) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', lines: codeLines });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    if (line.includes('|') && next !== undefined && TABLE_SEPARATOR_PATTERN.test(next)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|') && lines[index].trim()) {
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => cells[column] || ''));
+        index++;
+      }
+      blocks.push({
+        type: 'table',
+        header: header.map(cell => parseInline(cell)),
+        rows: rows.map(row => row.map(cell => parseInline(cell)))
+      });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push(lines[index].match(QUOTE_PATTERN)![1].trim());
+        index++;
+      }
+      blocks.push({ type: 'quote', runs: parseInline(quoteLines.filter(Boolean).join(' ')) });
+      continue;
+    }
+
+    const firstItem = line.match(LIST_ITEM_PATTERN);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const items: { level: number; text: string }[] = [];
+      // Indentation of each open nesting level
+      const indents: number[] = [];
+
+      while (index < lines.length) {
+        const itemLine = lines[index];
+        const item = itemLine.match(LIST_ITEM_PATTERN);
+
+        if (item) {
+          const indent = item[1].replace(/\t/g, '    ').length;
+          // A top-level item of the other kind starts a new list
+          if (indents.length > 0 && indent <= indents[0] && /\d/.test(item[2]) !== ordered) break;
+
+          while (indents.length > 0 && indent < indents[indents.length - 1]) indents.pop();
+          if (indents.length === 0 || indent > indents[indents.length - 1]) indents.push(indent);
+
+          items.push({ level: Math.min(indents.length - 1, MAX_LIST_LEVEL), text: item[3] });
+          index++;
+        } else if (itemLine.trim() && /^\s+/.test(itemLine) && items.length > 0) {
+          // An indented line continues the item above
+          items[items.length - 1].text += ` ${itemLine.trim()}`;
+          index++;
+        } else if (!itemLine.trim() && LIST_ITEM_PATTERN.test(lines[index + 1] || '')) {
+          // Loose lists separate items with blank lines
+          index++;
+        } else {
+          break;
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, items: items.map(item => ({ level: item.level, runs: parseInline(item.text) })) });
+      continue;
+    }
+
+    const paragraphLines: string[] = [];
+    while (index < lines.length && lines[index].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[index], lines[index + 1]))) {
+      paragraphLines.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: 'paragraph', runs: parseInline(paragraphLines.join(' ')) });
+  }
+
+  return blocks;
+}
+
+function runsText(runs: InlineRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+// Docs rejects most control characters; tabs are kept for list nesting
+function cleanText(text: string): string {
+  return text.replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, '').replace(/\n/g, ' ');
+}
+
+function textStyleRequests(runs: InlineRun[], startIndex: number, extraStyle: Record<string, any> = {}): any[] {
+  const requests: any[] = [];
+  let position = startIndex;
+
+  for (const run of runs) {
+    const length = cleanText(run.text).length;
+    const textStyle: Record<string, any> = { ...extraStyle };
+    if (run.bold) textStyle.bold = true;
+    if (run.italic) textStyle.italic = true;
+    if (run.strikethrough) textStyle.strikethrough = true;
+    if (run.code) textStyle.weightedFontFamily = { fontFamily: MONOSPACE_FONT };
+    if (run.link) textStyle.link = { url: run.link };
+
+    const fields = Object.keys(textStyle);
+    if (length > 0 && fields.length > 0) {
+      requests.push({
+        updateTextStyle: {
+          range: { startIndex: position, endIndex: position + length },
+          textStyle,
+          fields: fields.join(',')
+        }
+      });
+    }
+    position += length;
+  }
+
+  return requests;
+}
+
+function paragraphStyleRequest(startIndex: number, endIndex: number, paragraphStyle: Record<string, any>): any {
+  return {
+    updateParagraphStyle: {
+      range: { startIndex, endIndex },
+      paragraphStyle,
+      fields: Object.keys(paragraphStyle).join(',')
+    }
+  };
+}
+
+// Requests that write the blocks into a document starting at `startIndex` (1 for a
+// new, empty document). All text goes in with one insert and is styled; tables,
+// images and list bullets, which change the indices after them, are then applied
+// from the end of the document backwards so earlier indices stay valid.
+export function buildDocumentRequests(blocks: DocumentBlock[], startIndex: number = 1): any[] {
+  let text = '';
+  const styleRequests: any[] = [];
+  const structuralRequests: { index: number; requests: any[] }[] = [];
+
+  const appendParagraph = (content: string): { start: number; end: number } => {
+    const start = startIndex + text.length;
+    text += `${content}\n`;
+    return { start, end: startIndex + text.length };
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'title':
+      case 'heading':
+      case 'paragraph':
+      case 'quote': {
+        const { start, end } = appendParagraph(cleanText(runsText(block.runs)));
+        styleRequests.push(...textStyleRequests(
+          block.runs,
+          start,
+          block.type === 'quote' || (block.type === 'paragraph' && block.muted) ? { italic: true } : {}
+        ));
+
+        if (block.type === 'title') {
+          styleRequests.push(paragraphStyleRequest(start, end, { namedStyleType: 'TITLE' }));
+        } else if (block.type === 'heading') {
+          styleRequests.push(paragraphStyleRequest(start, end, { namedStyleType: `HEADING_${block.level}` }));
+        } else if (block.type === 'quote') {
+          styleRequests.push(paragraphStyleRequest(start, end, {
+            indentStart: { magnitude: 36, unit: 'PT' },
+            indentFirstLine: { magnitude: 36, unit: 'PT' }
+          }));
+        } else if (block.muted && end - start > 1) {
+          styleRequests.push({
+            updateTextStyle: {
+              range: { startIndex: start, endIndex: end - 1 },
+              textStyle: { foregroundColor: { color: { rgbColor: { red: 0.4, green: 0.4, blue: 0.4 } } } },
+              fields: 'foregroundColor'
+            }
+          });
+        }
+        break;
+      }
+
+      case 'code': {
+        for (const line of block.lines.length > 0 ? block.lines : ['']) {
+          const content = cleanText(line.replace(/\t/g, '    '));
+          const { start } = appendParagraph(content);
+          if (content) {
+            styleRequests.push({
+              updateTextStyle: {
+                range: { startIndex: start, endIndex: start + content.length },
+                textStyle: { weightedFontFamily: { fontFamily: MONOSPACE_FONT } },
+                fields: 'weightedFontFamily'
+              }
+            });
+          }
+        }
+        break;
+      }
+
+      case 'list': {
+        if (block.items.length === 0) break;
+        const listStart = startIndex + text.length;
+
+        for (const item of block.items) {
+          // Leading tabs set the nesting level; Docs removes them when adding bullets
+          const { start } = appendParagraph(`${'\t'.repeat(item.level)}${cleanText(runsText(item.runs))}`);
+          styleRequests.push(...textStyleRequests(item.runs, start + item.level));
+        }
+
+        structuralRequests.push({
+          index: listStart,
+          requests: [{
+            createParagraphBullets: {
+              range: { startIndex: listStart, endIndex: startIndex + text.length },
+              bulletPreset: block.ordered ? 'NUMBERED_DECIMAL_ALPHA_ROMAN' : 'BULLET_DISC_CIRCLE_SQUARE'
+            }
+          }]
+        });
+        break;
+      }
+
+      case 'table': {
+        const columns = block.header.length;
+        if (columns === 0) break;
+        const rows = [block.header, ...block.rows];
+        const { start } = appendParagraph('');
+
+        // A table inserted at an index starts one further on (Docs adds a newline
+        // before it); each row and each cell opens with one index of its own, and
+        // every cell holds an empty paragraph
+        const requests: any[] = [{ insertTable: { rows: rows.length, columns, location: { index: start } } }];
+        for (let row = rows.length - 1; row >= 0; row--) {
+          for (let column = columns - 1; column >= 0; column--) {
+            const runs = rows[row][column] || [];
+            const cellText = cleanText(runsText(runs)).replace(/\t/g, ' ');
+            if (!cellText) continue;
+
+            const cellIndex = start + 4 + row * (1 + 2 * columns) + 2 * column;
+            requests.push({ insertText: { location: { index: cellIndex }, text: cellText } });
+            requests.push(...textStyleRequests(runs, cellIndex, row === 0 ? { bold: true } : {}));
+          }
+        }
+
+        structuralRequests.push({ index: start, requests });
+        break;
+      }
+
+      case 'image': {
+        const { start, end } = appendParagraph('');
+        styleRequests.push(paragraphStyleRequest(start, end, { alignment: 'CENTER' }));
+        structuralRequests.push({
+          index: start,
+          requests: [{
+            insertInlineImage: {
+              location: { index: start },
+              uri: block.uri,
+              objectSize: { width: { magnitude: CONTENT_WIDTH_PT, unit: 'PT' } }
+            }
+          }]
+        });
+        break;
+      }
+    }
+  }
+
+  if (!text) return [];
+
+  return [
+    { insertText: { location: { index: startIndex }, text } },
+    ...styleRequests,
+    ...structuralRequests
+      .sort((a, b) => b.index - a.index)
+      .flatMap(structural => structural.requests)
+  ];
+}
@@ -0,0 +1,68 @@
+import axios from 'axios';
+import { AppError } from '../../lib/utils/errors';
+import { LLMProviderId } from '../../lib/utils/config';
+import { BaseLLMProvider, LLMCompletionOptions, readServerSentEvents } from './provider';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Anthropic Messages API, or any server that implements it at a custom base URL
+export class AnthropicProvider extends BaseLLMProvider {
+  id: LLMProviderId = 'anthropic';
+  name = 'Anthropic';
+
+  private buildRequest(prompt: string, stream: boolean, options?: LLMCompletionOptions) {
+    const baseUrl = (this.settings.baseUrl || ANTHROPIC_API_URL).replace(/\/+$/, '');
+    if (!this.settings.apiKey && baseUrl === ANTHROPIC_API_URL) {
+      throw new AppError('Anthropic API key not configured', 400);
+    }
+
+    // There is no JSON response mode, so ask for it in the prompt
+    const { temperature, maxTokens, json } = this.resolveOptions(options);
+    const content = json ? `${prompt}\n\nRespond with only the JSON object, without any other text.` : prompt;
+
+    return {
+      url: `${baseUrl}/v1/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.settings.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: {
+        model: this.model,
+        max_tokens: maxTokens,
+        temperature,
+        messages: [{ role: 'user', content }],
+        stream
+      }
+    };
+  }
+
+  async complete(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    try {
+      const { url, headers, body } = this.buildRequest(prompt, false, options);
+      const response = await axios.post(url, body, { headers });
+      return (response.data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  async *stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string> {
+    try {
+      const { url, headers, body } = this.buildRequest(prompt, true, options);
+      const response = await axios.post(url, body, { headers, responseType: 'stream' });
+      for await (const data of readServerSentEvents(response.data)) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          yield event.delta.text;
+        }
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
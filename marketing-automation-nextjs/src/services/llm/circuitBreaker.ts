@@ -0,0 +1,47 @@
+import { LLMProviderId } from '../../lib/utils/config';
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 2 * 60 * 1000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Stops calling a provider after repeated failures, then lets a trial call
+// through once the cooldown has passed
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= COOLDOWN_MS ? 'half-open' : 'open';
+  }
+
+  canRequest(): boolean {
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  // A failed trial call while half-open re-opens the circuit for another cooldown
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// One breaker per provider, shared by every request in the process
+const breakers = new Map<LLMProviderId, CircuitBreaker>();
+
+export function getCircuitBreaker(id: LLMProviderId): CircuitBreaker {
+  let breaker = breakers.get(id);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(id, breaker);
+  }
+  return breaker;
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMProviderId } from '../../lib/utils/config';
+import { FallbackLLMProvider } from './fallback.provider';
+import { LLMProvider, LLMProviderError } from './provider';
+import { getCircuitBreaker } from './circuitBreaker';
+
+const COOLDOWN_MS = 2 * 60 * 1000;
+
+// A provider whose calls are answered by `respond`, counting how often it was asked
+function fakeProvider(id: LLMProviderId, respond: () => string) {
+  const provider = {
+    id,
+    name: id,
+    model: `${id}-model`,
+    calls: 0,
+    async complete() {
+      provider.calls++;
+      return respond();
+    },
+    async completeJSON() {
+      return JSON.parse(await provider.complete());
+    },
+    async *stream() {
+      yield await provider.complete();
+    }
+  };
+  return provider satisfies LLMProvider;
+}
+
+const outage = () => { throw new LLMProviderError('503 Service Unavailable', true); };
+const badKey = () => { throw new LLMProviderError('401 Invalid API key', false); };
+
+beforeEach(() => {
+  getCircuitBreaker('openai').recordSuccess();
+  getCircuitBreaker('gemini').recordSuccess();
+  // Skip the retry backoff
+  mock.method(globalThis, 'setTimeout', (callback: () => void) => callback());
+});
+
+afterEach(() => mock.restoreAll());
+
+test('falls back to the next provider and opens the breaker after repeated outages', async () => {
+  const primary = fakeProvider('openai', outage);
+  const secondary = fakeProvider('gemini', () => 'from gemini');
+  const llm = new FallbackLLMProvider([primary, secondary]);
+
+  for (let run = 0; run < 3; run++) {
+    assert.equal(await llm.complete('prompt'), 'from gemini');
+  }
+  assert.equal(primary.calls, 9);
+  assert.equal(llm.id, 'gemini');
+  assert.equal(getCircuitBreaker('openai').state, 'open');
+
+  // While open, the primary isn't called at all
+  assert.equal(await llm.complete('prompt'), 'from gemini');
+  assert.equal(primary.calls, 9);
+});
+
+test('configuration errors fail over without retrying or opening the breaker', async () => {
+  const primary = fakeProvider('openai', badKey);
+  const llm = new FallbackLLMProvider([primary, fakeProvider('gemini', () => 'from gemini')]);
+
+  for (let run = 0; run < 3; run++) {
+    await llm.complete('prompt');
+  }
+  assert.equal(primary.calls, 3);
+  assert.equal(getCircuitBreaker('openai').state, 'closed');
+});
+
+test('a half-open breaker lets a trial call through and closes on success', async (t) => {
+  const breaker = getCircuitBreaker('openai');
+  for (let failure = 0; failure < 3; failure++) breaker.recordFailure();
+  assert.equal(breaker.state, 'open');
+
+  const later = Date.now() + COOLDOWN_MS;
+  t.mock.method(Date, 'now', () => later);
+  assert.equal(breaker.state, 'half-open');
+
+  const primary = fakeProvider('openai', () => 'from openai');
+  const llm = new FallbackLLMProvider([primary, fakeProvider('gemini', () => 'from gemini')]);
+  assert.equal(await llm.complete('prompt'), 'from openai');
+  assert.equal(breaker.state, 'closed');
+});
+
+test('a failed trial call re-opens the breaker for another cooldown', async (t) => {
+  const breaker = getCircuitBreaker('openai');
+  for (let failure = 0; failure < 3; failure++) breaker.recordFailure();
+
+  const later = Date.now() + COOLDOWN_MS;
+  t.mock.method(Date, 'now', () => later);
+  assert.equal(breaker.state, 'half-open');
+
+  breaker.recordFailure();
+  assert.equal(breaker.state, 'open');
+});
+
+test('fails with a 503 when every provider\'s breaker is open', async () => {
+  for (const id of ['openai', 'gemini'] as const) {
+    for (let failure = 0; failure < 3; failure++) getCircuitBreaker(id).recordFailure();
+  }
+
+  const llm = new FallbackLLMProvider([fakeProvider('openai', () => 'a'), fakeProvider('gemini', () => 'b')]);
+  await assert.rejects(llm.complete('prompt'), { statusCode: 503 });
+});
@@ -0,0 +1,132 @@
+import { AppError } from '../../lib/utils/errors';
+import { logger } from '../../lib/utils/logger';
+import { LLMProviderId } from '../../lib/utils/config';
+import { LLMCompletionOptions, LLMProvider, LLMProviderError } from './provider';
+import { getCircuitBreaker } from './circuitBreaker';
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+function isRetryable(error: any): boolean {
+  return error instanceof LLMProviderError && error.retryable;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tries providers in order, retrying transient failures with exponential backoff
+// and skipping providers whose circuit breaker is open. `id` and `model` report
+// the provider that served the most recent request.
+export class FallbackLLMProvider implements LLMProvider {
+  private active: LLMProvider;
+
+  constructor(private providers: LLMProvider[]) {
+    if (providers.length === 0) {
+      throw new AppError('No AI provider configured', 400);
+    }
+    this.active = providers[0];
+  }
+
+  get id(): LLMProviderId {
+    return this.active.id;
+  }
+
+  get name(): string {
+    return this.active.name;
+  }
+
+  get model(): string {
+    return this.active.model;
+  }
+
+  get activeProvider(): LLMProvider {
+    return this.active;
+  }
+
+  complete(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    return this.run(provider => provider.complete(prompt, options));
+  }
+
+  completeJSON<T = any>(prompt: string, options?: LLMCompletionOptions): Promise<T> {
+    return this.run(provider => provider.completeJSON<T>(prompt, options));
+  }
+
+  // Falls back only if a provider fails before producing any output; a stream
+  // that breaks part-way through can't be resumed elsewhere
+  async *stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string> {
+    let lastError: any = null;
+
+    for (const provider of this.availableProviders()) {
+      const breaker = getCircuitBreaker(provider.id);
+      let started = false;
+      try {
+        for await (const chunk of provider.stream(prompt, options)) {
+          if (!started) {
+            started = true;
+            this.active = provider;
+          }
+          yield chunk;
+        }
+        breaker.recordSuccess();
+        return;
+      } catch (error) {
+        if (isRetryable(error)) breaker.recordFailure();
+        if (started) throw error;
+        lastError = error;
+        logger.warn(`${provider.name} stream failed, trying the next AI provider`);
+      }
+    }
+
+    throw lastError || this.unavailableError();
+  }
+
+  private async run<T>(call: (provider: LLMProvider) => Promise<T>): Promise<T> {
+    let lastError: any = null;
+
+    for (const provider of this.availableProviders()) {
+      const breaker = getCircuitBreaker(provider.id);
+      try {
+        const result = await this.withRetry(provider, call);
+        breaker.recordSuccess();
+        this.active = provider;
+        return result;
+      } catch (error) {
+        // Only outages count towards the breaker; config errors fail fast anyway
+        if (isRetryable(error)) breaker.recordFailure();
+        lastError = error;
+        logger.warn(`${provider.name} failed, trying the next AI provider`);
+      }
+    }
+
+    throw lastError || this.unavailableError();
+  }
+
+  private async withRetry<T>(provider: LLMProvider, call: (provider: LLMProvider) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call(provider);
+      } catch (error: any) {
+        if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) throw error;
+
+        const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+        const delay = Math.min(Math.max(backoff, error.retryAfterMs || 0), MAX_RETRY_DELAY_MS);
+        logger.warn(`${provider.name} request failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private availableProviders(): LLMProvider[] {
+    return this.providers.filter(provider => {
+      const available = getCircuitBreaker(provider.id).canRequest();
+      if (!available) {
+        logger.warn(`Skipping ${provider.name}: circuit open after repeated failures`);
+      }
+      return available;
+    });
+  }
+
+  private unavailableError(): AppError {
+    return new AppError('All AI providers are temporarily unavailable after repeated failures', 503);
+  }
+}
@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { AppError } from '../../lib/utils/errors';
+import { LLMProviderId } from '../../lib/utils/config';
+import { BaseLLMProvider, LLMCompletionOptions, readServerSentEvents } from './provider';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export class GeminiProvider extends BaseLLMProvider {
+  id: LLMProviderId = 'gemini';
+  name = 'Google Gemini';
+
+  private buildRequest(prompt: string, options?: LLMCompletionOptions) {
+    if (!this.settings.apiKey) {
+      throw new AppError('Gemini API key not configured', 400);
+    }
+
+    const { temperature, maxTokens, json } = this.resolveOptions(options);
+    return {
+      baseUrl: `${(this.settings.baseUrl || GEMINI_API_URL).replace(/\/+$/, '')}/models/${this.model}`,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.settings.apiKey },
+      body: {
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature,
+          maxOutputTokens: maxTokens,
+          ...(json ? { responseMimeType: 'application/json' } : {})
+        }
+      }
+    };
+  }
+
+  private extractText(data: any): string {
+    return (data?.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+  }
+
+  async complete(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    try {
+      const { baseUrl, headers, body } = this.buildRequest(prompt, options);
+      const response = await axios.post(`${baseUrl}:generateContent`, body, { headers });
+      return this.extractText(response.data);
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  async *stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string> {
+    try {
+      const { baseUrl, headers, body } = this.buildRequest(prompt, options);
+      const response = await axios.post(`${baseUrl}:streamGenerateContent?alt=sse`, body, { headers, responseType: 'stream' });
+      for await (const data of readServerSentEvents(response.data)) {
+        const text = this.extractText(JSON.parse(data));
+        if (text) yield text;
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { AppError } from '../../lib/utils/errors';
+import { LLMProviderId, LLMProviderSettings, UserConfig, getConfig } from '../../lib/utils/config';
+import { LLMProvider, LLMSettings } from './provider';
+import { OpenAICompatibleProvider, OpenAIProvider, LMStudioProvider } from './openaiCompatible.provider';
+import { GeminiProvider } from './gemini.provider';
+import { OllamaProvider } from './ollama.provider';
+import { AnthropicProvider } from './anthropic.provider';
+import { FallbackLLMProvider } from './fallback.provider';
+
+interface LLMProviderDefinition {
+  defaultModel: string;
+  // UserConfig key holding the provider's API key, if it uses one
+  apiKeyConfig?: keyof UserConfig;
+  create(settings: LLMSettings): LLMProvider;
+}
+
+// Built-in providers. To add a backend, implement LLMProvider in a new module and add it here.
+const definitions: Record<LLMProviderId, LLMProviderDefinition> = {
+  openai: {
+    defaultModel: 'gpt-4.1-mini',
+    apiKeyConfig: 'openAiKey',
+    create: settings => new OpenAIProvider(settings)
+  },
+  gemini: {
+    defaultModel: 'gemini-2.0-flash',
+    apiKeyConfig: 'geminiApiKey',
+    create: settings => new GeminiProvider(settings)
+  },
+  lmstudio: {
+    defaultModel: 'local-model',
+    create: settings => new LMStudioProvider(settings)
+  },
+  ollama: {
+    defaultModel: process.env.OLLAMA_MODEL || 'llama2',
+    create: settings => new OllamaProvider(settings)
+  },
+  anthropic: {
+    defaultModel: 'claude-3-5-haiku-latest',
+    apiKeyConfig: 'anthropicApiKey',
+    create: settings => new AnthropicProvider(settings)
+  },
+  'openai-compatible': {
+    defaultModel: 'default',
+    apiKeyConfig: 'openAiCompatibleApiKey',
+    create: settings => new OpenAICompatibleProvider(settings)
+  }
+};
+
+// The selected provider (settings or AI_PROVIDER) followed by its fallbacks, with retries and circuit breakers
+export async function getLLMProvider(): Promise<FallbackLLMProvider> {
+  const primary: string = (await getConfig('aiProvider')) || 'openai';
+  const configuredFallbacks = await getConfig('aiFallbackProviders');
+  // AI_FALLBACK_PROVIDERS is a comma-separated list
+  const fallbacks: string[] = typeof configuredFallbacks === 'string'
+    ? configuredFallbacks.split(',').map(id => id.trim()).filter(Boolean)
+    : configuredFallbacks || [];
+
+  const ids = Array.from(new Set([primary, ...fallbacks]));
+  const providers = await Promise.all(ids.map(id => createLLMProvider(id)));
+  return new FallbackLLMProvider(providers);
+}
+
+// A single provider configured with its model, sampling settings and API key
+export async function createLLMProvider(id: string): Promise<LLMProvider> {
+  const definition = definitions[id as LLMProviderId];
+  if (!definition) {
+    throw new AppError(`Unknown AI provider: ${id}`, 400);
+  }
+
+  const overrides: LLMProviderSettings = (await getConfig('llmProviders'))?.[id] || {};
+  return definition.create({
+    ...overrides,
+    model: overrides.model || definition.defaultModel,
+    apiKey: definition.apiKeyConfig ? (await getConfig(definition.apiKeyConfig)) || undefined : undefined
+  });
+}
+
+export * from './provider';
+export * from './circuitBreaker';
+export { FallbackLLMProvider, OpenAICompatibleProvider, OpenAIProvider, LMStudioProvider, GeminiProvider, OllamaProvider, AnthropicProvider };
@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { LLMProviderId } from '../../lib/utils/config';
+import { BaseLLMProvider, LLMCompletionOptions, readLines } from './provider';
+
+export class OllamaProvider extends BaseLLMProvider {
+  id: LLMProviderId = 'ollama';
+  name = 'Ollama';
+
+  private get chatUrl(): string {
+    const baseUrl = this.settings.baseUrl || process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    return `${baseUrl.replace(/\/+$/, '')}/api/chat`;
+  }
+
+  private buildRequest(prompt: string, stream: boolean, options?: LLMCompletionOptions) {
+    const { temperature, maxTokens, json } = this.resolveOptions(options);
+    return {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream,
+      options: { temperature, num_predict: maxTokens },
+      ...(json ? { format: 'json' } : {})
+    };
+  }
+
+  async complete(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    try {
+      const response = await axios.post(this.chatUrl, this.buildRequest(prompt, false, options));
+      return response.data.message?.content || '';
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  // Ollama streams newline-delimited JSON objects rather than server-sent events
+  async *stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string> {
+    try {
+      const response = await axios.post(this.chatUrl, this.buildRequest(prompt, true, options), { responseType: 'stream' });
+      for await (const line of readLines(response.data)) {
+        const chunk = JSON.parse(line);
+        if (chunk.message?.content) yield chunk.message.content;
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
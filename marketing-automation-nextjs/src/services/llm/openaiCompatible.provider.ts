@@ -0,0 +1,102 @@
+import OpenAI from 'openai';
+import { AppError } from '../../lib/utils/errors';
+import { LLMProviderId } from '../../lib/utils/config';
+import { BaseLLMProvider, ImageGenerationSize, LLMCompletionOptions } from './provider';
+
+// Any server that implements the OpenAI chat completions API at a configurable base URL
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  id: LLMProviderId = 'openai-compatible';
+  name = 'OpenAI-compatible API';
+  // Whether the server accepts response_format: json_object
+  protected supportsJsonMode = false;
+
+  protected clientOptions(): { apiKey: string; baseURL?: string } {
+    if (!this.settings.baseUrl) {
+      throw new AppError(`${this.name} base URL not configured`, 400);
+    }
+    // Self-hosted servers usually ignore the key, but the client requires one
+    return { apiKey: this.settings.apiKey || 'not-needed', baseURL: this.settings.baseUrl };
+  }
+
+  // Retries are handled by the fallback chain, so the client shouldn't retry on its own
+  protected createClient(): OpenAI {
+    return new OpenAI({ ...this.clientOptions(), maxRetries: 0 });
+  }
+
+  private buildRequest(prompt: string, options?: LLMCompletionOptions) {
+    const { temperature, maxTokens, json } = this.resolveOptions(options);
+    return {
+      model: this.model,
+      messages: [{ role: 'user' as const, content: prompt }],
+      temperature,
+      max_tokens: maxTokens,
+      ...(json && this.supportsJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    };
+  }
+
+  async complete(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    try {
+      const completion = await this.createClient().chat.completions.create(this.buildRequest(prompt, options));
+      return completion.choices[0]?.message.content || '';
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  async *stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string> {
+    try {
+      const stream = await this.createClient().chat.completions.create({ ...this.buildRequest(prompt, options), stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  id: LLMProviderId = 'openai';
+  name = 'OpenAI';
+  protected supportsJsonMode = true;
+
+  protected clientOptions() {
+    if (!this.settings.apiKey) {
+      throw new AppError('OpenAI API key not configured', 400);
+    }
+    return { apiKey: this.settings.apiKey, baseURL: this.settings.baseUrl || undefined };
+  }
+
+  // Image generation is only available from OpenAI. Generated image URLs expire
+  // after an hour, so the image is returned as bytes for the caller to store.
+  async generateImage(prompt: string, size: ImageGenerationSize = '1024x1024'): Promise<Buffer> {
+    try {
+      const response = await this.createClient().images.generate({
+        model: 'dall-e-3',
+        prompt,
+        n: 1,
+        size,
+        response_format: 'b64_json'
+      });
+      const image = response.data?.[0]?.b64_json;
+      if (!image) {
+        throw new AppError('OpenAI returned no image', 502);
+      }
+      return Buffer.from(image, 'base64');
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
+
+// LM Studio's local server speaks the OpenAI API under /v1
+export class LMStudioProvider extends OpenAICompatibleProvider {
+  id: LLMProviderId = 'lmstudio';
+  name = 'LM Studio';
+
+  protected clientOptions() {
+    const baseUrl = (this.settings.baseUrl || 'http://localhost:1234').replace(/\/+$/, '');
+    return { apiKey: 'lm-studio', baseURL: `${baseUrl}/v1` };
+  }
+}
@@ -0,0 +1,162 @@
+import { AppError } from '../../lib/utils/errors';
+import { logger } from '../../lib/utils/logger';
+import { LLMProviderId, LLMProviderSettings } from '../../lib/utils/config';
+
+export interface LLMCompletionOptions {
+  // Defaults for this call; values configured for the provider take precedence
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model for a JSON object where the backend supports it
+  json?: boolean;
+}
+
+// Image sizes DALL-E 3 can generate
+export type ImageGenerationSize = '1024x1024' | '1792x1024' | '1024x1792';
+
+// Provider settings after defaults are applied, plus the API key if one is needed
+export interface LLMSettings extends LLMProviderSettings {
+  model: string;
+  apiKey?: string;
+}
+
+export interface LLMProvider {
+  // Identifier stored with research and content so output can be traced to its source
+  id: LLMProviderId;
+  // Display name used in logs and error messages
+  name: string;
+  model: string;
+
+  complete(prompt: string, options?: LLMCompletionOptions): Promise<string>;
+  completeJSON<T = any>(prompt: string, options?: LLMCompletionOptions): Promise<T>;
+  stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string>;
+}
+
+// A failed call to an AI backend. Rate limits, server errors and network failures
+// are marked retryable; bad keys and malformed requests are not.
+export class LLMProviderError extends AppError {
+  retryable: boolean;
+  // Delay requested by the backend's Retry-After header
+  retryAfterMs?: number;
+
+  constructor(message: string, retryable: boolean, retryAfterMs?: number) {
+    super(message, 502);
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1500;
+
+const RETRYABLE_STATUS_CODES = [408, 409, 425, 429];
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract id: LLMProviderId;
+  abstract name: string;
+
+  constructor(protected settings: LLMSettings) {}
+
+  get model(): string {
+    return this.settings.model;
+  }
+
+  abstract complete(prompt: string, options?: LLMCompletionOptions): Promise<string>;
+  abstract stream(prompt: string, options?: LLMCompletionOptions): AsyncIterable<string>;
+
+  async completeJSON<T = any>(prompt: string, options: LLMCompletionOptions = {}): Promise<T> {
+    const text = await this.complete(prompt, { ...options, json: true });
+    return parseJSONResponse<T>(text, this.name);
+  }
+
+  protected resolveOptions(options: LLMCompletionOptions = {}): Required<LLMCompletionOptions> {
+    return {
+      temperature: this.settings.temperature ?? options.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: this.settings.maxTokens ?? options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      json: options.json ?? false
+    };
+  }
+
+  // Log a backend failure and rethrow it as an AppError callers can surface
+  protected fail(error: any): never {
+    logger.error(`Error calling ${this.name}:`, error?.message || error);
+    if (error instanceof AppError) throw error;
+
+    // The OpenAI SDK reports status/headers on the error, axios on error.response
+    const status: number | undefined = error?.status ?? error?.response?.status;
+    const headers = error?.headers ?? error?.response?.headers;
+    const retryAfter = parseFloat(typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']);
+    const retryable = status
+      ? RETRYABLE_STATUS_CODES.includes(status) || status >= 500
+      : NETWORK_ERROR_CODES.includes(error?.code) || error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError';
+
+    throw new LLMProviderError(
+      `Failed to generate content with ${this.name}${status ? ` (HTTP ${status})` : ''}`,
+      retryable,
+      isNaN(retryAfter) ? undefined : retryAfter * 1000
+    );
+  }
+}
+
+// Models often wrap JSON in Markdown fences or add prose before and after it
+export function parseJSONResponse<T = any>(text: string, providerName: string): T {
+  const candidate = extractJSONObject(text);
+
+  try {
+    return JSON.parse(candidate ?? text);
+  } catch {
+    throw new AppError(`${providerName} returned invalid JSON`, 502);
+  }
+}
+
+// The first balanced {...} block in the text, skipping braces inside strings
+export function extractJSONObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+
+  // Unbalanced (e.g. truncated output); let JSON.parse report it
+  return text.slice(start);
+}
+
+// Splits a streamed HTTP response body into non-empty lines
+export async function* readLines(body: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer.trim();
+}
+
+// Yields the data payload of each server-sent event
+export async function* readServerSentEvents(body: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      yield line.slice('data:'.length).trim();
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Joi from 'joi';
+import { completeStructured } from './structuredOutput';
+import { LLMProvider } from './provider';
+
+// A provider that answers with `responses` in order and records the prompts it was sent
+function scriptedProvider(responses: string[]) {
+  const prompts: string[] = [];
+  const provider: LLMProvider = {
+    id: 'openai',
+    name: 'OpenAI',
+    model: 'gpt-test',
+    async complete(prompt: string) {
+      prompts.push(prompt);
+      const response = responses.shift();
+      if (response === undefined) throw new Error('No response left');
+      return response;
+    },
+    async completeJSON() {
+      throw new Error('Not used');
+    },
+    async *stream() {
+      throw new Error('Not used');
+    }
+  };
+  return { provider, prompts };
+}
+
+const schemas = {
+  title: Joi.string().max(20).required(),
+  hashtags: Joi.array().items(Joi.string()).min(1).required()
+};
+
+test('accepts valid output without a repair', async () => {
+  const { provider, prompts } = scriptedProvider(['{"title": "Launch day", "hashtags": ["ai"]}']);
+
+  const output = await completeStructured(provider, 'Write a post', schemas);
+
+  assert.equal(prompts.length, 1);
+  assert.deepEqual(output.values, { title: 'Launch day', hashtags: ['ai'] });
+  assert.deepEqual(output.errors, {});
+  assert.deepEqual(output.producedBy.title, { provider: 'openai', model: 'gpt-test' });
+});
+
+test('asks for only the failed keys again, quoting the errors and previous response', async () => {
+  const first = '{"title": "A title that is far too long to use", "hashtags": ["ai"]}';
+  const { provider, prompts } = scriptedProvider([first, '{"title": "Short title"}']);
+
+  const output = await completeStructured(provider, 'Write a post', schemas);
+
+  assert.equal(prompts.length, 2);
+  const repair = prompts[1];
+  assert.ok(repair.startsWith('Write a post'));
+  assert.match(repair, /- title: .*20 characters/);
+  assert.ok(repair.includes(first));
+  assert.match(repair, /only these keys: 'title'\.$/);
+  assert.ok(!repair.includes('- hashtags'));
+
+  // The key that passed the first time is kept from the first response
+  assert.deepEqual(output.values, { title: 'Short title', hashtags: ['ai'] });
+  assert.deepEqual(output.errors, {});
+});
+
+test('repairs a response that isn\'t JSON at all', async () => {
+  const { provider, prompts } = scriptedProvider(['Sure! Here is your post.', '{"title": "Launch day", "hashtags": ["ai"]}']);
+
+  const output = await completeStructured(provider, 'Write a post', schemas);
+
+  assert.match(prompts[1], /- title: the response was not a valid JSON object/);
+  assert.deepEqual(output.values, { title: 'Launch day', hashtags: ['ai'] });
+});
+
+test('reports the keys that still fail after every repair attempt', async () => {
+  const { provider, prompts } = scriptedProvider([
+    '{"title": "Launch day", "hashtags": []}',
+    '{"hashtags": []}',
+    '{}'
+  ]);
+
+  const output = await completeStructured(provider, 'Write a post', schemas);
+
+  assert.equal(prompts.length, 3);
+  assert.deepEqual(output.values, { title: 'Launch day' });
+  assert.deepEqual(Object.keys(output.errors), ['hashtags']);
+  assert.match(output.errors.hashtags, /"hashtags" is missing/);
+});
@@ -0,0 +1,103 @@
+import Joi from 'joi';
+import { logger } from '../../lib/utils/logger';
+import { LLMCompletionOptions, LLMProvider, parseJSONResponse } from './provider';
+
+// How many times the model is asked to fix output that failed validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Longest previous response quoted back in a repair prompt
+const MAX_QUOTED_RESPONSE_LENGTH = 4000;
+
+export interface StructuredOutput {
+  // Validated (and normalised) values for the keys that passed
+  values: Record<string, any>;
+  // Validation errors for keys that still failed after every repair attempt
+  errors: Record<string, string>;
+  // Provider and model that produced each accepted value
+  producedBy: Record<string, { provider: string; model: string }>;
+}
+
+// Asks for a JSON object with one property per schema and validates each property
+// separately, so one bad property doesn't discard the others. Properties that fail
+// are requested again with the validation errors quoted back to the model.
+export async function completeStructured(
+  llm: LLMProvider,
+  prompt: string,
+  schemas: Record<string, Joi.Schema>,
+  options: LLMCompletionOptions = {}
+): Promise<StructuredOutput> {
+  const output: StructuredOutput = { values: {}, errors: {}, producedBy: {} };
+  let pendingKeys = Object.keys(schemas);
+  let currentPrompt = prompt;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS && pendingKeys.length > 0; attempt++) {
+    const text = await llm.complete(currentPrompt, { ...options, json: true });
+
+    let parsed: Record<string, any> | null = null;
+    try {
+      parsed = parseJSONResponse(text, llm.name);
+    } catch {
+      parsed = null;
+    }
+
+    output.errors = {};
+    for (const key of pendingKeys) {
+      const error = validateProperty(parsed, key, schemas[key], output);
+      if (error) {
+        output.errors[key] = error;
+      } else {
+        output.producedBy[key] = { provider: llm.id, model: llm.model };
+      }
+    }
+
+    pendingKeys = Object.keys(output.errors);
+    if (pendingKeys.length > 0 && attempt < MAX_REPAIR_ATTEMPTS) {
+      logger.warn(`${llm.name} output failed validation (${Object.entries(output.errors).map(([key, error]) => `${key}: ${error}`).join('; ')}), asking for a repair`);
+      currentPrompt = buildRepairPrompt(prompt, text, output.errors);
+    }
+  }
+
+  return output;
+}
+
+// Returns an error message, or stores the validated value and returns null
+function validateProperty(
+  parsed: Record<string, any> | null,
+  key: string,
+  schema: Joi.Schema,
+  output: StructuredOutput
+): string | null {
+  if (!parsed || typeof parsed !== 'object') {
+    return 'the response was not a valid JSON object';
+  }
+  if (parsed[key] === undefined) {
+    return `"${key}" is missing`;
+  }
+
+  const { value, error } = schema.validate(parsed[key], { abortEarly: false });
+  if (error) {
+    return error.details.map(detail => detail.message).join('; ');
+  }
+
+  output.values[key] = value;
+  return null;
+}
+
+function buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: Record<string, string>): string {
+  const errorList = Object.entries(errors)
+    .map(([key, error]) => `- ${key}: ${error}`)
+    .join('\n');
+  const quotedResponse = previousResponse.length > MAX_QUOTED_RESPONSE_LENGTH
+    ? `${previousResponse.slice(0, MAX_QUOTED_RESPONSE_LENGTH)}\n[truncated]`
+    : previousResponse;
+
+  return `${originalPrompt}
+
+Your previous response did not match the required format:
+${errorList}
+
+Previous response:
+${quotedResponse}
+
+Return a corrected, valid JSON object containing only these keys: ${Object.keys(errors).map(key => `'${key}'`).join(', ')}.`;
+}
@@ -0,0 +1,202 @@
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { TemplateVariables, getPlaceholders, renderTemplate } from '../lib/utils/template';
+import { getPublisher, getPublishers } from './publishers';
+import { BrandProfile } from './brandProfiles.service';
+
+// Placeholders a platform template may use
+export const TEMPLATE_VARIABLES = [
+  'topic',
+  'research',
+  'platform',
+  'brand.name',
+  'brand.tone',
+  'brand.language',
+  'brand.bannedPhrases',
+  'brand.disclaimer',
+  'brand.cta'
+];
+
+export interface PromptTemplate {
+  platform: string;
+  name: string;
+  template: string;
+  // null while the publisher's built-in instructions are in use
+  version: number | null;
+  defaultTemplate: string;
+  updatedAt: string | null;
+}
+
+export interface PromptTemplateVersion {
+  id: number;
+  platform: string;
+  version: number;
+  template: string;
+  revertedFrom: number | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Values for the template placeholders when generating a post
+export interface PromptContext {
+  topic: string;
+  research: string;
+  brand?: BrandProfile | null;
+}
+
+export class PromptTemplateService {
+  // The template in use for every registered platform
+  async listTemplates(): Promise<PromptTemplate[]> {
+    const templates: PromptTemplate[] = [];
+    for (const publisher of getPublishers()) {
+      templates.push(await this.getTemplate(publisher.platform));
+    }
+    return templates;
+  }
+
+  async getTemplate(platform: string): Promise<PromptTemplate> {
+    const publisher = this.requirePublisher(platform);
+    const latest = await this.getLatestVersion(platform);
+
+    return {
+      platform,
+      name: publisher.name,
+      template: latest?.template ?? publisher.contentInstructions,
+      version: latest?.version ?? null,
+      defaultTemplate: publisher.contentInstructions,
+      updatedAt: latest?.createdAt ?? null
+    };
+  }
+
+  async listVersions(platform: string): Promise<PromptTemplateVersion[]> {
+    this.requirePublisher(platform);
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT prompt_templates.*, users.username AS created_by_name
+       FROM prompt_templates LEFT JOIN users ON users.id = prompt_templates.created_by
+       WHERE platform = ? ORDER BY version DESC`,
+      platform
+    );
+    return rows.map((row: any) => this.toVersion(row));
+  }
+
+  // Save an edited template as the platform's newest version
+  async saveTemplate(
+    platform: string,
+    template: string,
+    options: { revertedFrom?: number; userId?: number } = {}
+  ): Promise<PromptTemplateVersion> {
+    const current = await this.getTemplate(platform);
+
+    if (!template?.trim()) {
+      throw new AppError('Template cannot be empty', 400);
+    }
+    const unknown = getPlaceholders(template).filter(name => !TEMPLATE_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+      throw new AppError(
+        `Unknown template variables: ${unknown.map(name => `{{${name}}}`).join(', ')}. Available: ${TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}`,
+        400
+      );
+    }
+    if (template === current.template) {
+      throw new AppError('No changes to save', 400);
+    }
+
+    const db = await getDb();
+    const version = (current.version || 0) + 1;
+    const versionId = await (db as any).insertAsync(
+      `INSERT INTO prompt_templates (platform, version, template, reverted_from, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      platform,
+      version,
+      template,
+      options.revertedFrom || null,
+      options.userId || null,
+      new Date().toISOString()
+    );
+
+    logger.info(`Saved ${platform} prompt template version ${version}`);
+    return (await this.getVersion(versionId))!;
+  }
+
+  // Restore an earlier version; the revert itself becomes the newest version
+  async revertToVersion(platform: string, version: number, userId?: number): Promise<PromptTemplateVersion> {
+    const db = await getDb();
+    const row = await (db as any).getAsync(
+      'SELECT * FROM prompt_templates WHERE platform = ? AND version = ?',
+      platform,
+      version
+    );
+
+    if (!row) {
+      throw new AppError('Template version not found', 404);
+    }
+
+    return this.saveTemplate(platform, row.template, { revertedFrom: version, userId });
+  }
+
+  // The platform's instructions with its placeholders filled in
+  async renderInstructions(platform: string, context: PromptContext): Promise<string> {
+    const { template } = await this.getTemplate(platform);
+    const brand = context.brand;
+
+    const variables: TemplateVariables = {
+      topic: context.topic,
+      research: context.research,
+      platform,
+      brand: {
+        name: brand?.name || '',
+        tone: brand?.tone || '',
+        language: brand?.language || '',
+        bannedPhrases: brand?.bannedPhrases.join(', ') || '',
+        disclaimer: brand?.disclaimer || '',
+        cta: brand?.cta || ''
+      }
+    };
+
+    return renderTemplate(template, variables);
+  }
+
+  private requirePublisher(platform: string) {
+    const publisher = getPublisher(platform);
+    if (!publisher) {
+      throw new AppError(`Unknown platform: ${platform}`, 404);
+    }
+    return publisher;
+  }
+
+  private async getLatestVersion(platform: string): Promise<PromptTemplateVersion | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync(
+      'SELECT * FROM prompt_templates WHERE platform = ? ORDER BY version DESC LIMIT 1',
+      platform
+    );
+    return row ? this.toVersion(row) : null;
+  }
+
+  private async getVersion(versionId: number): Promise<PromptTemplateVersion | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync(
+      `SELECT prompt_templates.*, users.username AS created_by_name
+       FROM prompt_templates LEFT JOIN users ON users.id = prompt_templates.created_by
+       WHERE prompt_templates.id = ?`,
+      versionId
+    );
+    return row ? this.toVersion(row) : null;
+  }
+
+  private toVersion(row: any): PromptTemplateVersion {
+    return {
+      id: row.id,
+      platform: row.platform,
+      version: row.version,
+      template: row.template,
+      revertedFrom: row.reverted_from,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name || null,
+      createdAt: row.created_at
+    };
+  }
+}
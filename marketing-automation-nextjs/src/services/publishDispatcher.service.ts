@@ -0,0 +1,83 @@
+import { PublishingService } from './publishing.service';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+
+export class PublishDispatcher {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running: boolean = false;
+  private static recovered: boolean = false;
+  private static tickInterval: number = 60000; // check once a minute
+
+  // Start the in-process dispatcher (idempotent)
+  static start(): void {
+    if (PublishDispatcher.timer) return;
+
+    const dispatcher = new PublishDispatcher();
+    const tick = () => {
+      dispatcher.dispatchDue().catch(error => logger.error('Publish dispatcher tick failed:', error));
+    };
+
+    PublishDispatcher.timer = setInterval(tick, PublishDispatcher.tickInterval);
+    tick();
+    logger.info('Scheduled publish dispatcher started');
+  }
+
+  static stop(): void {
+    if (PublishDispatcher.timer) {
+      clearInterval(PublishDispatcher.timer);
+      PublishDispatcher.timer = null;
+    }
+  }
+
+  // Publish every scheduled item whose time has come, and finish publishes the platform
+  // was still working on; returns the number published
+  async dispatchDue(now: Date = new Date()): Promise<number> {
+    // Publishing can take longer than a tick (e.g. uploading a WeChat cover image)
+    if (PublishDispatcher.running) return 0;
+    PublishDispatcher.running = true;
+
+    try {
+      const publishingService = new PublishingService();
+      if (!PublishDispatcher.recovered) {
+        PublishDispatcher.recovered = true;
+        await publishingService.recoverInterruptedPublishes(new Date(Date.now() - process.uptime() * 1000));
+      }
+
+      const db = await getDb();
+      const dueRows = await (db as any).allAsync(
+        `SELECT id, platform, scheduled_by FROM content
+         WHERE status = 'scheduled' AND scheduled_for <= ?
+         ORDER BY scheduled_for ASC`,
+        now.toISOString()
+      );
+
+      let published = await publishingService.checkPendingPublishes();
+
+      for (const row of dueRows) {
+        try {
+          // Credit the publish to whoever scheduled it
+          const { result } = await publishingService.publishContent(row.id, row.scheduled_by || undefined);
+          if (result.pending) {
+            logger.info(`Submitted scheduled ${row.platform} content ${row.id} for publishing`);
+          } else {
+            logger.info(`Published scheduled ${row.platform} content ${row.id}`);
+            published++;
+          }
+        } catch (error: any) {
+          // Return failed posts to the approved queue so they aren't retried every minute.
+          // Content claimed by a manual publish in the meantime is left alone.
+          logger.error(`Scheduled publish of content ${row.id} failed:`, error);
+          await (db as any).runAsync(
+            `UPDATE content SET status = 'approved', scheduled_for = NULL, publish_error = ? WHERE id = ? AND status = 'scheduled'`,
+            error.message,
+            row.id
+          );
+        }
+      }
+
+      return published;
+    } finally {
+      PublishDispatcher.running = false;
+    }
+  }
+}
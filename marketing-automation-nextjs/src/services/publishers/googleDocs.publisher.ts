@@ -0,0 +1,116 @@
+import { GoogleDocsService } from '../googleDocs.service';
+import { ResearchService } from '../research.service';
+import { AppError } from '../../lib/utils/errors';
+import { logger } from '../../lib/utils/logger';
+import { UserConfig } from '../../lib/utils/config';
+import { Locale } from '../../lib/utils/locales';
+import { Publisher, ContentRule, CoverImageSpec, PublishableContent, PublishResult, UpdateOptions, UnpublishOptions, basePostSchema, checkRequiredKeys } from './publisher';
+
+export class GoogleDocsPublisher implements Publisher {
+  platform = 'googledocs';
+  name = 'Google Docs';
+  requiredKeys: (keyof UserConfig)[] = ['googleDocsCredentials', 'googleDocsFolderId'];
+  contentInstructions = `For 'googledocs_post': Create a comprehensive document for Google Docs.
+      - Title: Detailed and descriptive (max 60 characters)
+      - Body: 500-800 words (1000-1600 characters in Chinese), comprehensive and well-researched
+      - Tone: Professional, detailed, and informative
+      - Structure: Include introduction, main sections, and conclusion
+      - Format: Write the body in Markdown, with ## headings, bullet and numbered lists, **bold** key points, [links](url) and tables where they help
+      - Include: Key insights, data points, and actionable takeaways
+      - Add an 'image_prompt' field with a description for DALL-E 3`;
+  postSchema = basePostSchema;
+  contentRules: ContentRule[] = [
+    { metric: 'titleCharacters', max: 60 },
+    { metric: 'bodyWords', min: 500, max: 800, cjk: { min: 1000, max: 1600 } }
+  ];
+  defaultLocale: Locale = 'en';
+  coverImage: CoverImageSpec = { aspectRatio: 16 / 9, generationSize: '1792x1024' };
+
+  validateConfig(config: UserConfig | null) {
+    return checkRequiredKeys(config, this.requiredKeys);
+  }
+
+  // GoogleDocsService initializes asynchronously from the user config
+  private async getService(): Promise<GoogleDocsService> {
+    const googleDocsService = new GoogleDocsService();
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    if (!googleDocsService.isConfigured()) {
+      const folderInfo = await googleDocsService.getFolderInfo();
+      logger.warn('Google Docs folder info:', folderInfo);
+      throw new AppError('Google Docs service not properly configured. Check credentials and folder ID.', 400);
+    }
+
+    return googleDocsService;
+  }
+
+  async testConnection(): Promise<boolean> {
+    const googleDocsService = new GoogleDocsService();
+    await new Promise(resolve => setTimeout(resolve, 500));
+    return googleDocsService.testConnection();
+  }
+
+  async publish(content: PublishableContent): Promise<PublishResult> {
+    const googleDocsService = await this.getService();
+    const docUrl = await googleDocsService.createDocument(await this.toDocumentContent(content));
+
+    logger.info(`Google Docs document created successfully: ${docUrl}`);
+    return {
+      url: docUrl,
+      externalId: GoogleDocsService.extractDocumentId(docUrl)
+    };
+  }
+
+  // Rewrite the linked document in place; if it has since been deleted, create a new one
+  async update(content: PublishableContent, options: UpdateOptions = {}): Promise<PublishResult> {
+    const documentId = this.getDocumentId(content);
+    if (!documentId) {
+      return this.publish(content);
+    }
+
+    const googleDocsService = await this.getService();
+    try {
+      const docUrl = await googleDocsService.updateDocument(documentId, await this.toDocumentContent(content), options.note);
+      return { url: docUrl, externalId: documentId };
+    } catch (error: any) {
+      if (error.statusCode !== 404) throw error;
+
+      logger.warn(`Google Doc ${documentId} for content ${content.id} is gone, creating a new one`);
+      return this.publish(content);
+    }
+  }
+
+  async unpublish(content: PublishableContent, options: UnpublishOptions = {}): Promise<void> {
+    const documentId = this.getDocumentId(content);
+
+    if (!documentId) {
+      throw new AppError('No Google document is linked to this content', 400);
+    }
+
+    const googleDocsService = await this.getService();
+    if (options.keep) {
+      await googleDocsService.unshareDocument(documentId);
+    } else {
+      await googleDocsService.trashDocument(documentId);
+    }
+  }
+
+  private getDocumentId(content: PublishableContent): string | null {
+    return content.external_id ||
+      (content.published_url ? GoogleDocsService.extractDocumentId(content.published_url) : null);
+  }
+
+  private async toDocumentContent(content: PublishableContent) {
+    const research = content.research_id ? await new ResearchService().getResearch(content.research_id) : null;
+
+    return {
+      title: content.title,
+      body: content.body,
+      platform: content.platform,
+      topic: content.topic || content.title,
+      hashtags: content.hashtags || undefined,
+      imageUrl: content.image_url || undefined,
+      sources: research?.sources
+    };
+  }
+}
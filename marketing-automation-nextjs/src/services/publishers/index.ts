@@ -0,0 +1,12 @@
+import { registerPublisher } from './publisher';
+import { WeChatPublisher } from './wechat.publisher';
+import { XhsPublisher } from './xhs.publisher';
+import { GoogleDocsPublisher } from './googleDocs.publisher';
+
+// Register built-in publishers. To add a platform, implement Publisher in a new module and register it here.
+registerPublisher(new WeChatPublisher());
+registerPublisher(new XhsPublisher());
+registerPublisher(new GoogleDocsPublisher());
+
+export * from './publisher';
+export { WeChatPublisher, XhsPublisher, GoogleDocsPublisher };
@@ -0,0 +1,136 @@
+import Joi from 'joi';
+import { UserConfig } from '../../lib/utils/config';
+import { Locale } from '../../lib/utils/locales';
+import { ImageGenerationSize } from '../llm/provider';
+
+// A row from the content table as seen by publishers
+export interface PublishableContent {
+  id: number;
+  topic_id?: number | null;
+  platform: string;
+  title: string;
+  body: string;
+  hashtags?: string | null;
+  image_url?: string | null;
+  topic?: string | null;
+  research_id?: number | null;
+  published_url?: string | null;
+  external_id?: string | null;
+  // WeChat publish_id of a submitted publish whose outcome isn't known yet
+  pending_publish_id?: string | null;
+}
+
+export interface PublishResult {
+  // Public URL of the published post, if the platform provides one
+  url: string | null;
+  // Platform-specific identifier needed to update or unpublish the post later
+  externalId?: string | null;
+  // The platform accepted the post but hasn't finished publishing it. The content stays
+  // 'publishing' and publish() is called again later to find out how it went.
+  pending?: boolean;
+}
+
+export interface UpdateOptions {
+  // Why the post was republished, recorded on the platform where it supports it
+  note?: string;
+}
+
+export interface UnpublishOptions {
+  // Withdraw the post but keep it on the platform, so republishing updates it in place
+  keep?: boolean;
+}
+
+export interface PublisherConfigStatus {
+  configured: boolean;
+  missingKeys: string[];
+}
+
+export type ContentMetric = 'titleCharacters' | 'bodyWords' | 'bodyCharacters' | 'hashtags' | 'emojis';
+
+// A length or count limit checked on every generated or edited post
+export interface ContentRule {
+  metric: ContentMetric;
+  min?: number;
+  max?: number;
+  // Hard limits are enforced by the platform itself and can block approval;
+  // the rest are style guidance shown as warnings
+  hard?: boolean;
+  // bodyWords range for text that is mostly Chinese, Japanese or Korean, where each
+  // character is counted (see countWords) and a word takes about two characters
+  cjk?: { min?: number; max?: number };
+}
+
+// Shape of the cover image a platform shows with each post
+export interface CoverImageSpec {
+  // Width / height of the area the platform displays
+  aspectRatio: number;
+  // Closest generated size; the rest is cropped away
+  generationSize: ImageGenerationSize;
+}
+
+export interface Publisher {
+  // Identifier stored in content.platform
+  platform: string;
+  // Display name shown in the UI
+  name: string;
+  requiredKeys: (keyof UserConfig)[];
+  // Platform-specific instructions appended to the content generation prompt
+  contentInstructions: string;
+  // Shape of the '<platform>_post' object the AI must return
+  postSchema: Joi.ObjectSchema;
+  // Limits the generated and edited post is checked against
+  contentRules: ContentRule[];
+  // Language posts are written in unless overridden in settings
+  defaultLocale: Locale;
+  coverImage: CoverImageSpec;
+  // Platforms without a posting API are posted by hand from a publish package;
+  // publish() then refuses and the operator records the live URL instead
+  postsManually?: boolean;
+
+  validateConfig(config: UserConfig | null): PublisherConfigStatus;
+  testConnection(): Promise<boolean>;
+  publish(content: PublishableContent): Promise<PublishResult>;
+  // Platforms that can rewrite a post in place; republishing content that still
+  // has an external_id calls this instead of publish()
+  update?(content: PublishableContent, options?: UpdateOptions): Promise<PublishResult>;
+  unpublish(content: PublishableContent, options?: UnpublishOptions): Promise<void>;
+  // Check a post URL pasted by the operator; null if it isn't one of this platform's
+  parsePostUrl?(url: string): PublishResult | null;
+}
+
+// Models return hashtags either as one string or as a list; store them space-separated
+export const hashtagsSchema = Joi.alternatives(
+  Joi.string().allow(''),
+  Joi.array().items(Joi.string()).custom(tags => tags.join(' '))
+);
+
+// Fields every generated post needs; publishers can tighten or extend it
+export const basePostSchema = Joi.object({
+  title: Joi.string().trim().min(1).required(),
+  body: Joi.string().trim().min(1).required(),
+  hashtags: hashtagsSchema,
+  image_prompt: Joi.string().allow('')
+}).unknown(true);
+
+// Default config check: every required key must be non-empty
+export function checkRequiredKeys(config: UserConfig | null, requiredKeys: (keyof UserConfig)[]): PublisherConfigStatus {
+  const missingKeys = requiredKeys.filter(key => !config?.[key]);
+  return {
+    configured: missingKeys.length === 0,
+    missingKeys
+  };
+}
+
+const publishers = new Map<string, Publisher>();
+
+export function registerPublisher(publisher: Publisher): void {
+  publishers.set(publisher.platform, publisher);
+}
+
+export function getPublisher(platform: string): Publisher | undefined {
+  return publishers.get(platform);
+}
+
+export function getPublishers(): Publisher[] {
+  return Array.from(publishers.values());
+}
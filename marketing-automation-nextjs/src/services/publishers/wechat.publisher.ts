@@ -0,0 +1,331 @@
+import axios from 'axios';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { logger } from '../../lib/utils/logger';
+import { AppError } from '../../lib/utils/errors';
+import { loadUserConfig, UserConfig } from '../../lib/utils/config';
+import { getDb } from '../../lib/database';
+import { Locale } from '../../lib/utils/locales';
+import { fetchRemoteImage } from '../../lib/utils/remoteImages';
+import { AssetService, parseAssetUrl } from '../assets.service';
+import { Publisher, ContentRule, CoverImageSpec, PublishableContent, PublishResult, basePostSchema, checkRequiredKeys } from './publisher';
+
+const DEFAULT_WECHAT_API_BASE_URL = 'https://api.weixin.qq.com';
+
+// WeChat error codes meaning the access_token is invalid or expired
+const TOKEN_ERROR_CODES = [40001, 40014, 42001];
+
+// Local cover images are only read from public/, and only files with these extensions
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const LOCAL_IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+interface WeChatArticleContent {
+  title: string;
+  body: string;
+  imageUrl?: string | null;
+  hashtags?: string | null;
+}
+
+export interface WeChatPublishResult {
+  publishId: string;
+  mediaId: string;
+}
+
+interface CachedToken {
+  appId: string;
+  token: string;
+  expiresAt: number;
+}
+
+export class WeChatPublisher implements Publisher {
+  platform = 'wechat';
+  name = 'WeChat Official Account';
+  requiredKeys: (keyof UserConfig)[] = ['wechatAppId', 'wechatAppSecret'];
+  contentInstructions = `For 'wechat_post': Create a professional and informative article for WeChat Official Account.
+      - Title: Compelling and SEO-friendly (max 30 characters)
+      - Body: 300-400 words (600-800 characters in Chinese), well-structured with clear sections
+      - Tone: Professional, authoritative, and engaging
+      - Include: Relevant emojis to enhance readability
+      - End with: A thought-provoking question to encourage engagement
+      - Add an 'image_prompt' field with a description for DALL-E 3`;
+  postSchema = basePostSchema;
+  // The article editor caps titles at 64 characters and bodies at 20,000
+  contentRules: ContentRule[] = [
+    { metric: 'titleCharacters', max: 30 },
+    { metric: 'titleCharacters', max: 64, hard: true },
+    { metric: 'bodyWords', min: 300, max: 400, cjk: { min: 600, max: 800 } },
+    { metric: 'bodyCharacters', max: 20000, hard: true }
+  ];
+  defaultLocale: Locale = 'zh-CN';
+  // Article covers are shown as a 2.35:1 banner
+  coverImage: CoverImageSpec = { aspectRatio: 2.35, generationSize: '1792x1024' };
+
+  private static cachedToken: CachedToken | null = null;
+  private baseUrl: string = DEFAULT_WECHAT_API_BASE_URL;
+  private appId: string = '';
+  private appSecret: string = '';
+  private defaultThumbMediaId: string = '';
+
+  private async loadConfig() {
+    const userConfig = await loadUserConfig();
+    this.appId = userConfig?.wechatAppId || process.env.WECHAT_APP_ID || '';
+    this.appSecret = userConfig?.wechatAppSecret || process.env.WECHAT_APP_SECRET || '';
+    this.defaultThumbMediaId = userConfig?.wechatDefaultThumbMediaId || '';
+    this.baseUrl = (
+      userConfig?.wechatApiBaseUrl ||
+      process.env.WECHAT_API_BASE_URL ||
+      DEFAULT_WECHAT_API_BASE_URL
+    ).replace(/\/$/, '');
+  }
+
+  validateConfig(config: UserConfig | null) {
+    return checkRequiredKeys(config, this.requiredKeys);
+  }
+
+  // Get an access_token, reusing the cached one until shortly before it expires
+  async getAccessToken(forceRefresh: boolean = false): Promise<string> {
+    await this.loadConfig();
+
+    if (!this.appId || !this.appSecret) {
+      throw new AppError('WeChat API credentials not configured. Please configure WeChat AppID and AppSecret in settings.', 400);
+    }
+
+    const cached = WeChatPublisher.cachedToken;
+    if (!forceRefresh && cached && cached.appId === this.appId && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const response = await axios.get(`${this.baseUrl}/cgi-bin/token`, {
+      params: {
+        grant_type: 'client_credential',
+        appid: this.appId,
+        secret: this.appSecret
+      }
+    });
+
+    if (!response.data.access_token) {
+      throw new AppError(`Failed to get WeChat access token: ${response.data.errmsg || 'unknown error'} (errcode ${response.data.errcode})`, 502);
+    }
+
+    // Refresh five minutes before WeChat expires the token
+    const expiresIn = (response.data.expires_in || 7200) - 300;
+    WeChatPublisher.cachedToken = {
+      appId: this.appId,
+      token: response.data.access_token,
+      expiresAt: Date.now() + expiresIn * 1000
+    };
+
+    logger.info('Obtained new WeChat access token');
+    return response.data.access_token;
+  }
+
+  // Call a WeChat API endpoint, retrying once with a fresh token if it was rejected
+  private async callApi(endpoint: string, data: any, params: Record<string, string> = {}, retried: boolean = false): Promise<any> {
+    const accessToken = await this.getAccessToken(retried);
+
+    const response = await axios.post(`${this.baseUrl}${endpoint}`, data, {
+      params: { access_token: accessToken, ...params }
+    });
+
+    const errcode = response.data?.errcode;
+    if (errcode && TOKEN_ERROR_CODES.includes(errcode) && !retried) {
+      logger.warn(`WeChat access token rejected (errcode ${errcode}), refreshing`);
+      WeChatPublisher.cachedToken = null;
+      return this.callApi(endpoint, data, params, true);
+    }
+
+    if (errcode) {
+      throw new AppError(`WeChat API ${endpoint} failed: ${response.data.errmsg} (errcode ${errcode})`, 502);
+    }
+
+    return response.data;
+  }
+
+  // Load image bytes from the asset library, an allowed remote host (see fetchRemoteImage)
+  // or a file under public/
+  private async loadImage(imageUrl: string): Promise<{ data: Buffer; filename: string; contentType: string }> {
+    let data: Buffer;
+    let contentType = 'image/jpeg';
+
+    const assetId = parseAssetUrl(imageUrl);
+    if (assetId) {
+      const asset = await new AssetService().readAssetFile(assetId);
+      data = asset.data;
+      contentType = asset.mimeType;
+    } else if (/^https?:\/\//.test(imageUrl)) {
+      const image = await fetchRemoteImage(imageUrl);
+      data = image.data;
+      contentType = image.mimeType;
+    } else {
+      const filePath = path.resolve(PUBLIC_DIR, imageUrl.replace(/^[/\\]+/, ''));
+      const relativePath = path.relative(PUBLIC_DIR, filePath);
+      const localType = LOCAL_IMAGE_TYPES[path.extname(filePath).toLowerCase()];
+      if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath) || !localType) {
+        throw new AppError(`The post's image ${imageUrl} is not an image under public/`, 400);
+      }
+      data = await fs.readFile(filePath);
+      contentType = localType;
+    }
+
+    const extension = contentType.includes('png') ? 'png' : 'jpg';
+    return { data, filename: `cover.${extension}`, contentType };
+  }
+
+  // Upload the cover image as permanent material and return its media_id
+  async uploadCoverImage(imageUrl: string): Promise<string> {
+    const image = await this.loadImage(imageUrl);
+
+    const form = new FormData();
+    form.append('media', new Blob([image.data], { type: image.contentType }), image.filename);
+
+    const result = await this.callApi('/cgi-bin/material/add_material', form, { type: 'image' });
+    logger.info(`Uploaded WeChat cover image (media_id: ${result.media_id})`);
+    return result.media_id;
+  }
+
+  // Create a draft article and return its media_id
+  async createDraft(content: WeChatArticleContent, thumbMediaId: string): Promise<string> {
+    const result = await this.callApi('/cgi-bin/draft/add', {
+      articles: [{
+        title: content.title,
+        author: '',
+        digest: content.body.replace(/\s+/g, ' ').slice(0, 54),
+        content: this.formatArticleHtml(content),
+        thumb_media_id: thumbMediaId,
+        need_open_comment: 1,
+        only_fans_can_comment: 0
+      }]
+    });
+
+    logger.info(`Created WeChat draft (media_id: ${result.media_id})`);
+    return result.media_id;
+  }
+
+  // Submit a draft to freepublish and return the publish_id
+  async submitPublish(mediaId: string): Promise<string> {
+    const result = await this.callApi('/cgi-bin/freepublish/submit', { media_id: mediaId });
+    logger.info(`Submitted WeChat draft ${mediaId} for publishing (publish_id: ${result.publish_id})`);
+    return String(result.publish_id);
+  }
+
+  // Check a submitted publish once: the article's URL and article_id once it is live, or null
+  // while WeChat is still publishing it. The content's pending publish_id is cleared once WeChat
+  // reports success or failure; an API error keeps it so the next check asks again.
+  async checkPublish(publishId: string, contentId?: number): Promise<{ url: string; articleId: string } | null> {
+    const result = await this.callApi('/cgi-bin/freepublish/get', { publish_id: publishId });
+
+    // publish_status: 0 = success, 1 = publishing, anything else = failure
+    if (result.publish_status === 1) {
+      logger.info(`WeChat publish ${publishId} still in progress`);
+      return null;
+    }
+
+    if (contentId) {
+      await this.setPendingPublishId(contentId, null);
+    }
+    if (result.publish_status !== 0) {
+      throw new AppError(`WeChat publish ${publishId} failed with publish_status ${result.publish_status}`, 502);
+    }
+
+    const articleUrl = result.article_detail?.item?.[0]?.article_url;
+    if (!articleUrl) {
+      throw new AppError(`WeChat publish ${publishId} succeeded but returned no article URL`, 502);
+    }
+    return { url: articleUrl, articleId: result.article_id };
+  }
+
+  // WeChat publishes asynchronously, so this returns as soon as the article is submitted. The
+  // publish_id is stored on the content, and later calls check it instead of publishing a second
+  // copy; PublishingService.checkPendingPublishes makes those calls until the article is live.
+  async publish(content: PublishableContent): Promise<PublishResult> {
+    if (content.pending_publish_id) {
+      await this.loadConfig();
+      const published = await this.checkPublish(content.pending_publish_id, content.id);
+      return published ? { url: published.url, externalId: published.articleId } : { url: null, pending: true };
+    }
+
+    await this.publishArticle({
+      title: content.title,
+      body: content.body,
+      imageUrl: content.image_url,
+      hashtags: content.hashtags
+    }, content.id);
+    return { url: null, pending: true };
+  }
+
+  private async setPendingPublishId(contentId: number, publishId: string | null): Promise<void> {
+    const db = await getDb();
+    await (db as any).runAsync('UPDATE content SET pending_publish_id = ? WHERE id = ?', publishId, contentId);
+  }
+
+  // Remove a published article; the draft stays available in the WeChat backend
+  async unpublish(content: PublishableContent): Promise<void> {
+    if (!content.external_id) {
+      throw new AppError('This WeChat article has no stored article_id and must be deleted from the WeChat backend manually.', 400);
+    }
+
+    await this.callApi('/cgi-bin/freepublish/delete', { article_id: content.external_id, index: 0 });
+    logger.info(`Deleted WeChat article ${content.external_id}`);
+  }
+
+  // Publish an article: upload cover, create draft and submit it. Check the returned
+  // publish_id with checkPublish; with a contentId, it is kept on that content until it resolves.
+  async publishArticle(content: WeChatArticleContent, contentId?: number): Promise<WeChatPublishResult> {
+    await this.loadConfig();
+
+    let thumbMediaId = this.defaultThumbMediaId;
+    if (content.imageUrl) {
+      thumbMediaId = await this.uploadCoverImage(content.imageUrl);
+    }
+
+    if (!thumbMediaId) {
+      throw new AppError('WeChat articles require a cover image. Generate an image for this post or configure a default cover media_id.', 400);
+    }
+
+    const mediaId = await this.createDraft(content, thumbMediaId);
+    const publishId = await this.submitPublish(mediaId);
+    if (contentId) {
+      await this.setPendingPublishId(contentId, publishId);
+    }
+
+    return { publishId, mediaId };
+  }
+
+  // Test the credentials by requesting a fresh access token
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.getAccessToken(true);
+      logger.info('WeChat connection test successful');
+      return true;
+    } catch (error) {
+      logger.error('WeChat connection test failed:', error);
+      return false;
+    }
+  }
+
+  // Convert the plain text body into the HTML WeChat expects
+  private formatArticleHtml(content: WeChatArticleContent): string {
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    const paragraphs = content.body
+      .split(/\n+/)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => `<p>${escape(line)}</p>`);
+
+    if (content.hashtags) {
+      paragraphs.push(`<p>${escape(content.hashtags)}</p>`);
+    }
+
+    return paragraphs.join('\n');
+  }
+}
@@ -0,0 +1,69 @@
+import { AppError } from '../../lib/utils/errors';
+import { UserConfig } from '../../lib/utils/config';
+import { Locale } from '../../lib/utils/locales';
+import { Publisher, ContentRule, CoverImageSpec, PublishableContent, PublishResult, basePostSchema, hashtagsSchema, checkRequiredKeys } from './publisher';
+
+export class XhsPublisher implements Publisher {
+  platform = 'xhs';
+  name = 'Xiao Hongshu (Semi-automated)';
+  requiredKeys: (keyof UserConfig)[] = ['xhsCookie'];
+  contentInstructions = `For 'xhs_post': Create a trendy and casual post for Xiao Hongshu.
+      - Title: Eye-catching with emojis (max 20 characters)
+      - Body: 150-200 words (300-400 characters in Chinese), conversational and relatable
+      - Tone: Casual, trendy, enthusiastic
+      - Format: Use line breaks, emojis, and numbered points
+      - Hashtags: Include 5-7 relevant, trending hashtags
+      - Add an 'image_prompt' field with a description for DALL-E 3`;
+  postSchema = basePostSchema.keys({ hashtags: hashtagsSchema.required() });
+  // The app rejects titles over 20 characters and notes over 1,000
+  contentRules: ContentRule[] = [
+    { metric: 'titleCharacters', max: 20, hard: true },
+    { metric: 'bodyWords', min: 150, max: 200, cjk: { min: 300, max: 400 } },
+    { metric: 'bodyCharacters', max: 1000, hard: true },
+    { metric: 'hashtags', min: 5, max: 7 }
+  ];
+  defaultLocale: Locale = 'zh-CN';
+  // Notes are shown in a 3:4 portrait feed
+  coverImage: CoverImageSpec = { aspectRatio: 3 / 4, generationSize: '1024x1792' };
+  // There is no official posting API
+  postsManually = true;
+
+  validateConfig(config: UserConfig | null) {
+    return checkRequiredKeys(config, this.requiredKeys);
+  }
+
+  // XHS doesn't have a reliable test method
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async publish(content: PublishableContent): Promise<PublishResult> {
+    throw new AppError(`XHS notes are posted by hand: download the publish package for content ${content.id}, post it in the Xiao Hongshu app and mark it as posted`, 501);
+  }
+
+  async unpublish(): Promise<void> {
+    throw new AppError('XHS notes must be deleted manually in the Xiao Hongshu app', 501);
+  }
+
+  // Note links look like xiaohongshu.com/explore/<id> or discovery/item/<id>; the
+  // app's share button gives an xhslink.com short link, which carries no note ID
+  parsePostUrl(url: string): PublishResult | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return null;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+    const host = parsed.hostname.toLowerCase();
+    if (host === 'xhslink.com' || host.endsWith('.xhslink.com')) {
+      return parsed.pathname.length > 1 ? { url: parsed.toString(), externalId: null } : null;
+    }
+    if (host !== 'xiaohongshu.com' && !host.endsWith('.xiaohongshu.com')) return null;
+
+    const match = parsed.pathname.match(/^\/(?:explore|discovery\/item)\/([0-9a-f]{24})\/?$/i);
+    if (!match) return null;
+    return { url: parsed.toString(), externalId: match[1] };
+  }
+}
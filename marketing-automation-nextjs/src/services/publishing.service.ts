@@ -0,0 +1,416 @@
+import { getPublisher, PublishResult, UpdateOptions } from './publishers';
+import { FolderDocument, GoogleDocsService } from './googleDocs.service';
+import { TopicService } from './topics.service';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { loadUserConfig } from '../lib/utils/config';
+
+const DEFAULT_MIN_POST_GAP_MINUTES = 240;
+
+// Statuses from which content may be published
+const PUBLISHABLE_STATUSES = ['approved', 'scheduled'];
+
+export interface GoogleDocsReconciliation {
+  // Documents in the folder that no content row links to
+  orphaned: FolderDocument[];
+  // Documents checked
+  total: number;
+}
+
+export interface CalendarItem {
+  id: number;
+  platform: string;
+  title: string;
+  status: string;
+  // scheduled_for for scheduled posts, published_at for published ones
+  time: string;
+}
+
+export interface CalendarConflict {
+  platform: string;
+  contentIds: [number, number];
+  gapMinutes: number;
+}
+
+export class PublishingService {
+  // Publish approved or scheduled content to its platform and mark it published.
+  // Content still linked to a post on a platform that can update in place (e.g. a
+  // Google Doc kept when it was unpublished) is rewritten there instead of posted
+  // again, which also lets published content be republished directly. Platforms that
+  // publish asynchronously leave the content 'publishing' (see checkPendingPublishes).
+  async publishContent(contentId: number, userId?: number, options: UpdateOptions = {}): Promise<{ content: any; result: PublishResult }> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+
+    const publisher = getPublisher(content.platform);
+    const updatesInPlace = Boolean(publisher?.update && content.external_id);
+
+    if (content.status === 'publishing') {
+      throw new AppError('Content is already being published', 409);
+    }
+    if (!PUBLISHABLE_STATUSES.includes(content.status) && !(content.status === 'published' && updatesInPlace)) {
+      throw new AppError(content.status === 'published' ? 'Content is already published' : 'Content must be approved before publishing', 400);
+    }
+
+    if (!publisher) {
+      throw new AppError(`Unsupported platform: ${content.platform}`, 400);
+    }
+    if (publisher.postsManually) {
+      throw new AppError(`${publisher.name} posts are published by hand: download the publish package and mark the post as posted`, 400);
+    }
+
+    const userConfig = await loadUserConfig();
+    const configStatus = publisher.validateConfig(userConfig);
+    if (!configStatus.configured) {
+      throw new AppError(`${publisher.name} credentials not configured. Please configure ${configStatus.missingKeys.join(', ')} in settings.`, 400);
+    }
+
+    // Claim the row so a dispatcher tick and a manual publish can't both post it
+    const claimed = await (db as any).updateAsync(
+      `UPDATE content SET status = 'publishing', publishing_started_at = ? WHERE id = ? AND status = ?`,
+      new Date().toISOString(),
+      contentId,
+      content.status
+    );
+    if (claimed !== 1) {
+      throw new AppError('Content is already being published', 409);
+    }
+
+    let result: PublishResult;
+    try {
+      result = updatesInPlace ? await publisher.update!(content, options) : await publisher.publish(content);
+      logger.info(`${publisher.name} ${updatesInPlace ? 'update' : 'publishing'} ${result.pending ? 'submitted' : `succeeded: ${result.url}`}`);
+    } catch (error: any) {
+      // Release the claim, back to the status it was published from
+      await (db as any).runAsync(
+        `UPDATE content SET status = ?, publish_error = ? WHERE id = ? AND status = 'publishing'`,
+        content.status,
+        error.message,
+        contentId
+      );
+      if (error instanceof AppError) throw error;
+      throw new AppError(`Publishing failed: ${error.message}`, 500);
+    }
+
+    if (result.pending) {
+      await (db as any).runAsync(
+        'UPDATE content SET publish_error = NULL, published_by = ? WHERE id = ?',
+        userId || null,
+        contentId
+      );
+    } else {
+      await this.markPublished(contentId, result, userId);
+      await this.markTopicPublished(content.topic_id);
+    }
+
+    const updatedContent = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+    return { content: updatedContent, result };
+  }
+
+  // Finish publishes a platform accepted but hadn't completed when publishContent returned;
+  // returns the number now published. Content the platform failed to publish goes back to
+  // approved; after an error checking it, it stays pending and is checked again next time.
+  async checkPendingPublishes(): Promise<number> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT * FROM content WHERE status = 'publishing' AND pending_publish_id IS NOT NULL ORDER BY id ASC`
+    );
+
+    let published = 0;
+    for (const content of rows) {
+      const publisher = getPublisher(content.platform);
+      if (!publisher) continue;
+
+      try {
+        const result = await publisher.publish(content);
+        if (result.pending) continue;
+
+        await this.markPublished(content.id, result, content.published_by || undefined);
+        await this.markTopicPublished(content.topic_id);
+        logger.info(`${publisher.name} publishing of content ${content.id} succeeded: ${result.url}`);
+        published++;
+      } catch (error: any) {
+        logger.error(`Checking the ${publisher.name} publish of content ${content.id} failed:`, error);
+        const current = await (db as any).getAsync('SELECT pending_publish_id FROM content WHERE id = ?', content.id);
+        await (db as any).runAsync(
+          `UPDATE content SET status = ?, scheduled_for = NULL, publish_error = ? WHERE id = ? AND status = 'publishing'`,
+          current?.pending_publish_id ? 'publishing' : 'approved',
+          error.message,
+          content.id
+        );
+      }
+    }
+
+    return published;
+  }
+
+  // Claims left by a process that died mid-publish are never released, so return them to
+  // approved. Only claims made before startedAt (when this process started) are considered;
+  // later ones belong to a live publish. Publishes the platform already accepted keep their
+  // pending_publish_id and are finished by checkPendingPublishes instead.
+  async recoverInterruptedPublishes(startedAt: Date): Promise<number> {
+    const db = await getDb();
+    const recovered = await (db as any).updateAsync(
+      `UPDATE content SET status = 'approved', scheduled_for = NULL, publish_error = 'Interrupted by server restart'
+       WHERE status = 'publishing' AND pending_publish_id IS NULL
+         AND (publishing_started_at IS NULL OR publishing_started_at < ?)`,
+      startedAt.toISOString()
+    );
+    if (recovered > 0) {
+      logger.warn(`Returned ${recovered} interrupted publish(es) to approved`);
+    }
+    return recovered;
+  }
+
+  // Take published content off its platform and return it to approved. With keep,
+  // the post is only withdrawn and stays linked, so republishing updates it in place.
+  async unpublishContent(contentId: number, options: { keep?: boolean } = {}): Promise<any> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (content.status !== 'published') {
+      throw new AppError('Only published content can be unpublished', 400);
+    }
+
+    const publisher = getPublisher(content.platform);
+    if (!publisher) {
+      throw new AppError(`Unsupported platform: ${content.platform}`, 400);
+    }
+    if (options.keep && !publisher.update) {
+      throw new AppError(`${publisher.name} posts can't be kept when unpublished`, 400);
+    }
+
+    await publisher.unpublish(content, { keep: options.keep });
+
+    // Move content back to approved so it can be edited and republished
+    await (db as any).runAsync(
+      `UPDATE content
+       SET status = 'approved', published_at = NULL, published_url = NULL, external_id = ?
+       WHERE id = ?`,
+      options.keep ? content.external_id : null,
+      contentId
+    );
+    logger.info(`Content ${contentId} unpublished from ${publisher.name}${options.keep ? ' (kept for republishing)' : ''}`);
+
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+  }
+
+  // Documents in the Google Docs folder that no content row points to any more,
+  // e.g. left behind by deleted content or created outside the app
+  async reconcileGoogleDocs(): Promise<GoogleDocsReconciliation> {
+    const googleDocsService = new GoogleDocsService();
+    // GoogleDocsService initializes asynchronously from the user config
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const documents = await googleDocsService.listFolderDocuments();
+
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT external_id, published_url FROM content
+       WHERE platform = 'googledocs' AND (external_id IS NOT NULL OR published_url IS NOT NULL)`
+    );
+    const linkedIds = new Set<string>();
+    for (const row of rows) {
+      const documentId = row.external_id || GoogleDocsService.extractDocumentId(row.published_url || '');
+      if (documentId) linkedIds.add(documentId);
+    }
+
+    const orphaned = documents.filter(document => !linkedIds.has(document.id));
+    logger.info(`Google Docs reconciliation: ${orphaned.length} of ${documents.length} documents are not linked to any content`);
+    return { orphaned, total: documents.length };
+  }
+
+  // Record a post the operator published by hand, from the live URL they paste in
+  async markPosted(contentId: number, url: string, userId?: number): Promise<any> {
+    if (typeof url !== 'string' || !url.trim()) {
+      throw new AppError('The URL of the live post is required', 400);
+    }
+
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (content.status !== 'approved') {
+      throw new AppError('Content must be approved before it is marked as posted', 400);
+    }
+
+    const publisher = getPublisher(content.platform);
+    if (!publisher?.postsManually || !publisher.parsePostUrl) {
+      throw new AppError(`${publisher?.name || content.platform} posts are published from the app, not marked as posted`, 400);
+    }
+
+    const result = publisher.parsePostUrl(url);
+    if (!result) {
+      throw new AppError(`That doesn't look like a ${publisher.name} post URL`, 400);
+    }
+
+    await this.markPublished(contentId, result, userId);
+    await this.markTopicPublished(content.topic_id);
+    logger.info(`${publisher.name} content ${contentId} marked as posted at ${result.url}`);
+
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+  }
+
+  // Schedule approved content to be published at a later time
+  async scheduleContent(contentId: number, scheduledFor: Date, userId?: number): Promise<{ content: any; conflicts: CalendarConflict[] }> {
+    if (isNaN(scheduledFor.getTime())) {
+      throw new AppError('Invalid scheduled time', 400);
+    }
+    if (scheduledFor.getTime() <= Date.now()) {
+      throw new AppError('Scheduled time must be in the future', 400);
+    }
+
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (!PUBLISHABLE_STATUSES.includes(content.status)) {
+      throw new AppError('Content must be approved before scheduling', 400);
+    }
+    // Nothing could post it when the time comes
+    const publisher = getPublisher(content.platform);
+    if (publisher?.postsManually) {
+      throw new AppError(`${publisher.name} posts are published by hand and cannot be scheduled`, 400);
+    }
+
+    await (db as any).runAsync(
+      `UPDATE content SET status = 'scheduled', scheduled_for = ?, scheduled_by = ?, publish_error = NULL WHERE id = ?`,
+      scheduledFor.toISOString(),
+      userId || null,
+      contentId
+    );
+    logger.info(`Content ${contentId} scheduled for ${scheduledFor.toISOString()}`);
+
+    // Report (but don't block on) posts for the same platform that land too close together
+    const dayMs = 24 * 60 * 60 * 1000;
+    const calendar = await this.getCalendar(
+      new Date(scheduledFor.getTime() - dayMs),
+      new Date(scheduledFor.getTime() + dayMs)
+    );
+    const conflicts = calendar.conflicts.filter(conflict => conflict.contentIds.includes(contentId));
+
+    const updatedContent = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+    return { content: updatedContent, conflicts };
+  }
+
+  // Cancel a schedule and return the content to approved
+  async unscheduleContent(contentId: number): Promise<any> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (content.status !== 'scheduled') {
+      throw new AppError('Content is not scheduled', 400);
+    }
+
+    await (db as any).runAsync(
+      `UPDATE content SET status = 'approved', scheduled_for = NULL WHERE id = ?`,
+      contentId
+    );
+
+    return (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+  }
+
+  // Scheduled and published posts in a time range, with minimum-gap conflicts per platform
+  async getCalendar(from: Date, to: Date): Promise<{ items: CalendarItem[]; conflicts: CalendarConflict[]; minGapMinutes: number }> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT id, platform, title, status,
+              CASE WHEN status = 'scheduled' THEN scheduled_for ELSE published_at END AS time
+       FROM content
+       WHERE (status = 'scheduled' AND scheduled_for BETWEEN ? AND ?)
+          OR (status = 'published' AND published_at BETWEEN ? AND ?)`,
+      from.toISOString(),
+      to.toISOString(),
+      this.toSqliteTimestamp(from),
+      this.toSqliteTimestamp(to)
+    );
+
+    // published_at uses SQLite's CURRENT_TIMESTAMP (UTC, no zone suffix)
+    const items: CalendarItem[] = rows
+      .map((row: any) => ({
+        ...row,
+        time: row.status === 'published' ? new Date(`${row.time.replace(' ', 'T')}Z`).toISOString() : row.time
+      }))
+      .sort((a: CalendarItem, b: CalendarItem) => a.time.localeCompare(b.time));
+
+    const minGapMinutes = await this.getMinGapMinutes();
+    return { items, conflicts: this.findConflicts(items, minGapMinutes), minGapMinutes };
+  }
+
+  private findConflicts(items: CalendarItem[], minGapMinutes: number): CalendarConflict[] {
+    const conflicts: CalendarConflict[] = [];
+    const byPlatform = new Map<string, CalendarItem[]>();
+
+    for (const item of items) {
+      byPlatform.set(item.platform, [...(byPlatform.get(item.platform) || []), item]);
+    }
+
+    for (const [platform, platformItems] of byPlatform) {
+      for (let i = 1; i < platformItems.length; i++) {
+        const gapMinutes = (new Date(platformItems[i].time).getTime() - new Date(platformItems[i - 1].time).getTime()) / 60000;
+        if (gapMinutes < minGapMinutes) {
+          conflicts.push({
+            platform,
+            contentIds: [platformItems[i - 1].id, platformItems[i].id],
+            gapMinutes: Math.round(gapMinutes)
+          });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  private async getMinGapMinutes(): Promise<number> {
+    const userConfig = await loadUserConfig();
+    const configured = Number(userConfig?.publishMinGapMinutes);
+    return configured > 0 ? configured : DEFAULT_MIN_POST_GAP_MINUTES;
+  }
+
+  private async markPublished(contentId: number, result: PublishResult, userId?: number): Promise<void> {
+    const db = await getDb();
+    await (db as any).runAsync(
+      `UPDATE content
+       SET status = 'published', published_at = CURRENT_TIMESTAMP, published_url = ?, external_id = ?, publish_error = NULL,
+           pending_publish_id = NULL, published_by = ?
+       WHERE id = ?`,
+      result.url,
+      result.externalId || null,
+      userId || null,
+      contentId
+    );
+  }
+
+  // The first post of a generated topic going out completes the topic's lifecycle
+  private async markTopicPublished(topicId: number | null): Promise<void> {
+    if (!topicId) return;
+
+    const topicService = new TopicService();
+    const topic = await topicService.getTopic(topicId);
+    if (topic?.status === 'generated') {
+      // A 409 means another of the topic's posts marked it first
+      await topicService.transition(topicId, 'published').catch(error => {
+        if (!(error instanceof AppError && error.statusCode === 409)) throw error;
+      });
+    }
+  }
+
+  private toSqliteTimestamp(date: Date): string {
+    return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+  }
+}
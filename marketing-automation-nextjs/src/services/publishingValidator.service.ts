@@ -1,26 +1,21 @@
 import { logger } from '../lib/utils/logger';
-import { GoogleDocsService } from './googleDocs.service';
+import { getPublishers, getPublisher } from './publishers';
 import { AppError } from '../lib/utils/errors';
 import { loadUserConfig } from '../lib/utils/config';
 
 export interface PublishingProvider {
   name: string;
-  platform: 'wechat' | 'xhs' | 'googledocs';
+  platform: string;
   configured: boolean;
   required_keys: string[];
   missing_keys: string[];
 }
 
 export class PublishingValidatorService {
-  private googleDocsService: GoogleDocsService;
   private static lastValidationResult: PublishingProvider[] | null = null;
   private static lastValidationTime: number = 0;
   private static validationCacheTime: number = 60000; // 1 minute cache
 
-  constructor() {
-    this.googleDocsService = new GoogleDocsService();
-  }
-
   // Check all publishing providers and return their status
   async validatePublishingProviders(): Promise<PublishingProvider[]> {
     // Check cache first
@@ -30,40 +25,18 @@ export class PublishingValidatorService {
       return PublishingValidatorService.lastValidationResult;
     }
 
-    const providers: PublishingProvider[] = [];
-    
     // Load user configuration
     const userConfig = await loadUserConfig();
 
-    // Check WeChat
-    const wechatConfigured = !!(userConfig?.wechatAppId && userConfig?.wechatAppSecret);
-    providers.push({
-      name: 'WeChat Official Account',
-      platform: 'wechat',
-      configured: wechatConfigured,
-      required_keys: ['wechatAppId', 'wechatAppSecret'],
-      missing_keys: wechatConfigured ? [] : ['wechatAppId', 'wechatAppSecret']
-    });
-
-    // Check XHS
-    const xhsConfigured = !!(userConfig?.xhsCookie);
-    providers.push({
-      name: 'Xiao Hongshu (Semi-automated)',
-      platform: 'xhs',
-      configured: xhsConfigured,
-      required_keys: ['xhsCookie'],
-      missing_keys: xhsConfigured ? [] : ['xhsCookie']
-    });
-
-    // Check Google Docs - need both credentials and folder ID
-    const googleDocsConfigured = !!(userConfig?.googleDocsCredentials && userConfig?.googleDocsFolderId);
-    
-    providers.push({
-      name: 'Google Docs',
-      platform: 'googledocs',
-      configured: googleDocsConfigured,
-      required_keys: ['googleDocsCredentials', 'googleDocsFolderId'],
-      missing_keys: googleDocsConfigured ? [] : ['googleDocsCredentials']
+    const providers: PublishingProvider[] = getPublishers().map(publisher => {
+      const status = publisher.validateConfig(userConfig);
+      return {
+        name: publisher.name,
+        platform: publisher.platform,
+        configured: status.configured,
+        required_keys: publisher.requiredKeys,
+        missing_keys: status.missingKeys
+      };
     });
 
     // Update cache
@@ -99,7 +72,7 @@ export class PublishingValidatorService {
       logger.error('Missing configurations:\n' + missingInfo);
       
       throw new AppError(
-        'No publishing providers configured. Please configure at least one of: WeChat, XHS, or Google Docs before starting a campaign.',
+        `No publishing providers configured. Please configure at least one of: ${allProviders.map(p => p.name).join(', ')} before starting a campaign.`,
         400
       );
     }
@@ -150,22 +123,8 @@ export class PublishingValidatorService {
 
       if (provider.configured) {
         try {
-          switch (provider.platform) {
-            case 'wechat':
-              // TODO: Implement WeChat API test
-              tested = true;
-              working = true;
-              break;
-            case 'xhs':
-              // XHS doesn't have a reliable test method
-              tested = true;
-              working = true;
-              break;
-            case 'googledocs':
-              working = await this.googleDocsService.testConnection();
-              tested = true;
-              break;
-          }
+          working = await getPublisher(provider.platform)!.testConnection();
+          tested = true;
         } catch (err: any) {
           tested = true;
           working = false;
@@ -0,0 +1,70 @@
+import { getDb } from '../lib/database';
+
+export interface ResearchSource {
+  title: string;
+  link: string | null;
+  date: string | null;
+  source: string | null;
+  snippet: string | null;
+}
+
+export interface TopicResearch {
+  id: number;
+  topicId: number | null;
+  topic: string;
+  summary: string;
+  sources: ResearchSource[];
+  provider: string;
+  model: string | null;
+  createdAt: string;
+}
+
+export type TopicResearchInput = Omit<TopicResearch, 'id' | 'createdAt'>;
+
+export class ResearchService {
+  async saveResearch(input: TopicResearchInput): Promise<TopicResearch> {
+    const db = await getDb();
+    const researchId = await (db as any).insertAsync(
+      `INSERT INTO research (topic_id, topic, summary, sources, provider, model, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      input.topicId,
+      input.topic,
+      input.summary,
+      JSON.stringify(input.sources),
+      input.provider,
+      input.model,
+      new Date().toISOString()
+    );
+
+    return (await this.getResearch(researchId))!;
+  }
+
+  async getResearch(researchId: number): Promise<TopicResearch | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM research WHERE id = ?', researchId);
+    return row ? this.toResearch(row) : null;
+  }
+
+  // Most recent research for a topic, newest first
+  async listResearchForTopic(topicId: number): Promise<TopicResearch[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      'SELECT * FROM research WHERE topic_id = ? ORDER BY id DESC',
+      topicId
+    );
+    return rows.map((row: any) => this.toResearch(row));
+  }
+
+  private toResearch(row: any): TopicResearch {
+    return {
+      id: row.id,
+      topicId: row.topic_id,
+      topic: row.topic,
+      summary: row.summary,
+      sources: row.sources ? JSON.parse(row.sources) : [],
+      provider: row.provider,
+      model: row.model,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { getDb } from '../lib/database';
+import { getConfig } from '../lib/utils/config';
+import { logger } from '../lib/utils/logger';
+import { findTerms } from '../lib/utils/textMetrics';
+import { textSimilarity } from '../lib/utils/textSimilarity';
+
+// How much each signal contributes to a topic's score, before the similarity penalty
+export const SCORE_WEIGHTS = {
+  recency: 0.35,
+  frequency: 0.25,
+  relevance: 0.4
+};
+
+// A topic's recency halves every this many hours
+const RECENCY_HALF_LIFE_HOURS = 24;
+
+// Frequency is maxed out once this many other sources carry the story
+const FREQUENCY_SATURATION = 3;
+
+// Posts published this recently make similar topics less attractive
+const PUBLISHED_WINDOW_DAYS = 30;
+
+export interface TopicScoreBreakdown {
+  // Each signal is between 0 and 1
+  recency: number;
+  frequency: number;
+  relevance: number;
+  // Highest similarity to a recently published post; the score is scaled by (1 - similarity)
+  similarity: number;
+  // Sources that carried the same story
+  sources: string[];
+  matchedInterests: string[];
+  // The recently published post most like this topic
+  similarContentId: number | null;
+  total: number;
+}
+
+interface ScoringContext {
+  now: number;
+  interests: string[];
+  // Sources of the articles merged into each topic (see topic_sources)
+  topicSources: Map<number, string[]>;
+  publishedContent: { id: number; title: string; topic: string | null }[];
+}
+
+// Ranks pending topics so automatic campaigns pick the hottest relevant story,
+// rather than whichever headline was discovered last
+export class TopicScoringService {
+  // Rescore every pending topic; returns how many were scored
+  async scorePendingTopics(): Promise<number> {
+    const db = await getDb();
+    const topics = await (db as any).allAsync(`SELECT * FROM topics WHERE status = 'pending'`);
+    if (topics.length === 0) return 0;
+
+    const context = await this.loadContext();
+    for (const topic of topics) {
+      const breakdown = this.scoreTopic(topic, context);
+      await (db as any).runAsync(
+        'UPDATE topics SET score = ?, score_breakdown = ?, scored_at = CURRENT_TIMESTAMP WHERE id = ?',
+        breakdown.total,
+        JSON.stringify(breakdown),
+        topic.id
+      );
+    }
+
+    logger.info(`Scored ${topics.length} pending topic(s)`);
+    return topics.length;
+  }
+
+  scoreTopic(
+    topic: { id: number; title: string; source: string; description?: string | null; discovered_at: string; published_at?: string | null },
+    context: ScoringContext
+  ): TopicScoreBreakdown {
+    const ageHours = Math.max(0, context.now - parseDate(topic.published_at || topic.discovered_at)) / 3_600_000;
+    const recency = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+
+    const sources = new Set([topic.source, ...(context.topicSources.get(topic.id) || [])]);
+    const frequency = Math.min(1, (sources.size - 1) / FREQUENCY_SATURATION);
+
+    // Each matched interest closes half the remaining gap to 1
+    const matchedInterests = findTerms(`${topic.title}\n${topic.description || ''}`, context.interests);
+    const relevance = 1 - Math.pow(0.5, matchedInterests.length);
+
+    let similarity = 0;
+    let similarContentId: number | null = null;
+    for (const content of context.publishedContent) {
+      const contentSimilarity = Math.max(textSimilarity(topic.title, content.title), textSimilarity(topic.title, content.topic));
+      if (contentSimilarity > similarity) {
+        similarity = contentSimilarity;
+        similarContentId = content.id;
+      }
+    }
+
+    const weighted = SCORE_WEIGHTS.recency * recency +
+      SCORE_WEIGHTS.frequency * frequency +
+      SCORE_WEIGHTS.relevance * relevance;
+
+    return {
+      recency: round(recency, 3),
+      frequency: round(frequency, 3),
+      relevance: round(relevance, 3),
+      similarity: round(similarity, 3),
+      sources: Array.from(sources),
+      matchedInterests,
+      similarContentId,
+      total: round(100 * weighted * (1 - similarity), 1)
+    };
+  }
+
+  private async loadContext(): Promise<ScoringContext> {
+    const db = await getDb();
+
+    // BRAND_INTERESTS is a comma-separated list
+    const configured = await getConfig('brandInterests');
+    const interests: string[] = typeof configured === 'string' ? configured.split(',') : [...(configured || [])];
+
+    const sourceRows = await (db as any).allAsync(
+      `SELECT DISTINCT ts.topic_id, ts.source FROM topic_sources ts
+       JOIN topics t ON t.id = ts.topic_id
+       WHERE t.status = 'pending'`
+    );
+    const topicSources = new Map<number, string[]>();
+    for (const row of sourceRows) {
+      topicSources.set(row.topic_id, [...(topicSources.get(row.topic_id) || []), row.source]);
+    }
+
+    const publishedContent = await (db as any).allAsync(
+      `SELECT id, title, topic FROM content WHERE status = 'published' AND published_at >= datetime('now', ?)`,
+      `-${PUBLISHED_WINDOW_DAYS} days`
+    );
+
+    return {
+      now: Date.now(),
+      interests: Array.from(new Set(interests.map(interest => interest.trim()).filter(Boolean))),
+      topicSources,
+      publishedContent
+    };
+  }
+}
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker
+function parseDate(value: string): number {
+  const time = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value).getTime();
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,267 @@
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { TopicScoreBreakdown } from './topicScoring.service';
+
+// pending → selected (a campaign is generating for it) → generated → published.
+// Pending topics can also be skipped by a user or expire when they get too old.
+export const TOPIC_STATUSES = ['pending', 'selected', 'generated', 'published', 'skipped', 'expired'] as const;
+
+export type TopicStatus = typeof TOPIC_STATUSES[number];
+
+const TOPIC_TRANSITIONS: Record<TopicStatus, TopicStatus[]> = {
+  pending: ['selected', 'skipped', 'expired'],
+  // A failed run returns the topic to the status it was selected from
+  selected: ['generated', 'pending', 'skipped', 'expired', 'published'],
+  generated: ['published', 'selected'],
+  published: ['selected'],
+  // Skipped and expired topics can still be generated for from the topic inbox
+  skipped: ['pending', 'selected'],
+  expired: ['pending', 'selected']
+};
+
+// Statuses that take a topic out of the queue
+const PROCESSED_STATUSES: TopicStatus[] = ['generated', 'published', 'skipped', 'expired'];
+
+// Content in these statuses is live: waiting for review, going out, or out
+const LIVE_CONTENT_STATUSES = ['pending_approval', 'approved', 'scheduled', 'published'];
+
+export const DEFAULT_TOPIC_MAX_AGE_DAYS = 7;
+
+export function isTopicStatus(status: unknown): status is TopicStatus {
+  return TOPIC_STATUSES.includes(status as TopicStatus);
+}
+
+export interface TopicSource {
+  title: string;
+  source: string;
+  url: string | null;
+  publishedAt: string | null;
+}
+
+export interface Topic {
+  id: number;
+  title: string;
+  source: string;
+  sourceUrl: string | null;
+  description: string | null;
+  status: TopicStatus;
+  // Pinned topics are picked by automatic campaigns before any other
+  pinned: boolean;
+  score: number | null;
+  scoreBreakdown: TopicScoreBreakdown | null;
+  // Every article merged into the topic
+  sources: TopicSource[];
+  discoveredAt: string;
+  publishedAt: string | null;
+  processedAt: string | null;
+}
+
+export interface TopicListOptions {
+  status?: string;
+  source?: string;
+  // Matched against the title and description
+  search?: string;
+  pinned?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface TopicPage {
+  topics: Topic[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// The topic inbox: lets users see what automatic campaigns will pick and veto topics
+export class TopicService {
+  async listTopics(options: TopicListOptions = {}): Promise<TopicPage> {
+    const page = Math.max(1, Math.floor(options.page || 1));
+    const pageSize = Math.min(Math.max(1, Math.floor(options.pageSize || DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+    if (options.source) {
+      conditions.push('id IN (SELECT topic_id FROM topic_sources WHERE source = ?) OR source = ?');
+      params.push(options.source, options.source);
+    }
+    if (options.search) {
+      conditions.push(`(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')`);
+      const pattern = `%${options.search.replace(/[\\%_]/g, '\\$&')}%`;
+      params.push(pattern, pattern);
+    }
+    if (options.pinned !== undefined) {
+      conditions.push('pinned = ?');
+      params.push(options.pinned ? 1 : 0);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.map(condition => `(${condition})`).join(' AND ')}` : '';
+
+    const db = await getDb();
+    const { total } = await (db as any).getAsync(`SELECT COUNT(*) AS total FROM topics ${where}`, ...params);
+    // Same order automatic campaigns pick pending topics in
+    const rows = await (db as any).allAsync(
+      `SELECT * FROM topics ${where}
+       ORDER BY pinned DESC, score IS NULL, score DESC, discovered_at DESC
+       LIMIT ? OFFSET ?`,
+      ...params,
+      pageSize,
+      (page - 1) * pageSize
+    );
+
+    return {
+      topics: await this.withSources(rows),
+      total,
+      page,
+      pageSize
+    };
+  }
+
+  async getTopic(topicId: number): Promise<Topic | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM topics WHERE id = ?', topicId);
+    return row ? (await this.withSources([row]))[0] : null;
+  }
+
+  // Keep a topic out of automatic campaigns
+  async skipTopic(topicId: number): Promise<Topic> {
+    await this.getPendingTopic(topicId);
+    return this.transition(topicId, 'skipped');
+  }
+
+  async setPinned(topicId: number, pinned: boolean): Promise<Topic> {
+    const topic = await this.getPendingTopic(topicId);
+
+    const db = await getDb();
+    await (db as any).runAsync('UPDATE topics SET pinned = ? WHERE id = ?', pinned ? 1 : 0, topic.id);
+    logger.info(`Topic ${topicId} ${pinned ? 'pinned' : 'unpinned'}`);
+    return (await this.getTopic(topicId))!;
+  }
+
+  // Move a topic to another status, if its lifecycle allows it
+  async transition(topicId: number, status: TopicStatus): Promise<Topic> {
+    const topic = await this.getTopic(topicId);
+    if (!topic) {
+      throw new AppError('Topic not found', 404);
+    }
+    if (!TOPIC_TRANSITIONS[topic.status]?.includes(status)) {
+      throw new AppError(`A ${topic.status} topic can't become ${status}`, 409);
+    }
+
+    const db = await getDb();
+    // A pin only means something while the topic waits in the queue. The status check makes
+    // the move conditional on the status it was validated against.
+    const updated = await (db as any).updateAsync(
+      `UPDATE topics
+       SET status = ?, pinned = ?, processed_at = CASE WHEN ? THEN CURRENT_TIMESTAMP ELSE NULL END
+       WHERE id = ? AND status = ?`,
+      status,
+      status === 'pending' && topic.pinned ? 1 : 0,
+      PROCESSED_STATUSES.includes(status) ? 1 : 0,
+      topicId,
+      topic.status
+    );
+    if (updated !== 1) {
+      throw new AppError('Topic changed while it was being updated; reload and try again', 409);
+    }
+    logger.info(`Topic ${topicId}: ${topic.status} → ${status}`);
+    return (await this.getTopic(topicId))!;
+  }
+
+  // IDs of posts generated from the topic that are still in review, scheduled or published
+  async getLiveContentIds(topicId: number): Promise<number[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync(
+      `SELECT id FROM content WHERE topic_id = ? AND status IN (${LIVE_CONTENT_STATUSES.map(() => '?').join(', ')}) ORDER BY id ASC`,
+      topicId,
+      ...LIVE_CONTENT_STATUSES
+    );
+    return rows.map((row: any) => row.id);
+  }
+
+  // Expire pending topics whose article is older than maxAgeDays; returns how many expired
+  async expireStaleTopics(maxAgeDays: number = DEFAULT_TOPIC_MAX_AGE_DAYS): Promise<number> {
+    const db = await getDb();
+    const stale = await (db as any).allAsync(
+      `SELECT id FROM topics
+       WHERE status = 'pending' AND datetime(COALESCE(published_at, discovered_at)) < datetime('now', ?)`,
+      `-${maxAgeDays} days`
+    );
+
+    let expired = 0;
+    for (const { id } of stale) {
+      try {
+        await this.transition(id, 'expired');
+        expired++;
+      } catch (error) {
+        // A campaign picked the topic up in the meantime
+        if (!(error instanceof AppError && error.statusCode === 409)) throw error;
+      }
+    }
+    if (expired > 0) {
+      logger.info(`Expired ${expired} topic(s) older than ${maxAgeDays} days`);
+    }
+    return expired;
+  }
+
+  private async getPendingTopic(topicId: number): Promise<Topic> {
+    const topic = await this.getTopic(topicId);
+    if (!topic) {
+      throw new AppError('Topic not found', 404);
+    }
+    if (topic.status !== 'pending') {
+      throw new AppError(`Only pending topics can be changed (this one is ${topic.status})`, 400);
+    }
+    return topic;
+  }
+
+  private async withSources(rows: any[]): Promise<Topic[]> {
+    if (rows.length === 0) return [];
+
+    const db = await getDb();
+    const sourceRows = await (db as any).allAsync(
+      `SELECT * FROM topic_sources WHERE topic_id IN (${rows.map(() => '?').join(', ')}) ORDER BY id ASC`,
+      ...rows.map(row => row.id)
+    );
+
+    return rows.map(row => this.toTopic(row, sourceRows.filter((source: any) => source.topic_id === row.id)));
+  }
+
+  private toTopic(row: any, sourceRows: any[]): Topic {
+    return {
+      id: row.id,
+      title: row.title,
+      source: row.source,
+      sourceUrl: row.source_url,
+      description: row.description,
+      status: row.status,
+      pinned: row.pinned === 1,
+      score: row.score,
+      scoreBreakdown: row.score_breakdown ? JSON.parse(row.score_breakdown) : null,
+      // Topics saved before topic_sources existed only know their own source
+      sources: sourceRows.length > 0
+        ? sourceRows.map(source => ({
+          title: source.title,
+          source: source.source,
+          url: source.source_url,
+          publishedAt: source.published_at
+        }))
+        : [{ title: row.title, source: row.source, url: row.source_url, publishedAt: row.published_at }],
+      discoveredAt: fromSqlTimestamp(row.discovered_at)!,
+      publishedAt: row.published_at,
+      processedAt: fromSqlTimestamp(row.processed_at)
+    };
+  }
+}
+
+// CURRENT_TIMESTAMP columns are UTC without a zone marker
+function fromSqlTimestamp(value: string | null): string | null {
+  return value ? new Date(`${value.replace(' ', 'T')}Z`).toISOString() : null;
+}
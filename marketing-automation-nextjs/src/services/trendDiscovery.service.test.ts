@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DUPLICATE_SIMILARITY } from './trendDiscovery.service';
+import { minHashSignature, signatureSimilarity, textSimilarity } from '../lib/utils/textSimilarity';
+
+// Compared the way discovery does, by MinHash signature
+const isSameStory = (a: string, b: string) =>
+  signatureSimilarity(minHashSignature(a), minHashSignature(b)) >= DUPLICATE_SIMILARITY;
+
+test('merges the same story worded differently', () => {
+  assert.ok(isSameStory('Microsoft to acquire Activision Blizzard for $68.7 billion', 'Microsoft to buy Activision Blizzard for $68.7 billion'));
+  assert.ok(isSameStory('OpenAI releases GPT-5 to ChatGPT users', 'OpenAI releases GPT-5 to all ChatGPT Plus users'));
+  assert.ok(isSameStory('Amazon cuts 14,000 corporate jobs', 'Amazon to cut 14,000 corporate jobs'));
+  assert.ok(isSameStory('SpaceX launches Starship on its fifth test flight', 'SpaceX launches Starship on fifth test flight'));
+});
+
+test('merges a reworded headline that keeps the story\'s names', () => {
+  assert.ok(isSameStory('OpenAI launches GPT-5', "GPT-5 is here: OpenAI's new model"));
+  assert.ok(isSameStory('Tesla recalls 2 million cars over Autopilot', 'Tesla to recall 2 million vehicles over Autopilot'));
+});
+
+test('keeps headlines that differ in a key word apart', () => {
+  assert.ok(!isSameStory('Apple launches new iPhone', 'Apple launches new iPad'));
+  assert.ok(!isSameStory('Apple launches iPhone 16 Pro', 'Apple launches iPad Pro'));
+  assert.ok(!isSameStory('Google fined in EU antitrust case', 'Apple fined in EU antitrust case'));
+  assert.ok(!isSameStory('Nvidia shares rise after earnings', 'Nvidia shares fall after earnings'));
+  assert.ok(!isSameStory('苹果发布新款iPhone', '苹果发布新款iPad'));
+});
+
+test('tokens ignore case, stop words, possessives and plurals', () => {
+  assert.equal(textSimilarity('The new AI Models', 'ai model'), 1);
+  assert.equal(textSimilarity('Apple launches new iPhone', 'Apple launches new iPad'), 0.5);
+  assert.equal(textSimilarity("OpenAI's launches", 'OpenAI launch'), 1);
+  assert.equal(textSimilarity('', 'anything'), 0);
+});
+
+test('signatures estimate the token overlap', () => {
+  const a = 'OpenAI releases GPT-5 to ChatGPT users';
+  const b = 'OpenAI releases GPT-5 to all ChatGPT Plus users';
+  assert.ok(Math.abs(signatureSimilarity(minHashSignature(a), minHashSignature(b)) - textSimilarity(a, b)) < 0.1);
+  assert.deepEqual(minHashSignature('the of and'), []);
+});
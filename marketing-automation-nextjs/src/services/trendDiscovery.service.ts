@@ -1,14 +1,20 @@
-import RSSParser from 'rss-parser';
 import axios from 'axios';
 import { logger } from '../lib/utils/logger';
 import { getDb } from '../lib/database';
 import { AppError } from '../lib/utils/errors';
-import { loadUserConfig } from '../lib/utils/config';
+import { FeedService, Feed } from './feeds.service';
+import { MINHASH_VERSION, minHashSignature, signatureSimilarity } from '../lib/utils/textSimilarity';
 
-interface RSSFeed {
-  url: string;
-  name: string;
-}
+// Headlines whose signatures agree at least this much are the same story. Names count twice
+// in a signature, so a reworded headline that keeps the story's names ("OpenAI launches GPT-5" /
+// "GPT-5 is here: OpenAI's new model") scores about 0.75, while short headlines that differ in a
+// name ("Apple launches new iPhone" / "... iPad") stay near 0.5 and a changed verb alone
+// ("Nvidia shares rise" / "... fall") stays below the bar.
+export const DUPLICATE_SIMILARITY = 0.7;
+// New articles are merged into topics discovered within this many days
+const DUPLICATE_WINDOW_DAYS = 7;
+// Longest feed description kept for a topic or source
+const MAX_DESCRIPTION_LENGTH = 1000;
 
 interface TrendItem {
   title: string;
@@ -18,30 +24,36 @@ interface TrendItem {
   publishedAt?: Date;
 }
 
+// Near-duplicate items from one fetch; the first item represents the story
+interface TrendCluster {
+  items: TrendItem[];
+  signature: number[];
+}
+
 export class TrendService {
-  private rssParser: RSSParser;
+  private feedService: FeedService;
   private serpApiKey: string;
 
   constructor() {
-    this.rssParser = new RSSParser();
+    this.feedService = new FeedService();
     this.serpApiKey = process.env.SERPAPI_KEY || '';
   }
 
-  // Fetch trends from RSS feeds
-  async fetchRSSFeeds(feeds: RSSFeed[]): Promise<TrendItem[]> {
+  // Fetch trends from RSS feeds; each fetch's outcome is recorded on the feed (see FeedService)
+  async fetchRSSFeeds(feeds: Feed[]): Promise<TrendItem[]> {
     const allItems: TrendItem[] = [];
 
     for (const feed of feeds) {
       try {
         logger.info(`Fetching RSS feed: ${feed.name}`);
-        const parsedFeed = await this.rssParser.parseURL(feed.url);
+        const feedItems = await this.feedService.fetchFeed(feed);
         
-        const items = parsedFeed.items.map(item => ({
-          title: item.title || 'Untitled',
+        const items = feedItems.map(item => ({
+          title: item.title,
           source: feed.name,
           sourceUrl: item.link,
-          description: item.contentSnippet || item.content,
-          publishedAt: item.pubDate ? new Date(item.pubDate) : undefined
+          description: item.description,
+          publishedAt: item.publishedAt
         }));
 
         allItems.push(...items);
@@ -100,7 +112,7 @@ export class TrendService {
 
   // Aggregate and deduplicate trends
   async aggregateTrends(sources: {
-    rssFeeds?: RSSFeed[];
+    rssFeeds?: Feed[];
     googleTrends?: boolean;
   }): Promise<TrendItem[]> {
     const allTrends: TrendItem[] = [];
@@ -121,83 +133,165 @@ export class TrendService {
       }
     }
 
-    // Deduplicate by title (case-insensitive)
-    const uniqueTrends = this.deduplicateTrends(allTrends);
+    // Merge near-duplicate headlines into one cluster per story
+    const clusters = this.clusterTrends(allTrends);
     
     // Save to database
-    await this.saveTrendsToDatabase(uniqueTrends);
+    await this.saveTrendsToDatabase(clusters);
 
-    return uniqueTrends;
+    return clusters.map(cluster => cluster.items[0]);
   }
 
-  private deduplicateTrends(trends: TrendItem[]): TrendItem[] {
-    const seen = new Set<string>();
-    return trends.filter(trend => {
+  // Greedy clustering: an item joins the first cluster that already has a
+  // similar headline, otherwise it starts a new one
+  private clusterTrends(trends: TrendItem[]): TrendCluster[] {
+    const clusters: (TrendCluster & { signatures: number[][] })[] = [];
+
+    for (const trend of trends) {
       if (!trend.title) {
-        return false; // Skip trends without titles
+        continue; // Skip trends without titles
       }
+      const signature = minHashSignature(trend.title);
       const normalizedTitle = trend.title.toLowerCase().trim();
-      if (seen.has(normalizedTitle)) {
-        return false;
+
+      const cluster = clusters.find(candidate => candidate.items.some((item, index) =>
+        item.title.toLowerCase().trim() === normalizedTitle ||
+        signatureSimilarity(candidate.signatures[index], signature) >= DUPLICATE_SIMILARITY
+      ));
+      if (cluster) {
+        cluster.items.push(trend);
+        cluster.signatures.push(signature);
+      } else {
+        clusters.push({ items: [trend], signature, signatures: [signature] });
       }
-      seen.add(normalizedTitle);
-      return true;
-    });
+    }
+
+    return clusters.map(({ items, signature }) => ({ items, signature }));
   }
 
-  private async saveTrendsToDatabase(trends: TrendItem[]): Promise<void> {
+  // Each cluster becomes a new topic or is merged into a recent topic on the same
+  // story; every article is kept in topic_sources
+  private async saveTrendsToDatabase(clusters: TrendCluster[]): Promise<void> {
     const db = await getDb();
-    
-    for (const trend of trends) {
+    const recentTopics = await this.loadRecentSignatures();
+
+    for (const cluster of clusters) {
+      const trend = cluster.items[0];
       try {
-        // Check if trend already exists
+        // Check if the story already has a topic
         const existing = await (db as any).getAsync(
           'SELECT id FROM topics WHERE LOWER(title) = LOWER(?)',
           trend.title
-        );
+        ) || recentTopics.find(topic => signatureSimilarity(topic.signature, cluster.signature) >= DUPLICATE_SIMILARITY);
 
-        if (!existing) {
+        let topicId: number;
+        if (existing) {
+          topicId = existing.id;
           await (db as any).runAsync(
-            `INSERT INTO topics (title, source, source_url, status) 
-             VALUES (?, ?, ?, 'pending')`,
+            'UPDATE topics SET description = COALESCE(description, ?) WHERE id = ?',
+            this.getDescription(cluster.items),
+            topicId
+          );
+        } else {
+          topicId = await (db as any).insertAsync(
+            `INSERT INTO topics (title, source, source_url, published_at, description, minhash, minhash_version, status) 
+             VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
             trend.title,
             trend.source,
-            trend.sourceUrl || null
+            trend.sourceUrl || null,
+            toTimestamp(trend.publishedAt),
+            this.getDescription(cluster.items),
+            JSON.stringify(cluster.signature),
+            MINHASH_VERSION
           );
+          recentTopics.push({ id: topicId, signature: cluster.signature });
           logger.info(`Saved new trend: ${trend.title}`);
         }
+
+        await this.saveSources(topicId, cluster.items, !existing);
       } catch (error) {
         logger.error(`Error saving trend ${trend.title}:`, error);
       }
     }
   }
 
-  // Get pending trends from database
+  // Articles already recorded for the topic (same source and headline) are skipped
+  private async saveSources(topicId: number, items: TrendItem[], isNewTopic: boolean): Promise<void> {
+    const db = await getDb();
+    const countSources = async () =>
+      (await (db as any).getAsync('SELECT COUNT(*) AS count FROM topic_sources WHERE topic_id = ?', topicId)).count;
+    const before = await countSources();
+
+    for (const item of items) {
+      await (db as any).runAsync(
+        `INSERT OR IGNORE INTO topic_sources (topic_id, title, source, source_url, description, published_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        topicId,
+        item.title,
+        item.source,
+        item.sourceUrl || null,
+        truncateDescription(item.description),
+        toTimestamp(item.publishedAt)
+      );
+    }
+
+    const added = await countSources() - before;
+    if (!isNewTopic && added > 0) {
+      logger.info(`Merged ${added} article(s) into topic ${topicId}`);
+    }
+  }
+
+  // Signatures of topics discovered recently, computing any that are missing or were made
+  // by an older version of minHashSignature
+  private async loadRecentSignatures(): Promise<{ id: number; signature: number[] }[]> {
+    const db = await getDb();
+    const topics = await (db as any).allAsync(
+      `SELECT id, title, minhash, minhash_version FROM topics WHERE discovered_at >= datetime('now', ?)`,
+      `-${DUPLICATE_WINDOW_DAYS} days`
+    );
+
+    const signatures: { id: number; signature: number[] }[] = [];
+    for (const topic of topics) {
+      let signature: number[] | null = topic.minhash && topic.minhash_version === MINHASH_VERSION ? JSON.parse(topic.minhash) : null;
+      if (!signature) {
+        signature = minHashSignature(topic.title);
+        await (db as any).runAsync(
+          'UPDATE topics SET minhash = ?, minhash_version = ? WHERE id = ?',
+          JSON.stringify(signature),
+          MINHASH_VERSION,
+          topic.id
+        );
+      }
+      signatures.push({ id: topic.id, signature });
+    }
+    return signatures;
+  }
+
+  // The first description any of the articles has
+  private getDescription(items: TrendItem[]): string | null {
+    return truncateDescription(items.find(item => item.description?.trim())?.description);
+  }
+
+  // Get pending trends from database: pinned topics first, then highest scoring (see
+  // TopicScoringService); topics that haven't been scored yet come last, newest first
   async getPendingTrends(limit: number = 10): Promise<any[]> {
     const db = await getDb();
     const trends = await (db as any).allAsync(
       `SELECT * FROM topics 
        WHERE status = 'pending' 
-       ORDER BY discovered_at DESC 
+       ORDER BY pinned DESC, score IS NULL, score DESC, discovered_at DESC 
        LIMIT ?`,
       limit
     );
     return trends;
   }
+}
 
-  // Mark trend as processed
-  async markTrendProcessed(topicId: number): Promise<void> {
-    const db = await getDb();
-    await (db as any).runAsync(
-      `UPDATE topics 
-       SET status = 'processed', processed_at = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      topicId
-    );
-  }
+function toTimestamp(date?: Date): string | null {
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
 
-  // Get user configuration
-  async getUserConfig(): Promise<any> {
-    return await loadUserConfig();
-  }
-}
\ No newline at end of file
+function truncateDescription(description?: string): string | null {
+  const text = description?.trim();
+  return text ? text.slice(0, MAX_DESCRIPTION_LENGTH) : null;
+}
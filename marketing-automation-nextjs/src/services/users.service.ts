@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { UserRole, isUserRole } from '../lib/auth/permissions';
+import { SessionClaims, SessionUser } from '../lib/auth/session';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+  // Bumped whenever the role or password changes, signing out existing sessions
+  tokenVersion: number;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+export class UserService {
+  async countUsers(): Promise<number> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT COUNT(*) AS count FROM users');
+    return row.count;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const db = await getDb();
+    const rows = await (db as any).allAsync('SELECT * FROM users ORDER BY username ASC');
+    return rows.map((row: any) => this.toUser(row));
+  }
+
+  async getUser(userId: number): Promise<User | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM users WHERE id = ?', userId);
+    return row ? this.toUser(row) : null;
+  }
+
+  async createUser(username: string, password: string, role: UserRole): Promise<User> {
+    const normalizedUsername = username?.trim().toLowerCase();
+    if (!normalizedUsername) {
+      throw new AppError('Username is required', 400);
+    }
+    if (!isUserRole(role)) {
+      throw new AppError('Role must be one of admin, editor, approver, viewer', 400);
+    }
+    this.validatePassword(password);
+
+    const db = await getDb();
+    const existing = await (db as any).getAsync('SELECT id FROM users WHERE username = ?', normalizedUsername);
+    if (existing) {
+      throw new AppError(`User "${normalizedUsername}" already exists`, 409);
+    }
+
+    const userId = await (db as any).insertAsync(
+      `INSERT INTO users (username, password_hash, role, created_at) VALUES (?, ?, ?, ?)`,
+      normalizedUsername,
+      await this.hashPassword(password),
+      role,
+      new Date().toISOString()
+    );
+
+    logger.info(`Created ${role} user ${normalizedUsername}`);
+    return (await this.getUser(userId))!;
+  }
+
+  // First-run setup. The insert only happens while the table is empty, so two setup
+  // requests racing each other can't both create an admin.
+  async createFirstAdmin(username: string, password: string): Promise<User> {
+    const normalizedUsername = username?.trim().toLowerCase();
+    if (!normalizedUsername) {
+      throw new AppError('Username is required', 400);
+    }
+    this.validatePassword(password);
+
+    const db = await getDb();
+    const inserted = await (db as any).updateAsync(
+      `INSERT INTO users (username, password_hash, role, created_at)
+       SELECT ?, ?, 'admin', ? WHERE NOT EXISTS (SELECT 1 FROM users)`,
+      normalizedUsername,
+      await this.hashPassword(password),
+      new Date().toISOString()
+    );
+    if (inserted !== 1) {
+      throw new AppError('Setup has already been completed', 409);
+    }
+
+    logger.info(`Created first admin user ${normalizedUsername}`);
+    const row = await (db as any).getAsync('SELECT * FROM users WHERE username = ?', normalizedUsername);
+    return this.toUser(row);
+  }
+
+  async updateUser(userId: number, changes: { role?: UserRole; password?: string }): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const db = await getDb();
+    if (changes.role !== undefined) {
+      if (!isUserRole(changes.role)) {
+        throw new AppError('Role must be one of admin, editor, approver, viewer', 400);
+      }
+      // Don't let the last admin lock everyone out of configuration
+      if (user.role === 'admin' && changes.role !== 'admin') {
+        const admins = await (db as any).getAsync(`SELECT COUNT(*) AS count FROM users WHERE role = 'admin'`);
+        if (admins.count <= 1) {
+          throw new AppError('Cannot remove the last admin', 400);
+        }
+      }
+      await (db as any).runAsync(
+        'UPDATE users SET role = ?, token_version = token_version + 1 WHERE id = ?',
+        changes.role,
+        userId
+      );
+    }
+
+    if (changes.password !== undefined) {
+      this.validatePassword(changes.password);
+      await (db as any).runAsync(
+        'UPDATE users SET password_hash = ?, token_version = token_version + 1 WHERE id = ?',
+        await this.hashPassword(changes.password),
+        userId
+      );
+    }
+
+    return (await this.getUser(userId))!;
+  }
+
+  // Returns the user if the credentials match
+  async authenticate(username: string, password: string): Promise<User | null> {
+    const db = await getDb();
+    const row = await (db as any).getAsync('SELECT * FROM users WHERE username = ?', username?.trim().toLowerCase());
+
+    if (!row || !(await this.verifyPassword(password || '', row.password_hash))) {
+      return null;
+    }
+
+    await (db as any).runAsync('UPDATE users SET last_login_at = ? WHERE id = ?', new Date().toISOString(), row.id);
+    return this.toUser(row);
+  }
+
+  // The session's user if the account still exists with the role and token version the
+  // session was signed with; null if it was deleted or changed since
+  async getSessionUser(claims: SessionClaims): Promise<SessionUser | null> {
+    const user = await this.getUser(claims.id);
+    if (!user || user.role !== claims.role || user.tokenVersion !== claims.tokenVersion) {
+      return null;
+    }
+    return { id: user.id, username: user.username, role: user.role };
+  }
+
+  private validatePassword(password: string): void {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new AppError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+
+    const candidate = await scrypt(password, salt, KEY_LENGTH);
+    const expected = Buffer.from(hash, 'hex');
+    // timingSafeEqual throws on a length mismatch, e.g. a hash stored with a different key length
+    if (candidate.length !== expected.length) return false;
+    return crypto.timingSafeEqual(candidate, expected);
+  }
+
+  private toUser(row: any): User {
+    return {
+      id: row.id,
+      username: row.username,
+      role: row.role,
+      tokenVersion: row.token_version || 0,
+      createdAt: row.created_at,
+      lastLoginAt: row.last_login_at
+    };
+  }
+}
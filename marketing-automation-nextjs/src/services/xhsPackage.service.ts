@@ -0,0 +1,240 @@
+import sharp from 'sharp';
+import JSZip from 'jszip';
+import QRCode from 'qrcode';
+import { logger } from '../lib/utils/logger';
+import { getDb } from '../lib/database';
+import { AppError } from '../lib/utils/errors';
+import { extractHashtags } from '../lib/utils/textMetrics';
+import { fetchRemoteImage } from '../lib/utils/remoteImages';
+import { createSignedToken, verifySignedToken } from '../lib/auth/session';
+import { AssetService, parseAssetUrl } from './assets.service';
+
+// Packages are made for posts ready to go out, and can be downloaded again afterwards
+const PACKAGE_STATUSES = ['approved', 'published'];
+
+// Long enough to post from the link the day after downloading the package
+const HANDOFF_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Opens the Xiao Hongshu app on a phone that has it installed
+const XHS_APP_LINK = 'xhsdiscover://home';
+
+// Image shapes the XHS editor offers, at the width it displays them
+export const XHS_IMAGE_VARIANTS = [
+  { label: '3:4', filename: 'images/cover-3x4.jpg', width: 1080, height: 1440 },
+  { label: '1:1', filename: 'images/cover-1x1.jpg', width: 1080, height: 1080 }
+];
+
+export interface XhsPackageImage {
+  label: string;
+  filename: string;
+  data: Buffer;
+}
+
+export interface XhsPackage {
+  contentId: number;
+  title: string;
+  // Body followed by the hashtags, ready to paste into the note
+  caption: string;
+  images: XhsPackageImage[];
+}
+
+interface HandoffPayload {
+  handoff: number;
+  exp: number;
+}
+
+// Everything an operator needs to post an XHS note by hand: resized images, the
+// caption, and a handoff page to move them onto a phone
+export class XhsPackageService {
+  async getPackage(contentId: number): Promise<XhsPackage> {
+    const db = await getDb();
+    const content = await (db as any).getAsync('SELECT * FROM content WHERE id = ?', contentId);
+
+    if (!content) {
+      throw new AppError('Content not found', 404);
+    }
+    if (content.platform !== 'xhs') {
+      throw new AppError('Publish packages are only made for Xiao Hongshu content', 400);
+    }
+    if (!PACKAGE_STATUSES.includes(content.status)) {
+      throw new AppError('Content must be approved before its publish package is made', 400);
+    }
+    if (!content.image_url) {
+      throw new AppError('XHS notes need at least one image; add one before downloading the package', 400);
+    }
+
+    const source = await this.loadImage(content.image_url);
+    const images = await Promise.all(XHS_IMAGE_VARIANTS.map(async variant => ({
+      label: variant.label,
+      filename: variant.filename,
+      data: await sharp(source)
+        .rotate()
+        .resize(variant.width, variant.height, { fit: 'cover', position: 'centre' })
+        .jpeg({ quality: 90 })
+        .toBuffer()
+    })));
+
+    return {
+      contentId,
+      title: content.title,
+      caption: this.formatCaption(content.body, content.hashtags),
+      images
+    };
+  }
+
+  // A zip with the images, caption, a handoff page and a QR code linking to it online
+  async buildArchive(contentId: number, baseUrl: string): Promise<{ filename: string; data: Buffer }> {
+    const xhsPackage = await this.getPackage(contentId);
+    const handoffUrl = await this.createHandoffUrl(contentId, baseUrl);
+    const qrCode = await QRCode.toBuffer(handoffUrl, { width: 360, margin: 2 });
+
+    const zip = new JSZip();
+    xhsPackage.images.forEach(image => zip.file(image.filename, image.data));
+    zip.file('title.txt', xhsPackage.title);
+    zip.file('caption.txt', xhsPackage.caption);
+    zip.file('handoff-qr.png', qrCode);
+    zip.file('handoff.html', this.renderHandoffPage(xhsPackage, {
+      imageSrc: image => image.filename,
+      qrCodeSrc: 'handoff-qr.png',
+      handoffUrl
+    }));
+
+    const data = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    logger.info(`Built XHS publish package for content ${contentId} (${data.length} bytes)`);
+    return { filename: `xhs-note-${contentId}.zip`, data };
+  }
+
+  // A link anyone holding it can open without signing in, so it works from a phone
+  async createHandoffUrl(contentId: number, baseUrl: string): Promise<string> {
+    const payload: HandoffPayload = {
+      handoff: contentId,
+      exp: Math.floor(Date.now() / 1000) + HANDOFF_TTL_SECONDS
+    };
+    const token = await createSignedToken(payload);
+    return `${baseUrl.replace(/\/+$/, '')}/api/handoff/${token}`;
+  }
+
+  // The content ID a handoff token was issued for, or null if it is invalid or expired
+  async verifyHandoffToken(token: string): Promise<number | null> {
+    const payload: HandoffPayload | null = await verifySignedToken(token);
+    return typeof payload?.handoff === 'number' ? payload.handoff : null;
+  }
+
+  // The handoff page served online, with the images inlined so it needs no session
+  async renderOnlineHandoffPage(contentId: number): Promise<string> {
+    const xhsPackage = await this.getPackage(contentId);
+    return this.renderHandoffPage(xhsPackage, {
+      imageSrc: image => `data:image/jpeg;base64,${image.data.toString('base64')}`
+    });
+  }
+
+  // Hashtags go after the body as `#tag`, space-separated, skipping any the body already uses
+  formatCaption(body: string, hashtags: string | null): string {
+    // Stored hashtags may have lost their leading #
+    const listed = (hashtags || '').split(/\s+/).filter(Boolean).map(tag => tag.startsWith('#') ? tag : `#${tag}`);
+    const bodyTags = new Set(extractHashtags(body).map(tag => tag.toLowerCase()));
+    const tags = extractHashtags(listed.join(' ')).filter(tag => !bodyTags.has(tag.toLowerCase()));
+
+    const caption = body.trim();
+    return tags.length > 0 ? `${caption}\n\n${tags.map(tag => `#${tag}`).join(' ')}` : caption;
+  }
+
+  private async loadImage(imageUrl: string): Promise<Buffer> {
+    const assetId = parseAssetUrl(imageUrl);
+    if (assetId) {
+      return (await new AssetService().readAssetFile(assetId)).data;
+    }
+    if (/^https?:\/\//.test(imageUrl)) {
+      try {
+        return (await fetchRemoteImage(imageUrl)).data;
+      } catch (error: any) {
+        logger.error(`Failed to download image ${imageUrl}:`, error);
+        throw error;
+      }
+    }
+    throw new AppError('The post\'s image is not in the asset library', 400);
+  }
+
+  private renderHandoffPage(
+    xhsPackage: XhsPackage,
+    options: { imageSrc: (image: XhsPackageImage) => string; qrCodeSrc?: string; handoffUrl?: string }
+  ): string {
+    const images = xhsPackage.images.map(image => `
+      <figure>
+        <img src="${escapeHtml(options.imageSrc(image))}" alt="${escapeHtml(image.label)} image">
+        <figcaption>${escapeHtml(image.label)}</figcaption>
+      </figure>`).join('');
+
+    const qrCode = options.qrCodeSrc && options.handoffUrl ? `
+    <section class="qr">
+      <img src="${escapeHtml(options.qrCodeSrc)}" alt="QR code for the handoff page">
+      <p>Scan with your phone to open this page there, or go to<br><a href="${escapeHtml(options.handoffUrl)}">${escapeHtml(options.handoffUrl)}</a></p>
+    </section>` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(xhsPackage.title)} · XHS note #${xhsPackage.contentId}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 640px; margin: 0 auto; padding: 16px; color: #1f2937; }
+    h1 { font-size: 1.1rem; }
+    section { margin-bottom: 24px; }
+    .images { display: flex; gap: 12px; flex-wrap: wrap; }
+    figure { margin: 0; flex: 1 1 240px; }
+    figure img { width: 100%; border-radius: 8px; border: 1px solid #e5e7eb; }
+    figcaption, .hint { font-size: 0.8rem; color: #6b7280; }
+    pre { white-space: pre-wrap; word-break: break-word; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; font-family: inherit; }
+    button, .open-app { display: inline-block; padding: 8px 16px; border: 0; border-radius: 999px; background: #ff2442; color: #fff; font-size: 0.9rem; text-decoration: none; cursor: pointer; }
+    .qr { text-align: center; }
+    .qr img { width: 180px; }
+  </style>
+</head>
+<body>
+  <h1>Post XHS note #${xhsPackage.contentId}</h1>
+  <p class="hint">1. Save the images. 2. Copy the title and caption. 3. Open Xiao Hongshu and post the note. 4. Paste the note's link back into the app with "Mark as posted".</p>
+  ${qrCode}
+  <section>
+    <div class="images">${images}
+    </div>
+    <p class="hint">Long-press an image to save it to your photos.</p>
+  </section>
+  <section>
+    <h2>Title</h2>
+    <pre id="title">${escapeHtml(xhsPackage.title)}</pre>
+    <button data-copy="title">Copy title</button>
+  </section>
+  <section>
+    <h2>Caption</h2>
+    <pre id="caption">${escapeHtml(xhsPackage.caption)}</pre>
+    <button data-copy="caption">Copy caption</button>
+  </section>
+  <section>
+    <a class="open-app" href="${XHS_APP_LINK}">Open Xiao Hongshu</a>
+  </section>
+  <script>
+    document.querySelectorAll('[data-copy]').forEach(function (button) {
+      button.addEventListener('click', function () {
+        var text = document.getElementById(button.getAttribute('data-copy')).textContent;
+        var label = button.textContent;
+        navigator.clipboard.writeText(text).then(function () {
+          button.textContent = 'Copied';
+          setTimeout(function () { button.textContent = label; }, 1500);
+        });
+      });
+    });
+  </script>
+</body>
+</html>
+`;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
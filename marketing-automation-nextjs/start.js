@@ -3,6 +3,7 @@
 const { spawn } = require('child_process');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 
 console.log('🚀 Starting Marketing Automation System (Next.js Version)');
 console.log('================================================');
@@ -21,10 +22,29 @@ if (!fs.existsSync(dataDir)) {
   console.log('📁 Created data directory');
 }
 
+// Sessions are signed with JWT_SECRET. If it isn't set here or in an env file, use a random secret
+// generated on first start and kept in a file only this user can read, so sessions survive restarts.
+const env = { ...process.env };
+const secretInEnvFile = ['.env.local', '.env']
+  .map(file => path.join(__dirname, file))
+  .some(file => fs.existsSync(file) && /^\s*JWT_SECRET\s*=\s*\S/m.test(fs.readFileSync(file, 'utf8')));
+if (!env.JWT_SECRET && !secretInEnvFile) {
+  const secretPath = path.join(__dirname, '.session-secret');
+  if (!fs.existsSync(secretPath)) {
+    fs.writeFileSync(secretPath, crypto.randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+    console.log('🔑 Generated a session secret in .session-secret');
+  }
+  env.JWT_SECRET = fs.readFileSync(secretPath, 'utf8').trim();
+}
+
+// The middleware checks sessions against this server at a fixed address, never the request's Host
+env.INTERNAL_APP_URL = env.INTERNAL_APP_URL || 'http://127.0.0.1:3001';
+
 // Start Next.js development server
 console.log('🔧 Starting Next.js development server on port 3001...');
 const nextProcess = spawn('npm', ['run', 'dev', '--', '-p', '3001'], {
   cwd: __dirname,
+  env,
   stdio: 'inherit',
   shell: true
 });